@@ -10,6 +10,7 @@ import NotFound from "@/pages/not-found";
 import Navbar from "@/components/Navbar";
 import BottomNavbar from "@/components/BottomNavbar";
 import Footer from "@/components/Footer";
+import { ProtectedAdminRoute } from "@/components/ProtectedAdminRoute";
 import Homepage from "@/pages/Homepage";
 import Products from "@/pages/Products";
 import ProductDetail from "@/pages/ProductDetail";
@@ -18,12 +19,15 @@ import Checkout from "@/pages/Checkout";
 import OrderConfirmation from "@/pages/OrderConfirmation";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
+import ForgotPassword from "@/pages/ForgotPassword";
+import VerifyEmail from "@/pages/VerifyEmail";
 import StoreDetail from "@/pages/StoreDetail";
 import Stores from "@/pages/Stores";
 import Account from "@/pages/Account";
 import ShopkeeperDashboard from "@/pages/ShopkeeperDashboard";
 import CustomerDashboard from "@/pages/CustomerDashboard";
 import AdminPanel from "@/pages/AdminPanel";
+import AdminLogin from "@/pages/AdminLogin";
 import StoreMaps from "@/pages/StoreMaps";
 import Wishlist from "@/pages/Wishlist";
 import Categories from "@/pages/Categories";
@@ -33,6 +37,7 @@ function Router() {
     <Switch>
       <Route path="/" component={Homepage} />
       <Route path="/categories" component={Categories} />
+      <Route path="/categories/:id" component={Categories} />
       <Route path="/products" component={Products} />
       <Route path="/products/:id" component={ProductDetail} />
       <Route path="/cart" component={Cart} />
@@ -40,12 +45,19 @@ function Router() {
       <Route path="/order-confirmation" component={OrderConfirmation} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
       <Route path="/stores" component={Stores} />
       <Route path="/stores/:id" component={StoreDetail} />
       <Route path="/account" component={Account} />
       <Route path="/shopkeeper-dashboard" component={ShopkeeperDashboard} />
       <Route path="/customer-dashboard" component={CustomerDashboard} />
-      <Route path="/admin" component={AdminPanel} />
+      <Route path="/admin/login" component={AdminLogin} />
+      <Route path="/admin">
+        <ProtectedAdminRoute>
+          <AdminPanel />
+        </ProtectedAdminRoute>
+      </Route>
       <Route path="/store-maps" component={StoreMaps} />
       <Route path="/wishlist" component={Wishlist} />
       <Route component={NotFound} />
@@ -0,0 +1,88 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiPost } from "@/lib/api";
+import { isPrepaid } from "@shared/orders";
+import type { Order, Refund, StoreOrder } from "@shared/schema";
+
+interface CancelOrderDialogProps {
+  order: (Order & { storeOrders: StoreOrder[] }) | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Cancels a whole order with the customer's reason. The server checks each
+// store's cancellation window, puts the stock back and starts any refund
+export default function CancelOrderDialog({ order, onOpenChange }: CancelOrderDialogProps) {
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Store orders already cancelled by their store were refunded at the time
+  const refundAmount = (order?.storeOrders ?? [])
+    .filter((storeOrder) => storeOrder.status !== "cancelled")
+    .reduce((sum, storeOrder) => sum + Number(storeOrder.totalAmount), 0);
+
+  useEffect(() => {
+    setReason("");
+  }, [order?.id]);
+
+  const cancelMutation = useMutation({
+    mutationFn: () => apiPost<{ refunds: Refund[] }>(`/api/orders/${order!.id}/cancel`, { reason: reason.trim() }),
+    onSuccess: ({ refunds }) => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/orders/customer") });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/user", order!.customerId] });
+      toast({
+        title: `Order #${order!.id} cancelled`,
+        description: refunds.length > 0 ? "Your refund has been initiated." : undefined,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Order #{order?.id}</DialogTitle>
+          <DialogDescription>
+            All remaining items in this order will be cancelled.
+            {order && isPrepaid(order.paymentMethod) &&
+              ` A refund of ₹${refundAmount.toLocaleString()} will be made to your ${order.paymentMethod.toUpperCase()}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancel-reason">Why are you cancelling?</Label>
+          <Textarea
+            id="cancel-reason"
+            placeholder="e.g. Ordered by mistake, found a better price"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep Order
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={reason.trim().length < 3 || cancelMutation.isPending}
+            onClick={() => cancelMutation.mutate()}
+          >
+            {cancelMutation.isPending ? "Cancelling..." : "Cancel Order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { adminFetch } from "@/lib/api";
+import type { Category, CategoryAttribute, CategoryAttributeType } from "@shared/schema";
+
+interface AttributeDraft {
+  key: string;
+  label: string;
+  type: CategoryAttributeType;
+  unit: string;
+  options: string; // comma separated while editing
+  required: boolean;
+}
+
+const emptyAttribute: AttributeDraft = { key: "", label: "", type: "text", unit: "", options: "", required: false };
+
+// "Net Weight" -> "net_weight"
+const attributeKey = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/(^_|_$)+/g, "");
+
+interface CategoryAttributesDialogProps {
+  category: Category;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CategoryAttributesDialog({ category, open, onOpenChange }: CategoryAttributesDialogProps) {
+  const [attributes, setAttributes] = useState<AttributeDraft[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<CategoryAttribute[]>({
+    queryKey: [`/api/categories/${category.id}/attributes`],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setAttributes(data.map((attribute) => ({
+      key: attribute.key,
+      label: attribute.label,
+      type: attribute.type as CategoryAttributeType,
+      unit: attribute.unit ?? "",
+      options: attribute.options.join(", "),
+      required: attribute.required,
+    })));
+  }, [data]);
+
+  const updateAttribute = (index: number, changes: Partial<AttributeDraft>) => {
+    setAttributes(attributes.map((attribute, i) => (i === index ? { ...attribute, ...changes } : attribute)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await adminFetch(`/api/categories/${category.id}/attributes`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          attributes: attributes.map((attribute) => ({
+            key: attribute.key || attributeKey(attribute.label),
+            label: attribute.label,
+            type: attribute.type,
+            unit: attribute.unit || null,
+            options: attribute.options.split(",").map((option) => option.trim()).filter(Boolean),
+            required: attribute.required,
+          })),
+        }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.details || body.error || "Failed to save attributes");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/categories/${category.id}`),
+      });
+      toast({
+        title: "Success",
+        description: "Category attributes saved",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Attributes for {category.name}</DialogTitle>
+          <DialogDescription>
+            Details sellers fill in for products in this category. Subcategories inherit them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {attributes.map((attribute, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <Input
+                className="col-span-3"
+                placeholder="Label, e.g. Weight"
+                value={attribute.label}
+                onChange={(e) => updateAttribute(index, { label: e.target.value })}
+              />
+              <Select
+                value={attribute.type}
+                onValueChange={(value) => updateAttribute(index, { type: value as CategoryAttributeType })}
+              >
+                <SelectTrigger className="col-span-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="text">Text</SelectItem>
+                  <SelectItem value="number">Number</SelectItem>
+                  <SelectItem value="select">Choice</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                className="col-span-2"
+                placeholder="Unit"
+                value={attribute.unit}
+                onChange={(e) => updateAttribute(index, { unit: e.target.value })}
+              />
+              <Input
+                className="col-span-3"
+                placeholder="Choices, comma separated"
+                disabled={attribute.type !== "select"}
+                value={attribute.options}
+                onChange={(e) => updateAttribute(index, { options: e.target.value })}
+              />
+              <div className="col-span-1 flex justify-center" title="Required">
+                <Switch
+                  checked={attribute.required}
+                  onCheckedChange={(checked) => updateAttribute(index, { required: checked })}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="col-span-1"
+                onClick={() => setAttributes(attributes.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setAttributes([...attributes, emptyAttribute])}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Attribute
+          </Button>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending ? "Saving..." : "Save Attributes"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { GripVertical, Edit, Trash2, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { buildCategoryTree, flattenCategoryTree } from "@/lib/categories";
+import type { Category, ReorderCategoriesInput } from "@shared/schema";
+
+type DropPosition = "before" | "after" | "inside";
+
+type CategoryMoves = ReorderCategoriesInput["categories"];
+
+const byPosition = (a: Category, b: Category) => a.position - b.position || a.name.localeCompare(b.name);
+
+// New parent and sibling positions after dropping one category on another,
+// or null when the drop would put a category inside itself
+function moveCategory(categories: Category[], draggedId: number, targetId: number, position: DropPosition): CategoryMoves | null {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const dragged = byId.get(draggedId);
+  const target = byId.get(targetId);
+  if (!dragged || !target || dragged.id === target.id) {
+    return null;
+  }
+  for (let ancestor: Category | undefined = target; ancestor; ancestor = ancestor.parentId !== null ? byId.get(ancestor.parentId) : undefined) {
+    if (ancestor.id === dragged.id) {
+      return null;
+    }
+  }
+
+  const parentId = position === "inside" ? target.id : target.parentId;
+  const siblings = categories
+    .filter((category) => category.parentId === parentId && category.id !== dragged.id)
+    .sort(byPosition);
+  const index = position === "inside"
+    ? siblings.length
+    : siblings.findIndex((category) => category.id === target.id) + (position === "after" ? 1 : 0);
+  siblings.splice(index, 0, dragged);
+
+  const moves: CategoryMoves = siblings.map((category, i) => ({ id: category.id, parentId, position: i }));
+
+  // Close the gap left under the old parent
+  if (dragged.parentId !== parentId) {
+    categories
+      .filter((category) => category.parentId === dragged.parentId && category.id !== dragged.id)
+      .sort(byPosition)
+      .forEach((category, i) => moves.push({ id: category.id, parentId: dragged.parentId, position: i }));
+  }
+  return moves;
+}
+
+interface CategoryTreeEditorProps {
+  categories: Category[];
+  onMove: (moves: CategoryMoves) => void;
+  onEdit: (category: Category) => void;
+  onDelete: (category: Category) => void;
+  onEditAttributes: (category: Category) => void;
+}
+
+// Drag a category onto the top or bottom edge of another to place it before
+// or after it, or onto its middle to make it a subcategory
+export default function CategoryTreeEditor({ categories, onMove, onEdit, onDelete, onEditAttributes }: CategoryTreeEditorProps) {
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: number; position: DropPosition } | null>(null);
+
+  const dropPosition = (e: React.DragEvent<HTMLElement>): DropPosition => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    return offset < 0.25 ? "before" : offset > 0.75 ? "after" : "inside";
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLElement>, targetId: number) => {
+    e.preventDefault();
+    if (draggedId !== null) {
+      const moves = moveCategory(categories, draggedId, targetId, dropPosition(e));
+      if (moves) {
+        onMove(moves);
+      }
+    }
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const rows = flattenCategoryTree(buildCategoryTree(categories));
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No categories yet</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {rows.map(({ category, depth }) => {
+        const highlight = dropTarget?.id === category.id ? dropTarget.position : null;
+        return (
+          <div
+            key={category.id}
+            draggable
+            onDragStart={() => setDraggedId(category.id)}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropTarget(null);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget({ id: category.id, position: dropPosition(e) });
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => handleDrop(e, category.id)}
+            style={{ marginLeft: depth * 24 }}
+            className={`flex items-center gap-3 border rounded-md p-2 bg-card
+              ${draggedId === category.id ? "opacity-50" : ""}
+              ${highlight === "before" ? "border-t-2 border-t-primary" : ""}
+              ${highlight === "after" ? "border-b-2 border-b-primary" : ""}
+              ${highlight === "inside" ? "bg-primary/10" : ""}`}
+          >
+            <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+            {category.image && <img src={category.image} alt="" className="w-8 h-8 rounded object-cover" />}
+            <div className="flex-1">
+              <p className="font-medium text-sm">{category.name}</p>
+              <p className="text-xs text-muted-foreground">{category.slug}</p>
+            </div>
+            <Button variant="ghost" size="sm" title="Attributes" onClick={() => onEditAttributes(category)}>
+              <SlidersHorizontal className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onEdit(category)}>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onDelete(category)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { PackagePlus, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { variantLabel } from "@/hooks/useCart";
+import { apiPost, apiPut } from "@/lib/api";
+import type { InventoryMovement, InventoryMovementType, ProductVariant } from "@shared/schema";
+
+// GET /api/stores/:id/inventory
+type InventoryItem = ProductVariant & { productName: string; lowStockThreshold: number };
+
+// GET /api/stores/:id/inventory/movements
+type MovementEntry = InventoryMovement & { productName: string; sku: string };
+
+const movementLabels: Record<InventoryMovementType, string> = {
+  sale: "Sale",
+  restock: "Restock",
+  adjustment: "Adjustment",
+  return: "Return",
+  cancellation: "Cancelled order",
+};
+
+function StockBadge({ item }: { item: InventoryItem }) {
+  if (item.stock === 0) {
+    return <Badge variant="destructive">Out of stock</Badge>;
+  }
+  if (item.stock <= item.lowStockThreshold) {
+    return <Badge className="bg-orange-500 hover:bg-orange-500">Low stock</Badge>;
+  }
+  return null;
+}
+
+// Stock levels per variant, manual restocks and adjustments, low-stock
+// thresholds and the stock ledger
+export default function InventoryManager({ storeId }: { storeId: number }) {
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<InventoryItem | null>(null);
+  const [type, setType] = useState<"restock" | "adjustment">("restock");
+  const [quantity, setQuantity] = useState("");
+  const [note, setNote] = useState("");
+  const [threshold, setThreshold] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const inventoryKey = `/api/stores/${storeId}/inventory`;
+  const { data: inventory = [] } = useQuery<InventoryItem[]>({ queryKey: [inventoryKey] });
+  const { data: movements = [] } = useQuery<MovementEntry[]>({ queryKey: [`${inventoryKey}/movements`] });
+
+  useEffect(() => {
+    if (!selected) return;
+    setType("restock");
+    setQuantity("");
+    setNote("");
+    setThreshold(String(selected.lowStockThreshold));
+  }, [selected]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith(inventoryKey) });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/products") });
+  };
+
+  const showError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const adjustMutation = useMutation({
+    mutationFn: () => apiPost<InventoryMovement>(`${inventoryKey}/adjustments`, {
+      variantId: selected!.id,
+      type,
+      quantity: Number(quantity),
+      note: note.trim() || undefined,
+    }),
+    onSuccess: (movement) => {
+      refresh();
+      toast({ title: `Stock updated to ${movement.stockAfter}` });
+      setSelected(null);
+    },
+    onError: showError,
+  });
+
+  const thresholdMutation = useMutation({
+    mutationFn: () => apiPut(`/api/products/${selected!.productId}`, { lowStockThreshold: Number(threshold) }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Low-stock alert updated" });
+      setSelected(null);
+    },
+    onError: showError,
+  });
+
+  const query = search.trim().toLowerCase();
+  const visible = query
+    ? inventory.filter((item) => item.productName.toLowerCase().includes(query) || item.sku.toLowerCase().includes(query))
+    : inventory;
+  const lowCount = inventory.filter((item) => item.stock <= item.lowStockThreshold).length;
+
+  const quantityValue = Number(quantity);
+  const canAdjust = quantity !== "" && Number.isInteger(quantityValue) && quantityValue !== 0 &&
+    (type === "restock" ? quantityValue > 0 : !!note.trim());
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Stock Levels</CardTitle>
+          {lowCount > 0 && <Badge variant="destructive">{lowCount} low or out of stock</Badge>}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            placeholder="Search by product or SKU"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="max-w-sm"
+          />
+          <div className="max-h-[28rem] overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead className="text-right">Alert at</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <div className="font-medium">{item.productName}</div>
+                      {variantLabel(item) && <div className="text-xs text-muted-foreground">{variantLabel(item)}</div>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{item.sku}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <StockBadge item={item} />
+                        <span className="font-semibold">{item.stock}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">{item.lowStockThreshold}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setSelected(item)}>
+                        <SlidersHorizontal className="h-4 w-4 mr-1" />
+                        Adjust
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {visible.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      No products found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stock Movements</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {movements.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No stock movements yet</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                    <TableHead className="text-right">Stock</TableHead>
+                    <TableHead>Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {movements.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell className="text-xs whitespace-nowrap">{new Date(movement.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <div>{movement.productName}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{movement.sku}</div>
+                      </TableCell>
+                      <TableCell>
+                        {movementLabels[movement.type as InventoryMovementType] ?? movement.type}
+                        {movement.orderId && <span className="text-xs text-muted-foreground"> · Order #{movement.orderId}</span>}
+                      </TableCell>
+                      <TableCell className={`text-right font-medium ${movement.quantity < 0 ? "text-red-600" : "text-green-600"}`}>
+                        {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                      </TableCell>
+                      <TableCell className="text-right">{movement.stockAfter}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{movement.note}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust Stock</DialogTitle>
+            <DialogDescription>
+              {selected?.productName}
+              {selected && variantLabel(selected) ? ` (${variantLabel(selected)})` : ""} · {selected?.stock} in stock
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(value) => setType(value as "restock" | "adjustment")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="restock">Restock</SelectItem>
+                    <SelectItem value="adjustment">Adjustment</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="stock-quantity">Quantity</Label>
+                <Input
+                  id="stock-quantity"
+                  type="number"
+                  step="1"
+                  min={type === "restock" ? 1 : undefined}
+                  placeholder={type === "restock" ? "e.g. 20" : "e.g. -2"}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stock-note">{type === "adjustment" ? "Reason" : "Note (optional)"}</Label>
+              <Input
+                id="stock-note"
+                placeholder={type === "adjustment" ? "e.g. Damaged in storage, stock count" : "e.g. Supplier delivery"}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+              {type === "adjustment" && (
+                <p className="text-xs text-muted-foreground">Use a negative quantity to remove stock.</p>
+              )}
+            </div>
+            {selected && quantity !== "" && Number.isInteger(quantityValue) && (
+              <p className="text-sm">
+                New stock: <span className="font-semibold">{selected.stock + quantityValue}</span>
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button disabled={!canAdjust || adjustMutation.isPending} onClick={() => adjustMutation.mutate()}>
+              <PackagePlus className="h-4 w-4 mr-2" />
+              {adjustMutation.isPending ? "Saving..." : "Save Stock"}
+            </Button>
+          </DialogFooter>
+
+          <div className="border-t pt-4 space-y-2">
+            <Label htmlFor="stock-threshold">Low-stock alert</Label>
+            <p className="text-xs text-muted-foreground">
+              You are notified when any variant of this product falls to this many units.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                id="stock-threshold"
+                type="number"
+                min={0}
+                step="1"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="w-32"
+              />
+              <Button
+                variant="outline"
+                disabled={threshold === "" || Number(threshold) < 0 || thresholdMutation.isPending}
+                onClick={() => thresholdMutation.mutate()}
+              >
+                Save Alert
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
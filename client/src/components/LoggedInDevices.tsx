@@ -0,0 +1,152 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Monitor, Smartphone, LogOut } from "lucide-react";
+import { apiDelete, apiGet } from "@/lib/api";
+
+interface DeviceSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+// Turns a user-agent string into something like "Chrome on Android"
+function describeDevice(userAgent: string | null): { label: string; mobile: boolean } {
+  if (!userAgent) {
+    return { label: "Unknown device", mobile: false };
+  }
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Browser";
+  const os =
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "Unknown OS";
+
+  return { label: `${browser} on ${os}`, mobile: /Mobile|Android|iPhone/.test(userAgent) };
+}
+
+export default function LoggedInDevices() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<DeviceSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    queryFn: () => apiGet<DeviceSession[]>("/api/auth/sessions"),
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: (sessionId: number) => apiDelete(`/api/auth/sessions/${sessionId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Device signed out",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => apiDelete("/api/auth/sessions"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Signed out everywhere else",
+        description: "All other devices have been signed out.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Logged-in Devices</CardTitle>
+            <CardDescription>Devices that are currently signed in to your account</CardDescription>
+          </div>
+          {otherSessions.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={revokeOthersMutation.isPending}
+              onClick={() => revokeOthersMutation.mutate()}
+            >
+              <LogOut className="h-4 w-4 mr-1" />
+              Sign out everywhere else
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+            <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session) => {
+              const device = describeDevice(session.userAgent);
+              const DeviceIcon = device.mobile ? Smartphone : Monitor;
+              return (
+                <div key={session.id} className="flex items-center justify-between border rounded-lg p-4">
+                  <div className="flex items-center space-x-3">
+                    <DeviceIcon className="h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        {device.label}
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {session.ipAddress ?? "Unknown IP"} · Last active {new Date(session.lastSeenAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={revokeSessionMutation.isPending}
+                      onClick={() => revokeSessionMutation.mutate(session.id)}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Bell, Check, CheckCheck, Package, ShoppingCart, AlertTriangle, Info } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { Notification } from "@shared/schema";
+import { authFetch } from "@/lib/api";
 
 interface NotificationCenterProps {
   userId: number;
@@ -20,7 +21,7 @@ export default function NotificationCenter({ userId }: NotificationCenterProps)
   const { data: notifications, isLoading } = useQuery<Notification[]>({
     queryKey: ["/api/notifications/user", userId],
     queryFn: async () => {
-      const response = await fetch(`/api/notifications/user/${userId}`);
+      const response = await authFetch(`/api/notifications/user/${userId}`);
       if (!response.ok) throw new Error("Failed to fetch notifications");
       return response.json();
     },
@@ -29,7 +30,7 @@ export default function NotificationCenter({ userId }: NotificationCenterProps)
   // Mark notification as read
   const markAsReadMutation = useMutation({
     mutationFn: async (notificationId: number) => {
-      const response = await fetch(`/api/notifications/${notificationId}/read`, {
+      const response = await authFetch(`/api/notifications/${notificationId}/read`, {
         method: "PUT",
       });
       if (!response.ok) throw new Error("Failed to mark notification as read");
@@ -43,7 +44,7 @@ export default function NotificationCenter({ userId }: NotificationCenterProps)
   // Mark all notifications as read
   const markAllAsReadMutation = useMutation({
     mutationFn: async () => {
-      const response = await fetch(`/api/notifications/user/${userId}/read-all`, {
+      const response = await authFetch(`/api/notifications/user/${userId}/read-all`, {
         method: "PUT",
       });
       if (!response.ok) throw new Error("Failed to mark all notifications as read");
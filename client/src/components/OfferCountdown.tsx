@@ -0,0 +1,38 @@
+import { useState, useEffect } from "react";
+import { Clock } from "lucide-react";
+
+// "2d 04:10:05" style time left, or null once it has passed
+function timeLeft(endsAt: Date, now: number): string | null {
+  const seconds = Math.floor((endsAt.getTime() - now) / 1000);
+  if (seconds <= 0) {
+    return null;
+  }
+  const days = Math.floor(seconds / 86400);
+  const clock = [Math.floor(seconds / 3600) % 24, Math.floor(seconds / 60) % 60, seconds % 60]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+interface OfferCountdownProps {
+  endsAt: Date | string;
+  className?: string;
+}
+
+export default function OfferCountdown({ endsAt, className = "" }: OfferCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = timeLeft(new Date(endsAt), now);
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs font-medium text-red-600 ${className}`}>
+      <Clock className="h-3 w-3" />
+      {remaining ? `Ends in ${remaining}` : "Offer ended"}
+    </span>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Truck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiPut } from "@/lib/api";
+import type { CancellationWindow, Store, StoreSettings } from "@shared/schema";
+
+// The delivery fee charged on every order from this store, and how long
+// customers may cancel. Orders spanning several stores pay each store's fee
+// on that store's part
+export default function OrderSettings({ store }: { store: Store }) {
+  const [deliveryFee, setDeliveryFee] = useState(store.deliveryFee);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setDeliveryFee(store.deliveryFee);
+  }, [store.deliveryFee]);
+
+  const saveMutation = useMutation({
+    mutationFn: (settings: StoreSettings) => apiPut<Store>(`/api/stores/${store.id}/settings`, settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stores"] });
+      toast({ title: "Order settings updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const value = Number(deliveryFee);
+  const canSave = deliveryFee !== "" && Number.isFinite(value) && value >= 0 && value !== Number(store.deliveryFee);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="h-5 w-5" />
+          Order Settings
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="delivery-fee">Delivery fee per order (₹)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="delivery-fee"
+              type="number"
+              min={0}
+              step="0.01"
+              value={deliveryFee}
+              onChange={(e) => setDeliveryFee(e.target.value)}
+              className="w-40"
+            />
+            <Button disabled={!canSave || saveMutation.isPending} onClick={() => saveMutation.mutate({ deliveryFee })}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">Set to 0 for free delivery.</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Customers can cancel</Label>
+          <Select
+            value={store.cancellationWindow}
+            onValueChange={(window) => saveMutation.mutate({ cancellationWindow: window as CancellationWindow })}
+            disabled={saveMutation.isPending}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Until you confirm the order</SelectItem>
+              <SelectItem value="confirmed">Until you pack the order</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
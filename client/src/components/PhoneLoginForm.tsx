@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiPost } from "@/lib/api";
+
+interface PhoneLoginFormProps {
+  onSuccess: (isNewUser: boolean) => void;
+}
+
+export default function PhoneLoginForm({ onSuccess }: PhoneLoginFormProps) {
+  const [phone, setPhone] = useState("");
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const { loginWithPhone } = useAuth();
+  const { toast } = useToast();
+
+  const requestCode = async () => {
+    setIsLoading(true);
+    try {
+      const result = await apiPost<{ phone: string }>("/api/auth/phone/request-code", { phone });
+      setCodeSentTo(result.phone);
+      setCode("");
+      toast({
+        title: "Code sent",
+        description: `We've sent a login code to ${result.phone}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't send code",
+        description: error instanceof Error ? error.message : "Please try again later",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyCode = async () => {
+    if (!codeSentTo) return;
+    setIsLoading(true);
+    try {
+      const { isNewUser } = await loginWithPhone(codeSentTo, code, fullName || undefined);
+      onSuccess(isNewUser);
+    } catch (error) {
+      toast({
+        title: "Login failed",
+        description: error instanceof Error ? error.message : "Invalid or expired code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!codeSentTo) {
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="phone">Mobile Number</Label>
+          <Input
+            id="phone"
+            type="tel"
+            placeholder="98XXXXXXXX"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+          />
+        </div>
+        <Button
+          type="button"
+          className="w-full btn-primary"
+          disabled={!phone || isLoading}
+          onClick={requestCode}
+        >
+          {isLoading ? "Sending..." : "Send Login Code"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Enter the code sent to {codeSentTo}</Label>
+        <InputOTP maxLength={6} value={code} onChange={setCode}>
+          <InputOTPGroup>
+            {Array.from({ length: 6 }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="phoneFullName">Your Name (new customers)</Label>
+        <Input
+          id="phoneFullName"
+          placeholder="Enter your full name"
+          value={fullName}
+          onChange={(e) => setFullName(e.target.value)}
+        />
+      </div>
+      <Button
+        type="button"
+        className="w-full btn-primary"
+        disabled={code.length !== 6 || isLoading}
+        onClick={verifyCode}
+      >
+        {isLoading ? "Signing in..." : "Sign In"}
+      </Button>
+      <div className="flex justify-between">
+        <Button type="button" variant="ghost" disabled={isLoading} onClick={requestCode}>
+          Resend code
+        </Button>
+        <Button type="button" variant="ghost" onClick={() => setCodeSentTo(null)}>
+          Change number
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,9 @@ import { useWishlist } from "@/hooks/useWishlist";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import type { Product } from "@shared/schema";
+import { imageUrl } from "@shared/images";
+import { flashSaleRemaining, isFlashSale, isOfferActive, offerPrice } from "@shared/offers";
+import OfferCountdown from "@/components/OfferCountdown";
 
 interface ProductCardProps {
   product: Product;
@@ -52,22 +55,27 @@ export default function ProductCard({ product }: ProductCardProps) {
     });
   };
 
-  const discount = product.originalPrice 
-    ? Math.round(((Number(product.originalPrice) - Number(product.price)) / Number(product.originalPrice)) * 100)
+  // A running offer is struck through against the regular price
+  const onOffer = isOfferActive(product);
+  const price = offerPrice(product.price, product);
+  const compareAtPrice = onOffer ? Number(product.price) : product.originalPrice ? Number(product.originalPrice) : null;
+  const discount = compareAtPrice
+    ? Math.round(((compareAtPrice - price) / compareAtPrice) * 100)
     : 0;
+  const flashSaleLeft = onOffer && isFlashSale(product) ? flashSaleRemaining(product) : null;
 
   return (
     <Link href={`/products/${product.id}`}>
       <div className="product-card overflow-hidden">
         <div className="relative">
           <img
-            src={product.images?.[0] || "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=300"}
+            src={product.images?.[0] ? imageUrl(product.images[0], "medium") : "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&h=300"}
             alt={product.name}
             className="w-full h-32 md:h-48 object-cover"
           />
           {discount > 0 && (
             <Badge className="absolute top-2 left-2 bg-red-500 text-white">
-              {discount}% OFF
+              {onOffer && isFlashSale(product) ? "⚡ " : ""}{discount}% OFF
             </Badge>
           )}
           
@@ -118,14 +126,23 @@ export default function ProductCard({ product }: ProductCardProps) {
           
           <div className="flex items-center space-x-1 md:space-x-2 mb-2 md:mb-3">
             <span className="text-sm md:text-lg font-bold text-foreground">
-              ₹{Number(product.price).toLocaleString()}
+              ₹{price.toLocaleString()}
             </span>
-            {product.originalPrice && (
+            {compareAtPrice !== null && compareAtPrice > price && (
               <span className="text-xs md:text-sm text-muted-foreground line-through">
-                ₹{Number(product.originalPrice).toLocaleString()}
+                ₹{compareAtPrice.toLocaleString()}
               </span>
             )}
           </div>
+
+          {onOffer && (product.offerEndsAt || flashSaleLeft !== null) && (
+            <div className="flex flex-wrap items-center gap-x-2 mb-2">
+              {product.offerEndsAt && <OfferCountdown endsAt={product.offerEndsAt} />}
+              {flashSaleLeft !== null && (
+                <span className="text-xs text-muted-foreground">{flashSaleLeft} left</span>
+              )}
+            </div>
+          )}
           
           <Tooltip>
             <TooltipTrigger asChild>
@@ -0,0 +1,142 @@
+import { useState, useRef } from "react";
+import { GripVertical, Plus, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { uploadImages } from "@/lib/api";
+import { imageUrl } from "@shared/images";
+
+interface ProductImagesEditorProps {
+  images: string[];
+  onChange: (images: string[]) => void;
+}
+
+// Uploads product photos and orders them; drag a photo onto another to move
+// it there. The first photo is the one listings show
+export default function ProductImagesEditor({ images, onChange }: ProductImagesEditorProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [urlDraft, setUrlDraft] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      const uploaded = await uploadImages(Array.from(files));
+      onChange([...images, ...uploaded.map((image) => image.large)]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload images",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const moveImage = (from: number, to: number) => {
+    const reordered = [...images];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    onChange(reordered);
+  };
+
+  const addUrl = () => {
+    const url = urlDraft.trim();
+    if (!url) return;
+    onChange([...images, url]);
+    setUrlDraft("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        disabled={isUploading}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload className="h-4 w-4 mr-2" />
+        {isUploading ? "Uploading..." : "Upload Images"}
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <p className="text-xs text-muted-foreground">JPEG, PNG or WebP, up to 5MB each. Drag to reorder.</p>
+
+      {images.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {images.map((image, index) => (
+            <div
+              key={`${image}-${index}`}
+              draggable
+              onDragStart={() => setDraggedIndex(index)}
+              onDragEnd={() => setDraggedIndex(null)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (draggedIndex !== null && draggedIndex !== index) {
+                  moveImage(draggedIndex, index);
+                }
+                setDraggedIndex(null);
+              }}
+              className={`relative border rounded-lg cursor-grab ${draggedIndex === index ? "opacity-50" : ""}`}
+            >
+              <img
+                src={imageUrl(image, "thumbnail")}
+                alt={`Product ${index + 1}`}
+                className="w-full h-32 object-cover rounded-lg"
+              />
+              <GripVertical className="absolute top-2 left-2 h-4 w-4 text-white drop-shadow" />
+              {index === 0 && (
+                <Badge className="absolute bottom-2 left-2 text-xs">Cover</Badge>
+              )}
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                className="absolute top-2 right-2 h-7 w-7"
+                onClick={() => onChange(images.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          type="url"
+          placeholder="Or paste an image URL"
+          value={urlDraft}
+          onChange={(e) => setUrlDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addUrl();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" onClick={addUrl}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState, useRef } from "react";
+import { Download, FileUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+
+interface ImportRowResult {
+  rowNumber: number;
+  sku: string;
+  name: string;
+  action: "create" | "update" | "error";
+  errors: string[];
+}
+
+// POST /api/stores/:id/products/import
+interface ImportSummary {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+const actionBadges: Record<ImportRowResult["action"], { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  create: { label: "New", variant: "default" },
+  update: { label: "Update", variant: "secondary" },
+  error: { label: "Error", variant: "destructive" },
+};
+
+// Spreadsheet import with a dry-run preview, and catalog export in the same format
+export default function ProductImportExport({ storeId }: { storeId: number }) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportSummary | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const sendImport = async (selected: File, dryRun: boolean): Promise<ImportSummary> => {
+    const body = new FormData();
+    body.append("file", selected);
+    const response = await authFetch(`/api/stores/${storeId}/products/import?dryRun=${dryRun}`, { method: "POST", body });
+    const result = await response.json().catch(() => ({ error: "Unknown error" }));
+    if (!response.ok) {
+      if (result.rows) {
+        setPreview(result);
+      }
+      throw new Error(result.error || `HTTP ${response.status}`);
+    }
+    return result;
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    setPreview(null);
+    setIsWorking(true);
+    try {
+      setPreview(await sendImport(selected, true));
+    } catch (error) {
+      showError(error, "Failed to read the file");
+    } finally {
+      setIsWorking(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsWorking(true);
+    try {
+      const result = await sendImport(file, false);
+      toast({ title: `Imported ${result.created} new and ${result.updated} updated products` });
+      setFile(null);
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: [`/api/products/store/${storeId}`] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/products") });
+    } catch (error) {
+      showError(error, "Failed to import products");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async (format: "csv" | "xlsx") => {
+    try {
+      const response = await authFetch(`/api/stores/${storeId}/products/export?format=${format}`);
+      if (!response.ok) throw new Error("Failed to export products");
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `products.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      showError(error, "Failed to export products");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import &amp; Export</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => handleExport("csv")}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport("xlsx")}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Excel
+          </Button>
+          <Button disabled={isWorking} onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {isWorking && !preview ? "Checking..." : "Import File"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Use an export as a template. Rows are matched by SKU: known SKUs update that product, new ones create
+          a product. Blank cells keep the current value. Separate image URLs with "|" and attributes
+          with ";" (e.g. weight=1; brand=Acme).
+        </p>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <span className="font-medium">{file?.name}</span>
+              <span>{preview.created} new</span>
+              <span>{preview.updated} updates</span>
+              <span className={preview.failed > 0 ? "text-destructive" : ""}>{preview.failed} with errors</span>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell className="font-mono text-xs">{row.sku}</TableCell>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell>
+                        <Badge variant={actionBadges[row.action].variant}>{actionBadges[row.action].label}</Badge>
+                        {row.errors.length > 0 && (
+                          <ul className="mt-1 text-xs text-destructive list-disc pl-4">
+                            {row.errors.map((error) => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => { setFile(null); setPreview(null); }}>
+                Cancel
+              </Button>
+              <Button disabled={isWorking || preview.failed > 0 || preview.total === 0} onClick={handleImport}>
+                {isWorking ? "Importing..." : `Import ${preview.created + preview.updated} Products`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,495 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient, type Query } from "@tanstack/react-query";
+import { Star, ThumbsUp, Flag, Store as StoreIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiDelete, apiGet, apiPost, apiPut } from "@/lib/api";
+import type { Review, ReviewReasonCode } from "@shared/schema";
+
+export interface ReviewWithAuthor extends Omit<Review, "createdAt" | "updatedAt" | "sellerRepliedAt"> {
+  customerName: string;
+  votedByMe: boolean;
+  createdAt: string;
+  updatedAt: string;
+  sellerRepliedAt: string | null;
+}
+
+interface ReviewEligibility {
+  canReview: boolean;
+  reason?: "already_reviewed" | "not_purchased";
+  reviewId?: number;
+}
+
+type ReviewSort = "recent" | "helpful" | "highest" | "lowest";
+
+const MAX_REVIEW_PHOTOS = 5;
+
+const reportReasonLabels: Record<ReviewReasonCode, string> = {
+  spam: "Spam or advertising",
+  offensive: "Offensive or abusive",
+  fake: "Fake or misleading",
+  off_topic: "Not about the product",
+  personal_info: "Contains personal information",
+  other: "Something else",
+};
+
+// Review lists, product pages and store pages all show data derived from reviews
+const isReviewRelatedQuery = (query: Query) => {
+  const key = query.queryKey[0];
+  return typeof key === "string" && (key.includes("/reviews") || key.startsWith("/api/products/") || key.startsWith("/api/stores/"));
+};
+
+function StarRating({ value, onChange, size = "h-4 w-4" }: {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: string;
+}) {
+  return (
+    <div className="flex text-yellow-400">
+      {Array.from({ length: 5 }).map((_, i) => (
+        <Star
+          key={i}
+          className={`${size} ${i < value ? "fill-current" : ""} ${onChange ? "cursor-pointer" : ""}`}
+          onClick={() => onChange?.(i + 1)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ReviewForm({ productId, onSubmitted }: { productId: number; onSubmitted: () => void }) {
+  const [rating, setRating] = useState(0);
+  const [title, setTitle] = useState("");
+  const [comment, setComment] = useState("");
+  const [photoUrl, setPhotoUrl] = useState("");
+  const [images, setImages] = useState<string[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const createReviewMutation = useMutation({
+    mutationFn: () => apiPost<Review>(`/api/products/${productId}/reviews`, {
+      rating,
+      title: title || undefined,
+      comment: comment || undefined,
+      images,
+    }),
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({ predicate: isReviewRelatedQuery });
+      toast({
+        title: review.status === "held" ? "Review submitted" : "Review posted",
+        description: review.status === "held"
+          ? "Your review will appear once a moderator has checked it."
+          : "Thanks for sharing your experience!",
+      });
+      onSubmitted();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addPhoto = () => {
+    const url = photoUrl.trim();
+    if (!url || images.length >= MAX_REVIEW_PHOTOS) return;
+    setImages([...images, url]);
+    setPhotoUrl("");
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="space-y-2">
+        <Label>Your rating</Label>
+        <StarRating value={rating} onChange={setRating} size="h-6 w-6" />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="reviewTitle">Title</Label>
+        <Input
+          id="reviewTitle"
+          maxLength={120}
+          placeholder="Summarise your experience"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="reviewComment">Review</Label>
+        <Textarea
+          id="reviewComment"
+          maxLength={2000}
+          placeholder="What did you like or dislike?"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="reviewPhoto">Photos ({images.length}/{MAX_REVIEW_PHOTOS})</Label>
+        <div className="flex gap-2">
+          <Input
+            id="reviewPhoto"
+            type="url"
+            placeholder="https://example.com/photo.jpg"
+            value={photoUrl}
+            onChange={(e) => setPhotoUrl(e.target.value)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!photoUrl || images.length >= MAX_REVIEW_PHOTOS}
+            onClick={addPhoto}
+          >
+            Add
+          </Button>
+        </div>
+        {images.length > 0 && (
+          <div className="flex gap-2 flex-wrap">
+            {images.map((image, index) => (
+              <div key={index} className="relative">
+                <img src={image} alt={`Review photo ${index + 1}`} className="w-16 h-16 object-cover rounded" />
+                <button
+                  type="button"
+                  className="absolute -top-2 -right-2 bg-background border rounded-full p-0.5"
+                  onClick={() => setImages(images.filter((_, i) => i !== index))}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <Button
+        className="btn-primary"
+        disabled={rating === 0 || createReviewMutation.isPending}
+        onClick={() => createReviewMutation.mutate()}
+      >
+        {createReviewMutation.isPending ? "Posting..." : "Post Review"}
+      </Button>
+    </div>
+  );
+}
+
+interface ReviewItemProps {
+  review: ReviewWithAuthor;
+  canReply: boolean;
+  productName?: string;
+}
+
+function ReportReviewDialog({ reviewId, open, onOpenChange }: {
+  reviewId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [reason, setReason] = useState<ReviewReasonCode | "">("");
+  const [details, setDetails] = useState("");
+  const { toast } = useToast();
+
+  const reportMutation = useMutation({
+    mutationFn: () => apiPost(`/api/reviews/${reviewId}/report`, {
+      reason,
+      details: details || undefined,
+    }),
+    onSuccess: () => {
+      onOpenChange(false);
+      setReason("");
+      setDetails("");
+      toast({
+        title: "Review reported",
+        description: "Thanks, our moderators will take a look.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report review</DialogTitle>
+          <DialogDescription>Tell us what's wrong with this review.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Select value={reason} onValueChange={(value) => setReason(value as ReviewReasonCode)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a reason" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(reportReasonLabels).map(([code, label]) => (
+                <SelectItem key={code} value={code}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            maxLength={500}
+            placeholder="Anything else we should know? (optional)"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason || reportMutation.isPending}
+              onClick={() => reportMutation.mutate()}
+            >
+              Report
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ReviewItem({ review, canReply, productName }: ReviewItemProps) {
+  const [replying, setReplying] = useState(false);
+  const [reporting, setReporting] = useState(false);
+  const [reply, setReply] = useState(review.sellerReply ?? "");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const voteMutation = useMutation({
+    mutationFn: () => review.votedByMe
+      ? apiDelete(`/api/reviews/${review.id}/helpful`)
+      : apiPost(`/api/reviews/${review.id}/helpful`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: isReviewRelatedQuery });
+    },
+    onError,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: () => apiPut(`/api/reviews/${review.id}/reply`, { reply }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: isReviewRelatedQuery });
+      setReplying(false);
+      toast({
+        title: "Reply posted",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiDelete(`/api/reviews/${review.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: isReviewRelatedQuery });
+      toast({
+        title: "Review deleted",
+      });
+    },
+    onError,
+  });
+
+  const isAuthor = user?.id === review.customerId;
+
+  return (
+    <div className="py-4">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <StarRating value={review.rating} />
+          {review.title && <span className="font-semibold">{review.title}</span>}
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {new Date(review.createdAt).toLocaleDateString()}
+        </span>
+      </div>
+      <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+        <span>{review.customerName}</span>
+        <Badge variant="secondary">Verified Purchase</Badge>
+        {review.status === "held" && <Badge variant="outline">Awaiting moderation</Badge>}
+        {review.status === "hidden" && <Badge variant="destructive">Hidden by a moderator</Badge>}
+        {productName && (
+          <Link href={`/products/${review.productId}`} className="hover:underline">
+            · {productName}
+          </Link>
+        )}
+      </div>
+      {review.comment && <p className="text-foreground mb-2 whitespace-pre-line">{review.comment}</p>}
+      {review.images && review.images.length > 0 && (
+        <div className="flex gap-2 mb-2">
+          {review.images.map((image, index) => (
+            <a key={index} href={image} target="_blank" rel="noreferrer">
+              <img src={image} alt={`Review photo ${index + 1}`} className="w-20 h-20 object-cover rounded" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {review.sellerReply && !replying && (
+        <div className="bg-muted rounded p-3 mt-2 text-sm">
+          <p className="font-medium flex items-center gap-1 mb-1">
+            <StoreIcon className="h-3 w-3" />
+            Seller response
+          </p>
+          <p className="text-muted-foreground whitespace-pre-line">{review.sellerReply}</p>
+        </div>
+      )}
+
+      {replying && (
+        <div className="mt-2 space-y-2">
+          <Textarea
+            maxLength={1000}
+            placeholder="Reply to this review"
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" disabled={!reply.trim() || replyMutation.isPending} onClick={() => replyMutation.mutate()}>
+              Post Reply
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setReplying(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mt-2">
+        {user && !isAuthor && (
+          <Button
+            variant={review.votedByMe ? "secondary" : "ghost"}
+            size="sm"
+            disabled={voteMutation.isPending}
+            onClick={() => voteMutation.mutate()}
+          >
+            <ThumbsUp className="h-3 w-3 mr-1" />
+            Helpful ({review.helpfulCount})
+          </Button>
+        )}
+        {(!user || isAuthor) && review.helpfulCount > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {review.helpfulCount} {review.helpfulCount === 1 ? "person" : "people"} found this helpful
+          </span>
+        )}
+        {canReply && !replying && (
+          <Button variant="ghost" size="sm" onClick={() => setReplying(true)}>
+            {review.sellerReply ? "Edit Reply" : "Reply"}
+          </Button>
+        )}
+        {user && !isAuthor && (
+          <Button variant="ghost" size="sm" onClick={() => setReporting(true)}>
+            <Flag className="h-3 w-3 mr-1" />
+            Report
+          </Button>
+        )}
+        {isAuthor && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive"
+            disabled={deleteMutation.isPending}
+            onClick={() => deleteMutation.mutate()}
+          >
+            Delete
+          </Button>
+        )}
+      </div>
+
+      <ReportReviewDialog reviewId={review.id} open={reporting} onOpenChange={setReporting} />
+    </div>
+  );
+}
+
+interface ProductReviewsProps {
+  productId: number;
+  storeOwnerId?: number;
+}
+
+export default function ProductReviews({ productId, storeOwnerId }: ProductReviewsProps) {
+  const [sort, setSort] = useState<ReviewSort>("recent");
+  const [showForm, setShowForm] = useState(false);
+  const { user } = useAuth();
+
+  const { data: reviews = [], isLoading } = useQuery<ReviewWithAuthor[]>({
+    queryKey: [`/api/products/${productId}/reviews?sort=${sort}`],
+  });
+
+  const { data: eligibility } = useQuery<ReviewEligibility>({
+    queryKey: [`/api/products/${productId}/reviews/eligibility`],
+    queryFn: () => apiGet<ReviewEligibility>(`/api/products/${productId}/reviews/eligibility`),
+    enabled: !!user,
+  });
+
+  const canReply = !!user && user.id === storeOwnerId;
+
+  return (
+    <div className="mt-12">
+      <Separator className="mb-8" />
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-foreground">Customer Reviews</h2>
+        <div className="flex items-center gap-2">
+          <Select value={sort} onValueChange={(value) => setSort(value as ReviewSort)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="recent">Most recent</SelectItem>
+              <SelectItem value="helpful">Most helpful</SelectItem>
+              <SelectItem value="highest">Highest rated</SelectItem>
+              <SelectItem value="lowest">Lowest rated</SelectItem>
+            </SelectContent>
+          </Select>
+          {eligibility?.canReview && !showForm && (
+            <Button className="btn-primary" onClick={() => setShowForm(true)}>
+              Write a Review
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {showForm && eligibility?.canReview && (
+        <div className="mb-6">
+          <ReviewForm productId={productId} onSubmitted={() => setShowForm(false)} />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8">Loading reviews...</div>
+      ) : reviews.length === 0 ? (
+        <p className="text-muted-foreground">
+          No reviews yet. {eligibility?.canReview ? "Be the first to review this product." : "Reviews can be written once an order is delivered."}
+        </p>
+      ) : (
+        <div className="divide-y">
+          {reviews.map((review) => (
+            <ReviewItem key={review.id} review={review} canReply={canReply} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { variantLabel } from "@/hooks/useCart";
+import { apiPut } from "@/lib/api";
+import type { Product, ProductOption, ProductVariant } from "@shared/schema";
+
+interface ProductVariants {
+  options: ProductOption[];
+  variants: ProductVariant[];
+}
+
+interface OptionDraft {
+  name: string;
+  values: string; // comma separated while editing
+}
+
+interface VariantDraft {
+  id?: number;
+  sku: string;
+  optionValues: Record<string, string>;
+  price: string;
+  originalPrice: string;
+  stock: number;
+  images: string; // comma separated while editing
+}
+
+const MAX_OPTIONS = 3;
+
+const splitList = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+
+function toVariantDraft(variant: ProductVariant): VariantDraft {
+  return {
+    id: variant.id,
+    sku: variant.sku,
+    optionValues: variant.optionValues,
+    price: variant.price,
+    originalPrice: variant.originalPrice ?? "",
+    stock: variant.stock,
+    images: (variant.images ?? []).join(", "),
+  };
+}
+
+// Every combination of option values, e.g. S/Red, S/Blue, M/Red, ...
+function combinations(options: { name: string; values: string[] }[]): Record<string, string>[] {
+  return options.reduce<Record<string, string>[]>(
+    (combos, option) => combos.flatMap((combo) => option.values.map((value) => ({ ...combo, [option.name]: value }))),
+    [{}],
+  );
+}
+
+interface ProductVariantsEditorProps {
+  product: Product;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ProductVariantsEditor({ product, open, onOpenChange }: ProductVariantsEditorProps) {
+  const [options, setOptions] = useState<OptionDraft[]>([]);
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<ProductVariants>({
+    queryKey: [`/api/products/${product.id}/variants`],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setOptions(data.options.map((option) => ({ name: option.name, values: option.values.join(", ") })));
+    setVariants(data.variants.map(toVariantDraft));
+  }, [data]);
+
+  const parsedOptions = options
+    .map((option) => ({ name: option.name.trim(), values: splitList(option.values) }))
+    .filter((option) => option.name && option.values.length > 0);
+
+  // Rebuilds the variant rows from the options, keeping rows that still match
+  const generateVariants = () => {
+    const baseSku = variants[0]?.sku.split("-")[0] || `P${product.id}`;
+    setVariants(combinations(parsedOptions).map((optionValues) => {
+      const existing = variants.find((variant) =>
+        parsedOptions.every((option) => variant.optionValues[option.name] === optionValues[option.name])
+      );
+      if (existing) {
+        return { ...existing, optionValues };
+      }
+      const suffix = Object.values(optionValues).join("-").toUpperCase().replace(/[^A-Z0-9-]/g, "");
+      return {
+        sku: suffix ? `${baseSku}-${suffix}` : baseSku,
+        optionValues,
+        price: product.price,
+        originalPrice: product.originalPrice ?? "",
+        stock: 0,
+        images: "",
+      };
+    }));
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    setVariants(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiPut<ProductVariants>(`/api/products/${product.id}/variants`, {
+      options: parsedOptions,
+      variants: variants.map((variant) => ({
+        id: variant.id,
+        sku: variant.sku.trim(),
+        optionValues: variant.optionValues,
+        price: variant.price,
+        originalPrice: variant.originalPrice || null,
+        stock: variant.stock,
+        images: splitList(variant.images),
+      })),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/products"),
+      });
+      toast({
+        title: "Variants saved",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Variants for {product.name}</DialogTitle>
+          <DialogDescription>
+            Add options such as size or color, then set a price and stock for each combination.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Label>Options</Label>
+          {options.map((option, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                className="w-40"
+                placeholder="Size"
+                value={option.name}
+                onChange={(e) => setOptions(options.map((o, i) => (i === index ? { ...o, name: e.target.value } : o)))}
+              />
+              <Input
+                placeholder="S, M, L, XL"
+                value={option.values}
+                onChange={(e) => setOptions(options.map((o, i) => (i === index ? { ...o, values: e.target.value } : o)))}
+              />
+              <Button variant="ghost" size="icon" onClick={() => setOptions(options.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={options.length >= MAX_OPTIONS}
+              onClick={() => setOptions([...options, { name: "", values: "" }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Option
+            </Button>
+            <Button variant="outline" size="sm" onClick={generateVariants}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Generate Variants
+            </Button>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variant</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>Original Price</TableHead>
+              <TableHead>Stock</TableHead>
+              <TableHead>Image URLs</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {variants.map((variant, index) => (
+              <TableRow key={variant.id ?? `new-${index}`}>
+                <TableCell className="whitespace-nowrap">{variantLabel(variant) || "Default"}</TableCell>
+                <TableCell>
+                  <Input value={variant.sku} onChange={(e) => updateVariant(index, { sku: e.target.value })} />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={variant.price}
+                    onChange={(e) => updateVariant(index, { price: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    value={variant.originalPrice}
+                    onChange={(e) => updateVariant(index, { originalPrice: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={variant.stock}
+                    onChange={(e) => updateVariant(index, { stock: parseInt(e.target.value) || 0 })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    placeholder="https://..."
+                    value={variant.images}
+                    onChange={(e) => updateVariant(index, { images: e.target.value })}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={variants.length === 0 || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Variants"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,24 +1,36 @@
-import { Navigate, useLocation } from 'react-router-dom';
-import { useAuth, hasAdminAccess } from '@/hooks/use-auth';
+import { Redirect } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { adminQueryFn, getAdminToken } from "@/lib/api";
+import type { AdminUser } from "@/types/admin";
 
 interface ProtectedAdminRouteProps {
     children: React.ReactNode;
 }
 
+// Renders children only once the server confirms the stored admin session
 export function ProtectedAdminRoute({ children }: ProtectedAdminRouteProps) {
-    const location = useLocation();
-    const { isAuthenticated } = useAuth();
-    const isAdmin = hasAdminAccess();
+    const hasToken = !!getAdminToken();
+    const { data: admin, isLoading } = useQuery<AdminUser>({
+        queryKey: ["/api/admin/verify"],
+        queryFn: adminQueryFn,
+        enabled: hasToken,
+    });
 
-    if (!isAuthenticated) {
-        // Redirect to login page if not authenticated
-        return <Navigate to="/login" state={{ from: location }} replace />;
+    if (!hasToken) {
+        return <Redirect to="/admin/login" />;
     }
 
-    if (!isAdmin) {
-        // Redirect to home page if not an admin
-        return <Navigate to="/" replace />;
+    if (isLoading) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+            </div>
+        );
+    }
+
+    if (!admin) {
+        return <Redirect to="/admin/login" />;
     }
 
     return <>{children}</>;
-} 
\ No newline at end of file
+}
@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { RefreshCw, Package, Clock, CheckCircle } from "lucide-react";
 import type { ReturnPolicy, Return } from "@shared/schema";
+import { authFetch } from "@/lib/api";
 
 interface ReturnPolicyProps {
   storeId?: number;
@@ -30,7 +31,7 @@ export default function ReturnPolicyComponent({ storeId, customerId, orderItems
   const { data: returnPolicy } = useQuery<ReturnPolicy>({
     queryKey: ["/api/stores", storeId, "return-policy"],
     queryFn: async () => {
-      const response = await fetch(`/api/stores/${storeId}/return-policy`);
+      const response = await authFetch(`/api/stores/${storeId}/return-policy`);
       if (!response.ok) throw new Error("Failed to fetch return policy");
       return response.json();
     },
@@ -41,7 +42,7 @@ export default function ReturnPolicyComponent({ storeId, customerId, orderItems
   const { data: customerReturns } = useQuery<Return[]>({
     queryKey: ["/api/returns/customer", customerId],
     queryFn: async () => {
-      const response = await fetch(`/api/returns/customer/${customerId}`);
+      const response = await authFetch(`/api/returns/customer/${customerId}`);
       if (!response.ok) throw new Error("Failed to fetch returns");
       return response.json();
     },
@@ -51,7 +52,7 @@ export default function ReturnPolicyComponent({ storeId, customerId, orderItems
   // Create return request
   const createReturnMutation = useMutation({
     mutationFn: async (returnData: any) => {
-      const response = await fetch("/api/returns", {
+      const response = await authFetch("/api/returns", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
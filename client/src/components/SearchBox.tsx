@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Search, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiGet } from "@/lib/api";
+import { imageUrl } from "@shared/images";
+
+interface SearchSuggestions {
+  products: { id: number; name: string; image: string | null; price: string }[];
+  categories: { id: number; name: string }[];
+}
+
+interface SearchBoxProps {
+  placeholder: string;
+  inputClassName?: string;
+  buttonClassName?: string;
+}
+
+export default function SearchBox({ placeholder, inputClassName, buttonClassName }: SearchBoxProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const { data: suggestions } = useQuery<SearchSuggestions>({
+    queryKey: ["/api/products/suggestions", debouncedQuery],
+    queryFn: () => apiGet<SearchSuggestions>(`/api/products/suggestions?q=${encodeURIComponent(debouncedQuery)}`),
+    enabled: debouncedQuery.length >= 2,
+    staleTime: 60 * 1000,
+  });
+
+  const go = (path: string) => {
+    setLocation(path);
+    setSearchQuery("");
+    setOpen(false);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (searchQuery.trim()) {
+      go(`/products?search=${encodeURIComponent(searchQuery.trim())}`);
+    }
+  };
+
+  const hasSuggestions = !!suggestions && (suggestions.products.length > 0 || suggestions.categories.length > 0);
+
+  return (
+    <form onSubmit={handleSearch} className="relative w-full">
+      <Input
+        type="text"
+        placeholder={placeholder}
+        value={searchQuery}
+        onChange={(e) => {
+          setSearchQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        className={inputClassName}
+      />
+      <Button type="submit" size="sm" className={buttonClassName}>
+        <Search className="h-4 w-4" />
+      </Button>
+
+      {/* Suggestions keep focus on mouse down so the input's blur doesn't close them first */}
+      {open && searchQuery.trim().length >= 2 && hasSuggestions && (
+        <div className="absolute left-0 right-0 top-full mt-1 bg-white text-gray-900 rounded-md shadow-lg border z-50 overflow-hidden">
+          {suggestions.products.map((product) => (
+            <button
+              key={product.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => go(`/products/${product.id}`)}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-gray-100"
+            >
+              {product.image ? (
+                <img src={imageUrl(product.image, "thumbnail")} alt="" className="w-8 h-8 rounded object-cover" />
+              ) : (
+                <div className="w-8 h-8 rounded bg-gray-200" />
+              )}
+              <span className="flex-1 truncate text-sm">{product.name}</span>
+              <span className="text-xs text-gray-500">₹{Number(product.price).toLocaleString()}</span>
+            </button>
+          ))}
+          {suggestions.categories.map((category) => (
+            <button
+              key={`category-${category.id}`}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => go(`/products?category=${category.id}`)}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm hover:bg-gray-100 border-t"
+            >
+              <Tag className="h-4 w-4 text-gray-500" />
+              <span>in {category.name}</span>
+            </button>
+          ))}
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => go(`/products?search=${encodeURIComponent(searchQuery.trim())}`)}
+            className="w-full px-3 py-2 text-left text-sm text-primary hover:bg-gray-100 border-t"
+          >
+            See all results for "{searchQuery.trim()}"
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
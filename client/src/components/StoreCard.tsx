@@ -1,6 +1,7 @@
 import { Link } from "wouter";
 import { MapPin, Star, Clock } from "lucide-react";
 import type { Store } from "@shared/schema";
+import { imageUrl } from "@shared/images";
 
 interface StoreCardProps {
   store: Store;
@@ -13,7 +14,7 @@ export default function StoreCard({ store }: StoreCardProps) {
         <div className="flex items-center space-x-3 mb-3">
           <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gray-200 rounded-full flex items-center justify-center overflow-hidden flex-shrink-0">
             <img
-              src={store.logo || "https://images.unsplash.com/photo-1578662996442-48f60103fc96?ixlib=rb-4.0.3&auto=format&fit=crop&w=80&h=80"}
+              src={store.logo ? imageUrl(store.logo, "thumbnail") : "https://images.unsplash.com/photo-1578662996442-48f60103fc96?ixlib=rb-4.0.3&auto=format&fit=crop&w=80&h=80"}
               alt={store.name}
               className="w-full h-full object-cover"
               onError={(e) => {
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Clock, CheckCircle, XCircle, ShieldAlert } from "lucide-react";
+import type { Store, StoreDocument } from "@shared/schema";
+import { authFetch, uploadImages } from "@/lib/api";
+
+interface StoreVerificationProps {
+  store: Store;
+}
+
+const documentLabels: Record<string, string> = {
+  pan_vat: "PAN/VAT Registration",
+  citizenship: "Citizenship ID",
+};
+
+export default function StoreVerification({ store }: StoreVerificationProps) {
+  const [documentForm, setDocumentForm] = useState({
+    type: "pan_vat",
+    documentNumber: "",
+  });
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  // Remounts the file input so it clears after a submission
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: documents = [] } = useQuery<StoreDocument[]>({
+    queryKey: ["/api/stores", store.id, "documents"],
+    queryFn: async () => {
+      const response = await authFetch(`/api/stores/${store.id}/documents`);
+      if (!response.ok) throw new Error("Failed to fetch documents");
+      return response.json();
+    },
+  });
+
+  const uploadDocumentMutation = useMutation({
+    mutationFn: async ({ file, ...documentData }: typeof documentForm & { file: File }) => {
+      // The scan goes through the image upload first; the document keeps its large rendition
+      const [uploaded] = await uploadImages([file], "documents");
+      const response = await authFetch(`/api/stores/${store.id}/documents`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...documentData,
+          documentNumber: documentData.documentNumber || null,
+          documentUrl: uploaded.large,
+        }),
+      });
+      if (!response.ok) throw new Error("Failed to upload document");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stores", store.id, "documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stores", "owner", store.ownerId] });
+      setDocumentForm({ type: "pan_vat", documentNumber: "" });
+      setDocumentFile(null);
+      setFileInputKey((key) => key + 1);
+      toast({
+        title: "Success",
+        description: "Document submitted for verification",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDocumentSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (documentFile) {
+      uploadDocumentMutation.mutate({ ...documentForm, file: documentFile });
+    }
+  };
+
+  const renderStatus = () => {
+    switch (store.status) {
+      case "pending_review":
+        return (
+          <Alert>
+            <Clock className="h-4 w-4" />
+            <AlertTitle>Your store is under review</AlertTitle>
+            <AlertDescription>
+              Customers can't see your store or products until an administrator approves it.
+            </AlertDescription>
+          </Alert>
+        );
+      case "rejected":
+        return (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertTitle>Your store was not approved</AlertTitle>
+            <AlertDescription>
+              {store.statusReason} Upload updated documents to request another review.
+            </AlertDescription>
+          </Alert>
+        );
+      case "suspended":
+        return (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>Your store has been suspended</AlertTitle>
+            <AlertDescription>{store.statusReason}</AlertDescription>
+          </Alert>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {renderStatus()}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Store Verification
+            {store.status === "approved" && <CheckCircle className="h-5 w-5 text-green-600" />}
+          </CardTitle>
+          <CardDescription>
+            Upload your PAN/VAT registration and citizenship ID so we can verify your business
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {documents.length > 0 && (
+            <div className="space-y-2">
+              {documents.map((document) => (
+                <div key={document.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <p className="font-medium">{documentLabels[document.type] ?? document.type}</p>
+                    {document.documentNumber && (
+                      <p className="text-sm text-muted-foreground">No. {document.documentNumber}</p>
+                    )}
+                  </div>
+                  <Badge variant="outline" className="capitalize">{document.status}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {store.status !== "suspended" && (
+            <form onSubmit={handleDocumentSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Document Type</Label>
+                <Select
+                  value={documentForm.type}
+                  onValueChange={(type) => setDocumentForm({ ...documentForm, type })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pan_vat">PAN/VAT Registration</SelectItem>
+                    <SelectItem value="citizenship">Citizenship ID</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="documentNumber">Document Number</Label>
+                <Input
+                  id="documentNumber"
+                  value={documentForm.documentNumber}
+                  onChange={(e) => setDocumentForm({ ...documentForm, documentNumber: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="documentFile">Photo or Scan</Label>
+                <Input
+                  key={fileInputKey}
+                  id="documentFile"
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  onChange={(e) => setDocumentFile(e.target.files?.[0] ?? null)}
+                  required
+                />
+              </div>
+              <div className="md:col-span-3">
+                <Button type="submit" disabled={uploadDocumentMutation.isPending}>
+                  {uploadDocumentMutation.isPending ? "Submitting..." : "Submit Document"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
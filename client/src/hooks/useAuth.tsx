@@ -1,11 +1,14 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from "react";
 import type { User } from "@shared/schema";
+import { authFetch, getAccessToken, setAuthTokens, clearAuthTokens } from "@/lib/api";
 
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string) => Promise<void>;
+  loginWithPhone: (phone: string, code: string, fullName?: string) => Promise<{ isNewUser: boolean }>;
   register: (userData: any) => Promise<void>;
   logout: () => void;
+  updateUser: (user: User) => void;
   isLoading: boolean;
 }
 
@@ -18,33 +21,39 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     // Check if user is logged in on app start
     const savedUser = localStorage.getItem("user");
-    if (savedUser) {
-      try {
-        setUser(JSON.parse(savedUser));
-      } catch (error) {
-        localStorage.removeItem("user");
-      }
+    if (!savedUser || !getAccessToken()) {
+      // Sessions saved before token auth can't be trusted any more
+      localStorage.removeItem("user");
+      setIsLoading(false);
+      return;
     }
-    setIsLoading(false);
-  }, []);
 
-  const login = async (email: string, password: string) => {
-    // Check for admin credentials
-    if (email === "admin@sirahbazaar.com" && password === "admin123") {
-      const adminData = {
-        id: "1",
-        email: "admin@sirahbazaar.com",
-        fullName: "Admin User",
-        role: "super_admin",
-        permissions: ["all"],
-        lastLogin: new Date().toISOString()
-      };
-      setUser(adminData);
-      localStorage.setItem("user", JSON.stringify(adminData));
-      localStorage.setItem("adminToken", "admin-token-123");
-      return;
+    try {
+      setUser(JSON.parse(savedUser));
+    } catch (error) {
+      localStorage.removeItem("user");
     }
 
+    // Confirm the stored session with the server and pick up profile changes
+    authFetch("/api/auth/me")
+      .then(async (response) => {
+        if (response.ok) {
+          const { user } = await response.json();
+          setUser(user);
+          localStorage.setItem("user", JSON.stringify(user));
+        } else if (response.status === 401) {
+          setUser(null);
+          localStorage.removeItem("user");
+          clearAuthTokens();
+        }
+      })
+      .catch(() => {
+        // Keep the cached user while offline
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const login = async (email: string, password: string) => {
     const response = await fetch("/api/auth/login", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -56,9 +65,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       throw new Error(error.error || "Login failed");
     }
 
-    const { user } = await response.json();
+    const { user, accessToken, refreshToken } = await response.json();
+    setAuthTokens({ accessToken, refreshToken });
+    setUser(user);
+    localStorage.setItem("user", JSON.stringify(user));
+  };
+
+  const loginWithPhone = async (phone: string, code: string, fullName?: string) => {
+    const response = await fetch("/api/auth/phone/verify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ phone, code, fullName }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Login failed");
+    }
+
+    const { user, isNewUser, accessToken, refreshToken } = await response.json();
+    setAuthTokens({ accessToken, refreshToken });
     setUser(user);
     localStorage.setItem("user", JSON.stringify(user));
+    return { isNewUser };
   };
 
   const register = async (userData: any) => {
@@ -74,18 +103,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       throw new Error(error.error || "Registration failed");
     }
 
-    const { user } = await response.json();
+    const { user, accessToken, refreshToken } = await response.json();
+    setAuthTokens({ accessToken, refreshToken });
     setUser(user);
     localStorage.setItem("user", JSON.stringify(user));
   };
 
   const logout = () => {
+    // End the session on the server too; local sign-out shouldn't wait for it
+    authFetch("/api/auth/logout", { method: "POST" }).catch(() => {});
     setUser(null);
     localStorage.removeItem("user");
+    clearAuthTokens();
+  };
+
+  // Keeps the cached user in sync after profile changes such as email verification
+  const updateUser = (updatedUser: User) => {
+    setUser(updatedUser);
+    localStorage.setItem("user", JSON.stringify(updatedUser));
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, register, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, login, loginWithPhone, register, logout, updateUser, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
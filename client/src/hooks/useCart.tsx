@@ -1,14 +1,36 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from "react";
 import { useAuth } from "./useAuth";
-import type { CartItem, Product } from "@shared/schema";
+import type { CartItem, Product, ProductVariant, Store } from "@shared/schema";
+import { authFetch } from "@/lib/api";
 
-interface CartItemWithProduct extends CartItem {
+export interface CartItemWithProduct extends CartItem {
   product?: Product;
+  variant?: ProductVariant;
+  unitPrice?: string | null; // the server's price including any running offer
+  store?: Pick<Store, "id" | "name" | "deliveryFee">;
+}
+
+// Option values of a variant such as "M / Red"; empty for single-variant products
+export function variantLabel(variant?: Pick<ProductVariant, "optionValues">): string {
+  return variant ? Object.values(variant.optionValues).join(" / ") : "";
+}
+
+export function cartItemPrice(item: CartItemWithProduct): number {
+  return Number(item.unitPrice ?? item.variant?.price ?? item.product?.price ?? 0);
+}
+
+// Each store in the cart charges its delivery fee once
+export function cartDeliveryFees(items: CartItemWithProduct[]): Pick<Store, "id" | "name" | "deliveryFee">[] {
+  const stores = new Map<number, Pick<Store, "id" | "name" | "deliveryFee">>();
+  for (const item of items) {
+    if (item.store) stores.set(item.store.id, item.store);
+  }
+  return Array.from(stores.values());
 }
 
 interface CartContextType {
   cartItems: CartItemWithProduct[];
-  addToCart: (productId: number, quantity: number) => Promise<void>;
+  addToCart: (productId: number, quantity: number, variantId?: number) => Promise<void>;
   updateCartItem: (cartItemId: number, quantity: number) => Promise<void>;
   removeFromCart: (cartItemId: number) => Promise<void>;
   clearCart: () => Promise<void>;
@@ -33,7 +55,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/cart/${user.id}`);
+      const response = await authFetch(`/api/cart/${user.id}`);
       if (response.ok) {
         const items = await response.json();
         setCartItems(items);
@@ -49,17 +71,18 @@ export function CartProvider({ children }: { children: ReactNode }) {
     refreshCart();
   }, [user]);
 
-  const addToCart = async (productId: number, quantity: number) => {
+  const addToCart = async (productId: number, quantity: number, variantId?: number) => {
     if (!user) {
       throw new Error("Please login to add items to cart");
     }
 
-    const response = await fetch("/api/cart", {
+    const response = await authFetch("/api/cart", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         userId: user.id,
         productId,
+        variantId,
         quantity,
       }),
     });
@@ -72,7 +95,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
   };
 
   const updateCartItem = async (cartItemId: number, quantity: number) => {
-    const response = await fetch(`/api/cart/${cartItemId}`, {
+    const response = await authFetch(`/api/cart/${cartItemId}`, {
       method: "PUT",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ quantity }),
@@ -86,7 +109,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
   };
 
   const removeFromCart = async (cartItemId: number) => {
-    const response = await fetch(`/api/cart/${cartItemId}`, {
+    const response = await authFetch(`/api/cart/${cartItemId}`, {
       method: "DELETE",
     });
 
@@ -100,7 +123,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
   const clearCart = async () => {
     if (!user) return;
 
-    const response = await fetch(`/api/cart/user/${user.id}`, {
+    const response = await authFetch(`/api/cart/user/${user.id}`, {
       method: "DELETE",
     });
 
@@ -111,12 +134,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
     await refreshCart();
   };
 
-  const totalAmount = cartItems.reduce((sum, item) => {
-    if (item.product) {
-      return sum + (Number(item.product.price) * item.quantity);
-    }
-    return sum;
-  }, 0);
+  const totalAmount = cartItems.reduce((sum, item) => sum + cartItemPrice(item) * item.quantity, 0);
 
   const totalItems = cartItems.reduce((sum, item) => sum + item.quantity, 0);
 
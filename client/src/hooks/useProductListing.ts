@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiGet } from "@/lib/api";
+import type { Product } from "@shared/schema";
+
+export type ProductSort = "relevance" | "popularity" | "price-low" | "price-high" | "rating" | "newest";
+
+export interface ProductListingFilters {
+  search?: string;
+  categories?: number[];
+  storeId?: number | string;
+  minPrice?: string;
+  maxPrice?: string;
+  inStock?: boolean;
+  onOffer?: boolean;
+  minRating?: number;
+  sort?: ProductSort;
+  limit?: number;
+}
+
+export interface ProductFacets {
+  categories: { categoryId: number; count: number }[];
+  price: { min: number; max: number };
+  inStock: number;
+  onOffer: number;
+}
+
+// Search results carry a description excerpt with matches wrapped in [[ ]]
+export type ProductListItem = Product & { snippet: string | null };
+
+export interface ProductListing {
+  products: ProductListItem[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  nextCursor: string | null;
+  facets: ProductFacets;
+}
+
+// Builds the /api/products query string, leaving out filters that are not set
+export function productListingUrl(filters: ProductListingFilters, cursor?: string): string {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  if (filters.categories?.length) params.set("categories", filters.categories.join(","));
+  if (filters.storeId) params.set("storeId", String(filters.storeId));
+  if (filters.minPrice) params.set("minPrice", filters.minPrice);
+  if (filters.maxPrice) params.set("maxPrice", filters.maxPrice);
+  if (filters.inStock) params.set("inStock", "true");
+  if (filters.onOffer) params.set("onOffer", "true");
+  if (filters.minRating) params.set("minRating", String(filters.minRating));
+  if (filters.sort) params.set("sort", filters.sort);
+  if (filters.limit) params.set("limit", String(filters.limit));
+  if (cursor) params.set("cursor", cursor);
+  return `/api/products?${params}`;
+}
+
+// Pages through /api/products with the server's cursor. Attach loadMoreRef to
+// an element below the grid and the next page loads when it scrolls into view.
+export function useProductListing(filters: ProductListingFilters, enabled = true) {
+  const query = useInfiniteQuery({
+    queryKey: ["/api/products", filters],
+    queryFn: ({ pageParam }) => apiGet<ProductListing>(productListingUrl(filters, pageParam)),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled,
+  });
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = query;
+  const observer = useRef<IntersectionObserver | null>(null);
+
+  const loadMoreRef = useCallback((node: HTMLElement | null) => {
+    observer.current?.disconnect();
+    if (!node) return;
+    observer.current = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "400px" });
+    observer.current.observe(node);
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  useEffect(() => () => observer.current?.disconnect(), []);
+
+  const firstPage = query.data?.pages[0];
+
+  return {
+    ...query,
+    products: query.data?.pages.flatMap((page) => page.products) ?? [],
+    total: firstPage?.total ?? 0,
+    facets: firstPage?.facets,
+    loadMoreRef,
+  };
+}
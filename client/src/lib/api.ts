@@ -1,9 +1,86 @@
+import type { ImageRenditionUrls } from "@shared/images";
+
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export function getAccessToken(): string | null {
+  return localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+export function setAuthTokens(tokens: AuthTokens) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+}
+
+export function clearAuthTokens() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+// Shared so concurrent 401s only trigger a single refresh call
+let refreshInFlight: Promise<boolean> | null = null;
+
+async function refreshAccessToken(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const response = await fetch("/api/auth/refresh", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken }),
+        });
+        if (!response.ok) {
+          clearAuthTokens();
+          return false;
+        }
+        setAuthTokens(await response.json());
+        return true;
+      } catch (error) {
+        return false;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+
+  return refreshInFlight;
+}
+
+function withAuthHeader(init: RequestInit): RequestInit {
+  const token = getAccessToken();
+  if (!token) return init;
+
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${token}`);
+  return { ...init, headers };
+}
+
+// fetch() that sends the access token and retries once with a refreshed
+// token when the server reports it as expired.
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(url, withAuthHeader(init));
+  if (response.status !== 401 || !getAccessToken()) {
+    return response;
+  }
+
+  const refreshed = await refreshAccessToken();
+  return refreshed ? fetch(url, withAuthHeader(init)) : response;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown,
 ): Promise<Response> {
-  const response = await fetch(url, {
+  const response = await authFetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
@@ -35,3 +112,48 @@ export async function apiPut<T>(url: string, data: unknown): Promise<T> {
 export async function apiDelete(url: string): Promise<void> {
   await apiRequest("DELETE", url);
 }
+
+// Admin panel requests authenticate with a separate admin session token
+const ADMIN_TOKEN_KEY = "adminToken";
+
+export function getAdminToken(): string | null {
+  return localStorage.getItem(ADMIN_TOKEN_KEY);
+}
+
+export function setAdminToken(token: string) {
+  localStorage.setItem(ADMIN_TOKEN_KEY, token);
+}
+
+export function clearAdminToken() {
+  localStorage.removeItem(ADMIN_TOKEN_KEY);
+}
+
+export async function adminFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = getAdminToken();
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  return fetch(url, { ...init, headers });
+}
+
+export async function adminQueryFn({ queryKey }: { queryKey: readonly unknown[] }) {
+  const response = await adminFetch(queryKey[0] as string);
+  if (!response.ok) throw new Error("Failed to fetch admin data");
+  return response.json();
+}
+
+// Uploads image files as multipart form data; the server answers with the
+// URLs of each image's resized renditions
+export async function uploadImages(files: Blob[], folder: "products" | "stores" | "documents" = "products"): Promise<ImageRenditionUrls[]> {
+  const body = new FormData();
+  files.forEach((file) => body.append("images", file));
+
+  const response = await authFetch(`/api/uploads/images?folder=${folder}`, { method: "POST", body });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(errorData.error || `HTTP ${response.status}`);
+  }
+  const { images } = await response.json();
+  return images;
+}
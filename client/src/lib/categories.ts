@@ -0,0 +1,33 @@
+import type { Category, CategoryAttribute } from "@shared/schema";
+
+export type CategoryTreeNode = Category & { children: CategoryTreeNode[] };
+
+// GET /api/categories/:id
+export type CategoryDetail = Category & {
+  path: Category[];
+  children: Category[];
+  attributes: CategoryAttribute[];
+};
+
+// Nests the flat /api/categories list, keeping the server's sibling order
+export function buildCategoryTree(categories: Category[]): CategoryTreeNode[] {
+  const nodes = new Map<number, CategoryTreeNode>(
+    categories.map((category) => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryTreeNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+  const byPosition = (list: CategoryTreeNode[]) => {
+    list.sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+    list.forEach((node) => byPosition(node.children));
+  };
+  byPosition(roots);
+  return roots;
+}
+
+// Depth-first list with each category's depth, for indented pickers
+export function flattenCategoryTree(tree: CategoryTreeNode[], depth = 0): { category: CategoryTreeNode; depth: number }[] {
+  return tree.flatMap((category) => [{ category, depth }, ...flattenCategoryTree(category.children, depth + 1)]);
+}
@@ -9,6 +9,8 @@ import { Separator } from "@/components/ui/separator";
 import { User, Mail, Phone, MapPin, Calendar, ShoppingBag, Store, Settings, Edit } from "lucide-react";
 import { Link } from "wouter";
 import type { Order } from "@shared/schema";
+import { orderStatusLabel } from "@shared/orders";
+import LoggedInDevices from "@/components/LoggedInDevices";
 
 export default function Account() {
   const { user, logout } = useAuth();
@@ -48,9 +50,11 @@ export default function Account() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case "delivered": return "bg-green-100 text-green-800";
-      case "shipped": return "bg-blue-100 text-blue-800";
-      case "processing": return "bg-yellow-100 text-yellow-800";
-      case "cancelled": return "bg-red-100 text-red-800";
+      case "out_for_delivery": return "bg-blue-100 text-blue-800";
+      case "confirmed":
+      case "packed": return "bg-yellow-100 text-yellow-800";
+      case "cancelled":
+      case "failed_delivery": return "bg-red-100 text-red-800";
       default: return "bg-gray-100 text-gray-800";
     }
   };
@@ -78,6 +82,13 @@ export default function Account() {
               <div className="flex items-center space-x-3">
                 <Mail className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm">{user.email}</span>
+                {user.emailVerified ? (
+                  <Badge variant="secondary">Verified</Badge>
+                ) : (
+                  <Link href="/verify-email" className="text-xs text-primary hover:underline">
+                    Verify
+                  </Link>
+                )}
               </div>
               {user.phone && (
                 <div className="flex items-center space-x-3">
@@ -162,7 +173,7 @@ export default function Account() {
                           </p>
                         </div>
                         <Badge className={getStatusColor(order.status)}>
-                          {order.status}
+                          {orderStatusLabel(order.status)}
                         </Badge>
                       </div>
                       <div className="mt-2">
@@ -247,6 +258,8 @@ export default function Account() {
               </CardContent>
             </Card>
           )}
+
+          <LoggedInDevices />
         </div>
       </div>
     </div>
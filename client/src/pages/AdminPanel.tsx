@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -17,13 +17,21 @@ import {
   ClipboardList, Mail, ShieldAlert, Globe, Zap,
   FileImage, FileVideo, FileAudio, FileText as FileTextIcon,
   Download, Upload, Printer, Share2, Lock, Unlock,
-  Eye, EyeOff, Key, UserCog, Store as StoreIcon, Package as PackageIcon
+  Eye, EyeOff, Key, UserCog, Store as StoreIcon, Package as PackageIcon,
+  type LucideIcon
 } from "lucide-react";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import type { Category, InsertCategory } from "@shared/schema";
+import type {
+  Category, InsertCategory, ReorderCategoriesInput, User, UserStatus, Store as StoreRecord, StoreStatus, StoreDocument, Review, ReviewReasonCode
+} from "@shared/schema";
+import type { AdminPermission } from "@shared/permissions";
+import { orderStatusLabels } from "@shared/orders";
+import CategoryTreeEditor from "@/components/CategoryTreeEditor";
+import CategoryAttributesDialog from "@/components/CategoryAttributesDialog";
+import { buildCategoryTree, flattenCategoryTree } from "@/lib/categories";
 import {
   Select,
   SelectContent,
@@ -58,10 +66,10 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { useLocation } from "wouter";
-import { useAuth } from "@/hooks/use-auth";
+import { adminFetch, adminQueryFn, clearAdminToken } from "@/lib/api";
 import { Progress } from "@/components/ui/progress";
 import type { AnalyticsData, UserStats, ProductStats, Visit } from "@/types/analytics";
-import type { AdminAuth, AdminUser, AdminSettings } from "@/types/admin";
+import type { AdminUser, AdminSettings } from "@/types/admin";
 
 // Form-related interfaces
 interface FormField {
@@ -92,6 +100,8 @@ interface MediaUpload {
 const categorySchema = z.object({
   name: z.string().min(1, "Category name is required"),
   slug: z.string().min(1, "Slug is required"),
+  parentId: z.number().nullable(),
+  image: z.string().url("Please enter a valid image URL").or(z.literal("")),
 });
 
 type CategoryForm = z.infer<typeof categorySchema>;
@@ -121,13 +131,90 @@ const storeSchema = z.object({
   status: z.enum(["active", "pending", "suspended"]),
 });
 
+// Sidebar tabs and the admin permission each one needs (null = every admin)
+const adminTabs: { id: string; label: string; icon: LucideIcon; permission: AdminPermission | null }[] = [
+  { id: "dashboard", label: "Dashboard", icon: BarChart2, permission: null },
+  { id: "users", label: "Users", icon: Users, permission: "manage_users" },
+  { id: "products", label: "Products", icon: Package, permission: "manage_products" },
+  { id: "categories", label: "Categories", icon: Tag, permission: "manage_categories" },
+  { id: "stores", label: "Stores", icon: Store, permission: "moderate_stores" },
+  { id: "reviews", label: "Reviews", icon: MessageSquare, permission: "moderate_reviews" },
+  { id: "orders", label: "Orders", icon: ShoppingCart, permission: "manage_orders" },
+  { id: "analytics", label: "Analytics", icon: TrendingUp, permission: "view_analytics" },
+  { id: "settings", label: "Settings", icon: Settings, permission: "manage_settings" },
+  { id: "forms", label: "Form Builder", icon: FormInput, permission: "manage_settings" },
+  { id: "media", label: "Media Library", icon: FileImage, permission: "manage_settings" },
+  { id: "templates", label: "Templates", icon: Layout, permission: "manage_settings" },
+  { id: "integrations", label: "Integrations", icon: Zap, permission: "manage_settings" },
+  { id: "backup", label: "Backup & Restore", icon: Database, permission: "manage_settings" },
+];
+
+type AdminListUser = Omit<User, "password">;
+
+interface AdminUserList {
+  users: AdminListUser[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+const userStatusVariants: Record<string, "default" | "secondary" | "destructive"> = {
+  active: "default",
+  suspended: "secondary",
+  banned: "destructive",
+};
+
+const storeStatusLabels: Record<string, string> = {
+  pending_review: "Pending Review",
+  approved: "Approved",
+  rejected: "Rejected",
+  suspended: "Suspended",
+};
+
+const storeStatusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending_review: "secondary",
+  approved: "default",
+  rejected: "destructive",
+  suspended: "destructive",
+};
+
+const storeDocumentLabels: Record<string, string> = {
+  pan_vat: "PAN/VAT Registration",
+  citizenship: "Citizenship ID",
+};
+
+interface ModeratedReview extends Omit<Review, "createdAt" | "updatedAt" | "sellerRepliedAt" | "moderatedAt"> {
+  customerName: string;
+  productName: string;
+  createdAt: string;
+  openReports: { reason: ReviewReasonCode; details: string | null; createdAt: string }[];
+}
+
+// Reason codes moderators pick from, plus the ones set by automatic screening
+const reviewReasonLabels: Record<string, string> = {
+  spam: "Spam or advertising",
+  offensive: "Offensive or abusive",
+  fake: "Fake or misleading",
+  off_topic: "Not about the product",
+  personal_info: "Personal information",
+  other: "Other",
+  banned_words: "Banned words (automatic)",
+  contains_link: "Contains a link (automatic)",
+};
+
+const reviewModerationCodes: ReviewReasonCode[] = ["spam", "offensive", "fake", "off_topic", "personal_info", "other"];
+
+const reviewStatusVariants: Record<string, "default" | "secondary" | "destructive"> = {
+  published: "default",
+  held: "secondary",
+  hidden: "destructive",
+};
+
 export default function AdminPanel() {
   const [, setLocation] = useLocation();
-  const { user, isAuthenticated } = useAuth();
-  const [isAdminAuthenticated, setIsAdminAuthenticated] = useState(false);
-  const [adminData, setAdminData] = useState<AdminUser | null>(null);
-  const [loginForm, setLoginForm] = useState<AdminAuth>({ email: "", password: "" });
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [attributesCategory, setAttributesCategory] = useState<Category | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedTab, setSelectedTab] = useState("dashboard");
@@ -138,42 +225,25 @@ export default function AdminPanel() {
   const [mediaFiles, setMediaFiles] = useState<MediaUpload[]>([]);
   const [formTemplates, setFormTemplates] = useState<FormTemplate[]>([]);
   const [selectedFormTemplate, setSelectedFormTemplate] = useState<FormTemplate | null>(null);
-
-  // Check if user is authorized to access admin panel
-  useEffect(() => {
-    const checkAdminAccess = async () => {
-      try {
-        const response = await fetch("/api/admin/verify", {
-          headers: {
-            Authorization: `Bearer ${localStorage.getItem("adminToken")}`,
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error("Unauthorized access");
-        }
-
-        const data = await response.json();
-        if (data.role !== "super_admin" && data.role !== "admin") {
-          throw new Error("Insufficient permissions");
-        }
-
-        setIsAdminAuthenticated(true);
-        setAdminData(data);
-      } catch (error) {
-        setIsAdminAuthenticated(false);
-        setAdminData(null);
-        setLocation("/"); // Redirect to home page
-        toast({
-          title: "Access Denied",
-          description: "You don't have permission to access the admin panel",
-          variant: "destructive",
-        });
-      }
-    };
-
-    checkAdminAccess();
-  }, [setLocation, toast]);
+  const [userPage, setUserPage] = useState(1);
+  const [statusChange, setStatusChange] = useState<{ user: AdminListUser; status: UserStatus } | null>(null);
+  const [statusReason, setStatusReason] = useState("");
+  const [storeStatusFilter, setStoreStatusFilter] = useState("all");
+  const [storeStatusChange, setStoreStatusChange] = useState<{ store: StoreRecord; status: StoreStatus } | null>(null);
+  const [storeStatusReason, setStoreStatusReason] = useState("");
+  const [documentsStore, setDocumentsStore] = useState<StoreRecord | null>(null);
+  const [reviewQueueFilter, setReviewQueueFilter] = useState("reported");
+  const [reviewAction, setReviewAction] = useState<{ review: ModeratedReview; action: "hide" | "delete" } | null>(null);
+  const [reviewActionReason, setReviewActionReason] = useState<ReviewReasonCode | "">("");
+
+  // ProtectedAdminRoute has already verified the session with the server
+  const { data: adminData } = useQuery<AdminUser>({
+    queryKey: ["/api/admin/verify"],
+    queryFn: adminQueryFn,
+  });
+  const isAdminAuthenticated = !!adminData;
+  const can = (permission: AdminPermission) => !!adminData?.permissions.includes(permission);
+  const visibleTabs = adminTabs.filter((tab) => !tab.permission || can(tab.permission));
 
   // Category form
   const categoryForm = useForm<CategoryForm>({
@@ -181,71 +251,52 @@ export default function AdminPanel() {
     defaultValues: {
       name: "",
       slug: "",
-    },
-  });
-
-  // Admin authentication mutation
-  const loginMutation = useMutation({
-    mutationFn: async (credentials: AdminAuth) => {
-      const response = await fetch("/api/admin/login", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(credentials),
-      });
-
-      if (!response.ok) {
-        throw new Error("Invalid admin credentials");
-      }
-
-      const data = await response.json();
-
-      // Verify admin role
-      if (data.role !== "super_admin" && data.role !== "admin") {
-        throw new Error("Insufficient permissions");
-      }
-
-      // Store admin token
-      localStorage.setItem("adminToken", data.token);
-      return data;
-    },
-    onSuccess: (data) => {
-      setIsAdminAuthenticated(true);
-      setAdminData(data.admin);
-      toast({
-        title: "Success",
-        description: "Admin login successful",
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
+      parentId: null,
+      image: "",
     },
   });
 
   // Queries with proper types
   const { data: salesData } = useQuery<AnalyticsData>({
     queryKey: ["/api/admin/analytics/sales"],
-    enabled: isAdminAuthenticated,
+    queryFn: adminQueryFn,
+    enabled: can("view_analytics"),
   });
 
   const { data: userStats } = useQuery<UserStats>({
     queryKey: ["/api/admin/analytics/users"],
-    enabled: isAdminAuthenticated,
+    queryFn: adminQueryFn,
+    enabled: can("view_analytics"),
   });
 
   const { data: productStats } = useQuery<ProductStats>({
     queryKey: ["/api/admin/analytics/products"],
-    enabled: isAdminAuthenticated,
+    queryFn: adminQueryFn,
+    enabled: can("view_analytics"),
   });
 
   const { data: visits } = useQuery<Visit[]>({
     queryKey: ["/api/admin/analytics/visits"],
-    enabled: isAdminAuthenticated,
+    queryFn: adminQueryFn,
+    enabled: can("view_analytics"),
+  });
+
+  // Users data
+  const userParams = new URLSearchParams({ page: String(userPage), limit: "20" });
+  if (searchQuery) userParams.set("search", searchQuery);
+  if (selectedStatus !== "all") userParams.set("status", selectedStatus);
+  const { data: userList } = useQuery<AdminUserList>({
+    queryKey: [`/api/admin/users?${userParams}`],
+    queryFn: adminQueryFn,
+    enabled: can("manage_users") && selectedTab === "users",
   });
 
+  // The list query key embeds the filters, so match every page and filter
+  const invalidateUserList = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/users"),
+    });
+
   // Categories data
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
@@ -258,15 +309,38 @@ export default function AdminPanel() {
     enabled: isAdminAuthenticated,
   });
 
+  // Store moderation data includes stores hidden from shoppers
+  const { data: moderatedStores = [] } = useQuery<StoreRecord[]>({
+    queryKey: [`/api/admin/stores?status=${storeStatusFilter}`],
+    queryFn: adminQueryFn,
+    enabled: can("moderate_stores") && selectedTab === "stores",
+  });
+  const filteredStores = moderatedStores.filter((store) =>
+    store.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const { data: storeDocuments = [] } = useQuery<StoreDocument[]>({
+    queryKey: [`/api/stores/${documentsStore?.id}/documents`],
+    queryFn: adminQueryFn,
+    enabled: !!documentsStore,
+  });
+
+  // Review moderation queue
+  const { data: reviewQueue = [] } = useQuery<ModeratedReview[]>({
+    queryKey: [`/api/admin/reviews?status=${reviewQueueFilter}`],
+    queryFn: adminQueryFn,
+    enabled: can("moderate_reviews") && selectedTab === "reviews",
+  });
+
   // Category mutations
   const createCategoryMutation = useMutation({
     mutationFn: async (categoryData: CategoryForm) => {
-      const response = await fetch("/api/categories", {
+      const response = await adminFetch("/api/categories", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(categoryData),
+        body: JSON.stringify({ ...categoryData, image: categoryData.image || null }),
       });
-      if (!response.ok) throw new Error("Failed to create category");
+      if (!response.ok) throw new Error((await response.json()).error || "Failed to create category");
       return response.json();
     },
     onSuccess: () => {
@@ -288,12 +362,12 @@ export default function AdminPanel() {
 
   const updateCategoryMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: CategoryForm }) => {
-      const response = await fetch(`/api/categories/${id}`, {
+      const response = await adminFetch(`/api/categories/${id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, image: data.image || null }),
       });
-      if (!response.ok) throw new Error("Failed to update category");
+      if (!response.ok) throw new Error((await response.json()).error || "Failed to update category");
       return response.json();
     },
     onSuccess: () => {
@@ -316,10 +390,10 @@ export default function AdminPanel() {
 
   const deleteCategoryMutation = useMutation({
     mutationFn: async (id: number) => {
-      const response = await fetch(`/api/categories/${id}`, {
+      const response = await adminFetch(`/api/categories/${id}`, {
         method: "DELETE",
       });
-      if (!response.ok) throw new Error("Failed to delete category");
+      if (!response.ok) throw new Error((await response.json()).error || "Failed to delete category");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
@@ -337,60 +411,247 @@ export default function AdminPanel() {
     },
   });
 
+  const reorderCategoriesMutation = useMutation({
+    mutationFn: async (moves: ReorderCategoriesInput["categories"]) => {
+      const response = await adminFetch("/api/categories/reorder", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ categories: moves }),
+      });
+      if (!response.ok) throw new Error((await response.json()).error || "Failed to reorder categories");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Enhanced mutations for new features
   const updateUserStatusMutation = useMutation({
-    mutationFn: async ({ userId, status }: { userId: number; status: string }) => {
-      const response = await fetch(`/api/admin/users/${userId}/status`, {
+    mutationFn: async ({ userId, status, reason }: { userId: number; status: UserStatus; reason?: string }) => {
+      const response = await adminFetch(`/api/admin/users/${userId}/status`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status }),
+        body: JSON.stringify({ status, reason }),
       });
       if (!response.ok) throw new Error("Failed to update user status");
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      invalidateUserList();
+      setStatusChange(null);
+      setStatusReason("");
       toast({
         title: "Success",
         description: "User status updated successfully",
       });
     },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
+  const forcePasswordResetMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await adminFetch(`/api/admin/users/${userId}/force-password-reset`, {
+        method: "POST",
+      });
+      if (!response.ok) throw new Error("Failed to force password reset");
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateUserList();
+      toast({
+        title: "Success",
+        description: "The user must reset their password before signing in",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateUserRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: string }) => {
+      const response = await adminFetch(`/api/admin/users/${userId}/role`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      if (!response.ok) throw new Error("Failed to update user role");
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateUserList();
+      toast({
+        title: "Success",
+        description: "User role updated successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Store list query keys embed the status filter, so match them by prefix
+  const invalidateStoreLists = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/stores"] });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/stores"),
+    });
+  };
+
   const updateStoreStatusMutation = useMutation({
-    mutationFn: async ({ storeId, status }: { storeId: number; status: string }) => {
-      const response = await fetch(`/api/admin/stores/${storeId}/status`, {
+    mutationFn: async ({ storeId, status, reason }: { storeId: number; status: StoreStatus; reason?: string }) => {
+      const response = await adminFetch(`/api/admin/stores/${storeId}/status`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status }),
+        body: JSON.stringify({ status, reason }),
       });
       if (!response.ok) throw new Error("Failed to update store status");
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/stores"] });
+      invalidateStoreLists();
+      setStoreStatusChange(null);
+      setStoreStatusReason("");
       toast({
         title: "Success",
         description: "Store status updated successfully",
       });
     },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStoreFeaturedMutation = useMutation({
+    mutationFn: async ({ storeId, featured }: { storeId: number; featured: boolean }) => {
+      const response = await adminFetch(`/api/admin/stores/${storeId}/featured`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ featured }),
+      });
+      if (!response.ok) throw new Error("Failed to update store");
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateStoreLists();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Review queue keys embed the filter, so match them by prefix
+  const invalidateReviewQueue = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/reviews"),
+    });
+
+  const closeReviewAction = () => {
+    setReviewAction(null);
+    setReviewActionReason("");
+  };
+
+  const updateReviewStatusMutation = useMutation({
+    mutationFn: async ({ reviewId, status, reason }: { reviewId: number; status: "published" | "hidden"; reason?: ReviewReasonCode }) => {
+      const response = await adminFetch(`/api/admin/reviews/${reviewId}/status`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, reason }),
+      });
+      if (!response.ok) throw new Error("Failed to update review");
+      return response.json();
+    },
+    onSuccess: (_, { status }) => {
+      invalidateReviewQueue();
+      closeReviewAction();
+      toast({
+        title: "Success",
+        description: status === "published" ? "Review published" : "Review hidden",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteReviewMutation = useMutation({
+    mutationFn: async ({ reviewId, reason }: { reviewId: number; reason: ReviewReasonCode }) => {
+      const response = await adminFetch(`/api/admin/reviews/${reviewId}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+      if (!response.ok) throw new Error("Failed to delete review");
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateReviewQueue();
+      closeReviewAction();
+      toast({
+        title: "Success",
+        description: "Review deleted",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   // New queries for additional features
   const { data: formTemplatesData } = useQuery({
     queryKey: ["/api/admin/form-templates"],
-    enabled: isAdminAuthenticated,
+    queryFn: adminQueryFn,
+    enabled: can("manage_settings"),
   });
 
   const { data: mediaLibrary } = useQuery({
     queryKey: ["/api/admin/media"],
-    enabled: isAdminAuthenticated,
+    queryFn: adminQueryFn,
+    enabled: can("manage_settings"),
   });
 
   // New mutations for additional features
   const createFormTemplateMutation = useMutation({
     mutationFn: async (template: Omit<FormTemplate, 'id' | 'createdAt' | 'updatedAt'>) => {
-      const response = await fetch("/api/admin/form-templates", {
+      const response = await adminFetch("/api/admin/form-templates", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(template),
@@ -411,7 +672,7 @@ export default function AdminPanel() {
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append("file", file);
-      const response = await fetch("/api/admin/media/upload", {
+      const response = await adminFetch("/api/admin/media/upload", {
         method: "POST",
         body: formData,
       });
@@ -427,17 +688,14 @@ export default function AdminPanel() {
     },
   });
 
-  const handleLogin = (e: React.FormEvent) => {
-    e.preventDefault();
-    loginMutation.mutate(loginForm);
-  };
-
-  const handleLogout = () => {
-    localStorage.removeItem("adminToken");
-    setIsAdminAuthenticated(false);
-    setAdminData(null);
-    setLoginForm({ email: "", password: "" });
-    setLocation("/");
+  const handleLogout = async () => {
+    try {
+      await adminFetch("/api/admin/logout", { method: "POST" });
+    } finally {
+      clearAdminToken();
+      queryClient.removeQueries({ queryKey: ["/api/admin/verify"] });
+      setLocation("/admin/login");
+    }
   };
 
   const handleCategorySubmit = (data: CategoryForm) => {
@@ -452,6 +710,8 @@ export default function AdminPanel() {
     setEditingCategory(category);
     categoryForm.setValue("name", category.name);
     categoryForm.setValue("slug", category.slug);
+    categoryForm.setValue("parentId", category.parentId);
+    categoryForm.setValue("image", category.image ?? "");
   };
 
   const handleCancelEdit = () => {
@@ -490,54 +750,6 @@ export default function AdminPanel() {
     }
   };
 
-  if (!isAdminAuthenticated) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <Card className="w-full max-w-md">
-          <CardHeader>
-            <CardTitle className="text-2xl font-bold text-center">Admin Panel</CardTitle>
-            <CardDescription className="text-center">
-              Enter your admin credentials to access the dashboard
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleLogin} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="admin@sirahbazaar.com"
-                  value={loginForm.email}
-                  onChange={(e) => setLoginForm({ ...loginForm, email: e.target.value })}
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="Enter admin password"
-                  value={loginForm.password}
-                  onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
-                  required
-                />
-              </div>
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={loginMutation.isPending}
-              >
-                {loginMutation.isPending ? "Logging in..." : "Login"}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="bg-white shadow-sm border-b">
@@ -567,102 +779,17 @@ export default function AdminPanel() {
             <Card>
               <CardContent className="p-4">
                 <nav className="space-y-2">
-                  <Button
-                    variant={selectedTab === "dashboard" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("dashboard")}
-                  >
-                    <BarChart2 className="mr-2 h-4 w-4" />
-                    Dashboard
-                  </Button>
-                  <Button
-                    variant={selectedTab === "users" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("users")}
-                  >
-                    <Users className="mr-2 h-4 w-4" />
-                    Users
-                  </Button>
-                  <Button
-                    variant={selectedTab === "products" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("products")}
-                  >
-                    <Package className="mr-2 h-4 w-4" />
-                    Products
-                  </Button>
-                  <Button
-                    variant={selectedTab === "stores" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("stores")}
-                  >
-                    <Store className="mr-2 h-4 w-4" />
-                    Stores
-                  </Button>
-                  <Button
-                    variant={selectedTab === "orders" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("orders")}
-                  >
-                    <ShoppingCart className="mr-2 h-4 w-4" />
-                    Orders
-                  </Button>
-                  <Button
-                    variant={selectedTab === "analytics" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("analytics")}
-                  >
-                    <TrendingUp className="mr-2 h-4 w-4" />
-                    Analytics
-                  </Button>
-                  <Button
-                    variant={selectedTab === "settings" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("settings")}
-                  >
-                    <Settings className="mr-2 h-4 w-4" />
-                    Settings
-                  </Button>
-                  <Button
-                    variant={selectedTab === "forms" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("forms")}
-                  >
-                    <FormInput className="mr-2 h-4 w-4" />
-                    Form Builder
-                  </Button>
-                  <Button
-                    variant={selectedTab === "media" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("media")}
-                  >
-                    <FileImage className="mr-2 h-4 w-4" />
-                    Media Library
-                  </Button>
-                  <Button
-                    variant={selectedTab === "templates" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("templates")}
-                  >
-                    <Layout className="mr-2 h-4 w-4" />
-                    Templates
-                  </Button>
-                  <Button
-                    variant={selectedTab === "integrations" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("integrations")}
-                  >
-                    <Zap className="mr-2 h-4 w-4" />
-                    Integrations
-                  </Button>
-                  <Button
-                    variant={selectedTab === "backup" ? "default" : "ghost"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTab("backup")}
-                  >
-                    <Database className="mr-2 h-4 w-4" />
-                    Backup & Restore
-                  </Button>
+                  {visibleTabs.map(({ id, label, icon: Icon }) => (
+                    <Button
+                      key={id}
+                      variant={selectedTab === id ? "default" : "ghost"}
+                      className="w-full justify-start"
+                      onClick={() => setSelectedTab(id)}
+                    >
+                      <Icon className="mr-2 h-4 w-4" />
+                      {label}
+                    </Button>
+                  ))}
                 </nav>
               </CardContent>
             </Card>
@@ -828,10 +955,19 @@ export default function AdminPanel() {
                           <Input
                             placeholder="Search users..."
                             value={searchQuery}
-                            onChange={(e) => setSearchQuery(e.target.value)}
+                            onChange={(e) => {
+                              setSearchQuery(e.target.value);
+                              setUserPage(1);
+                            }}
                           />
                         </div>
-                        <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+                        <Select
+                          value={selectedStatus}
+                          onValueChange={(value) => {
+                            setSelectedStatus(value);
+                            setUserPage(1);
+                          }}
+                        >
                           <SelectTrigger className="w-[180px]">
                             <SelectValue placeholder="Filter by status" />
                           </SelectTrigger>
@@ -855,10 +991,164 @@ export default function AdminPanel() {
                           </TableRow>
                         </TableHeader>
                         <TableBody>
-                          {/* User rows */}
+                          {userList?.users.map((user) => (
+                            <TableRow key={user.id}>
+                              <TableCell className="font-medium">{user.fullName}</TableCell>
+                              <TableCell>{user.email}</TableCell>
+                              <TableCell>
+                                <Select
+                                  value={user.role}
+                                  onValueChange={(role) => updateUserRoleMutation.mutate({ userId: user.id, role })}
+                                >
+                                  <SelectTrigger className="w-[140px]">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="customer">Customer</SelectItem>
+                                    <SelectItem value="store_owner">Store Owner</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex flex-col gap-1">
+                                  <Badge variant={userStatusVariants[user.status] ?? "secondary"} className="w-fit capitalize">
+                                    {user.status}
+                                  </Badge>
+                                  {user.statusReason && (
+                                    <span className="text-xs text-muted-foreground">{user.statusReason}</span>
+                                  )}
+                                  {user.passwordResetRequired && (
+                                    <span className="text-xs text-muted-foreground">Password reset pending</span>
+                                  )}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button variant="ghost" size="sm">
+                                      <UserCog className="h-4 w-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent>
+                                    <DropdownMenuLabel>Account</DropdownMenuLabel>
+                                    {user.status !== "active" && (
+                                      <DropdownMenuItem
+                                        onClick={() => updateUserStatusMutation.mutate({ userId: user.id, status: "active" })}
+                                      >
+                                        <Unlock className="mr-2 h-4 w-4" />
+                                        Reactivate
+                                      </DropdownMenuItem>
+                                    )}
+                                    {user.status !== "suspended" && (
+                                      <DropdownMenuItem onClick={() => setStatusChange({ user, status: "suspended" })}>
+                                        <Lock className="mr-2 h-4 w-4" />
+                                        Suspend
+                                      </DropdownMenuItem>
+                                    )}
+                                    <DropdownMenuItem onClick={() => forcePasswordResetMutation.mutate(user.id)}>
+                                      <Key className="mr-2 h-4 w-4" />
+                                      Force Password Reset
+                                    </DropdownMenuItem>
+                                    {user.status !== "banned" && (
+                                      <>
+                                        <DropdownMenuSeparator />
+                                        <DropdownMenuItem
+                                          className="text-red-600"
+                                          onClick={() => setStatusChange({ user, status: "banned" })}
+                                        >
+                                          <ShieldAlert className="mr-2 h-4 w-4" />
+                                          Ban
+                                        </DropdownMenuItem>
+                                      </>
+                                    )}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                          {userList?.users.length === 0 && (
+                            <TableRow>
+                              <TableCell colSpan={5} className="text-center text-muted-foreground">
+                                No users found
+                              </TableCell>
+                            </TableRow>
+                          )}
                         </TableBody>
                       </Table>
+
+                      {userList && userList.totalPages > 1 && (
+                        <div className="flex items-center justify-between">
+                          <p className="text-sm text-muted-foreground">
+                            Page {userList.page} of {userList.totalPages} ({userList.total} users)
+                          </p>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={userPage <= 1}
+                              onClick={() => setUserPage(userPage - 1)}
+                            >
+                              Previous
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={userPage >= userList.totalPages}
+                              onClick={() => setUserPage(userPage + 1)}
+                            >
+                              Next
+                            </Button>
+                          </div>
+                        </div>
+                      )}
                     </div>
+
+                    <Dialog
+                      open={!!statusChange}
+                      onOpenChange={(open) => {
+                        if (!open) {
+                          setStatusChange(null);
+                          setStatusReason("");
+                        }
+                      }}
+                    >
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>
+                            {statusChange?.status === "banned" ? "Ban" : "Suspend"} {statusChange?.user.fullName}
+                          </DialogTitle>
+                          <DialogDescription>
+                            The user will be signed out and blocked from placing orders. The reason is shown to them.
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-2">
+                          <Label htmlFor="status-reason">Reason</Label>
+                          <Textarea
+                            id="status-reason"
+                            value={statusReason}
+                            onChange={(e) => setStatusReason(e.target.value)}
+                          />
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" onClick={() => setStatusChange(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            disabled={!statusReason.trim() || updateUserStatusMutation.isPending}
+                            onClick={() =>
+                              statusChange && updateUserStatusMutation.mutate({
+                                userId: statusChange.user.id,
+                                status: statusChange.status,
+                                reason: statusReason.trim(),
+                              })
+                            }
+                          >
+                            Confirm
+                          </Button>
+                        </div>
+                      </DialogContent>
+                    </Dialog>
                   </CardContent>
                 </Card>
               </div>
@@ -936,6 +1226,142 @@ export default function AdminPanel() {
               </div>
             )}
 
+            {selectedTab === "categories" && (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{editingCategory ? "Edit Category" : "Add Category"}</CardTitle>
+                    <CardDescription>
+                      {editingCategory ? `Editing ${editingCategory.name}` : "Create a top-level category or a subcategory"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Form {...categoryForm}>
+                      <form onSubmit={categoryForm.handleSubmit(handleCategorySubmit)} className="space-y-4">
+                        <FormField
+                          control={categoryForm.control}
+                          name="name"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Name</FormLabel>
+                              <FormControl>
+                                <Input
+                                  {...field}
+                                  onChange={(e) => {
+                                    field.onChange(e);
+                                    if (!editingCategory) {
+                                      categoryForm.setValue("slug", generateSlug(e.target.value));
+                                    }
+                                  }}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={categoryForm.control}
+                          name="slug"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Slug</FormLabel>
+                              <FormControl>
+                                <Input {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={categoryForm.control}
+                          name="parentId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Parent Category</FormLabel>
+                              <Select
+                                value={field.value ? String(field.value) : "none"}
+                                onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="none">None (top level)</SelectItem>
+                                  {flattenCategoryTree(buildCategoryTree(categories))
+                                    .filter(({ category }) => category.id !== editingCategory?.id)
+                                    .map(({ category, depth }) => (
+                                      <SelectItem key={category.id} value={String(category.id)}>
+                                        <span style={{ paddingLeft: depth * 12 }}>{category.name}</span>
+                                      </SelectItem>
+                                    ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={categoryForm.control}
+                          name="image"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Image URL</FormLabel>
+                              <FormControl>
+                                <Input placeholder="https://..." {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <div className="flex gap-2">
+                          <Button type="submit" disabled={createCategoryMutation.isPending || updateCategoryMutation.isPending}>
+                            {editingCategory ? "Update Category" : "Add Category"}
+                          </Button>
+                          {editingCategory && (
+                            <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      </form>
+                    </Form>
+                  </CardContent>
+                </Card>
+
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle>Category Tree</CardTitle>
+                    <CardDescription>
+                      Drag a category onto another to make it a subcategory, or onto its top or bottom edge to reorder
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <CategoryTreeEditor
+                      categories={categories}
+                      onMove={(moves) => reorderCategoriesMutation.mutate(moves)}
+                      onEdit={handleEditCategory}
+                      onDelete={(category) => {
+                        if (confirm(`Delete ${category.name}?`)) {
+                          deleteCategoryMutation.mutate(category.id);
+                        }
+                      }}
+                      onEditAttributes={setAttributesCategory}
+                    />
+                  </CardContent>
+                </Card>
+
+                {attributesCategory && (
+                  <CategoryAttributesDialog
+                    category={attributesCategory}
+                    open={!!attributesCategory}
+                    onOpenChange={(open) => !open && setAttributesCategory(null)}
+                  />
+                )}
+              </div>
+            )}
+
             {selectedTab === "stores" && (
               <div className="space-y-6">
                 <Card>
@@ -974,21 +1400,22 @@ export default function AdminPanel() {
                             onChange={(e) => setSearchQuery(e.target.value)}
                           />
                         </div>
-                        <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+                        <Select value={storeStatusFilter} onValueChange={setStoreStatusFilter}>
                           <SelectTrigger className="w-[180px]">
                             <SelectValue placeholder="Filter by status" />
                           </SelectTrigger>
                           <SelectContent>
                             <SelectItem value="all">All Status</SelectItem>
-                            <SelectItem value="active">Active</SelectItem>
-                            <SelectItem value="pending">Pending</SelectItem>
+                            <SelectItem value="pending_review">Pending Review</SelectItem>
+                            <SelectItem value="approved">Approved</SelectItem>
+                            <SelectItem value="rejected">Rejected</SelectItem>
                             <SelectItem value="suspended">Suspended</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
 
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                        {stores.map((store: any) => (
+                        {filteredStores.map((store) => (
                           <Card key={store.id} className="p-4">
                             <div className="flex items-start space-x-4">
                               <div className="flex-1">
@@ -1001,10 +1428,14 @@ export default function AdminPanel() {
                                 <div className="text-sm text-gray-500">
                                   Phone: {store.phone || 'Not provided'}
                                 </div>
+                                {store.statusReason && store.status !== "approved" && (
+                                  <p className="text-xs text-muted-foreground mt-1">Reason: {store.statusReason}</p>
+                                )}
                                 <div className="mt-2 flex items-center gap-2">
-                                  <Badge variant={store.isActive ? "default" : "secondary"}>
-                                    {store.isActive ? "Active" : "Inactive"}
+                                  <Badge variant={storeStatusVariants[store.status] ?? "secondary"}>
+                                    {storeStatusLabels[store.status] ?? store.status}
                                   </Badge>
+                                  {store.featured && <Badge variant="outline">Featured</Badge>}
                                   <DropdownMenu>
                                     <DropdownMenuTrigger asChild>
                                       <Button variant="ghost" size="sm">
@@ -1012,13 +1443,43 @@ export default function AdminPanel() {
                                       </Button>
                                     </DropdownMenuTrigger>
                                     <DropdownMenuContent>
-                                      <DropdownMenuItem>Edit Store</DropdownMenuItem>
-                                      <DropdownMenuItem>View Products</DropdownMenuItem>
-                                      <DropdownMenuItem>View Orders</DropdownMenuItem>
-                                      <DropdownMenuSeparator />
-                                      <DropdownMenuItem className="text-red-600">
-                                        Suspend Store
+                                      <DropdownMenuItem onClick={() => setDocumentsStore(store)}>
+                                        <FileText className="mr-2 h-4 w-4" />
+                                        View Documents
                                       </DropdownMenuItem>
+                                      {store.status !== "approved" && (
+                                        <DropdownMenuItem
+                                          onClick={() => updateStoreStatusMutation.mutate({ storeId: store.id, status: "approved" })}
+                                        >
+                                          <Unlock className="mr-2 h-4 w-4" />
+                                          {store.status === "suspended" ? "Reinstate Store" : "Approve Store"}
+                                        </DropdownMenuItem>
+                                      )}
+                                      {store.status === "approved" && (
+                                        <DropdownMenuItem
+                                          onClick={() => updateStoreFeaturedMutation.mutate({ storeId: store.id, featured: !store.featured })}
+                                        >
+                                          <Zap className="mr-2 h-4 w-4" />
+                                          {store.featured ? "Unfeature Store" : "Feature Store"}
+                                        </DropdownMenuItem>
+                                      )}
+                                      <DropdownMenuSeparator />
+                                      {store.status === "pending_review" && (
+                                        <DropdownMenuItem
+                                          className="text-red-600"
+                                          onClick={() => setStoreStatusChange({ store, status: "rejected" })}
+                                        >
+                                          Reject Store
+                                        </DropdownMenuItem>
+                                      )}
+                                      {store.status === "approved" && (
+                                        <DropdownMenuItem
+                                          className="text-red-600"
+                                          onClick={() => setStoreStatusChange({ store, status: "suspended" })}
+                                        >
+                                          Suspend Store
+                                        </DropdownMenuItem>
+                                      )}
                                     </DropdownMenuContent>
                                   </DropdownMenu>
                                 </div>
@@ -1027,7 +1488,247 @@ export default function AdminPanel() {
                           </Card>
                         ))}
                       </div>
+                      {filteredStores.length === 0 && (
+                        <p className="text-center text-muted-foreground">No stores found</p>
+                      )}
                     </div>
+
+                    <Dialog
+                      open={!!storeStatusChange}
+                      onOpenChange={(open) => {
+                        if (!open) {
+                          setStoreStatusChange(null);
+                          setStoreStatusReason("");
+                        }
+                      }}
+                    >
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>
+                            {storeStatusChange?.status === "rejected" ? "Reject" : "Suspend"} {storeStatusChange?.store.name}
+                          </DialogTitle>
+                          <DialogDescription>
+                            The store and its products will be hidden from customers. The reason is sent to the owner.
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-2">
+                          <Label htmlFor="store-status-reason">Reason</Label>
+                          <Textarea
+                            id="store-status-reason"
+                            value={storeStatusReason}
+                            onChange={(e) => setStoreStatusReason(e.target.value)}
+                          />
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" onClick={() => setStoreStatusChange(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            disabled={!storeStatusReason.trim() || updateStoreStatusMutation.isPending}
+                            onClick={() =>
+                              storeStatusChange && updateStoreStatusMutation.mutate({
+                                storeId: storeStatusChange.store.id,
+                                status: storeStatusChange.status,
+                                reason: storeStatusReason.trim(),
+                              })
+                            }
+                          >
+                            Confirm
+                          </Button>
+                        </div>
+                      </DialogContent>
+                    </Dialog>
+
+                    <Dialog open={!!documentsStore} onOpenChange={(open) => !open && setDocumentsStore(null)}>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Verification Documents</DialogTitle>
+                          <DialogDescription>{documentsStore?.name}</DialogDescription>
+                        </DialogHeader>
+                        {storeDocuments.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">No documents have been uploaded yet.</p>
+                        ) : (
+                          <div className="space-y-3">
+                            {storeDocuments.map((document) => (
+                              <div key={document.id} className="flex items-center justify-between border rounded-lg p-3">
+                                <div>
+                                  <p className="font-medium">{storeDocumentLabels[document.type] ?? document.type}</p>
+                                  {document.documentNumber && (
+                                    <p className="text-sm text-muted-foreground">No. {document.documentNumber}</p>
+                                  )}
+                                  <a
+                                    href={document.documentUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-sm text-primary underline"
+                                  >
+                                    View document
+                                  </a>
+                                </div>
+                                <Badge variant="outline" className="capitalize">{document.status}</Badge>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </DialogContent>
+                    </Dialog>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
+            {selectedTab === "reviews" && (
+              <div className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <CardTitle>Review Moderation</CardTitle>
+                        <CardDescription>Reported reviews and reviews held by automatic screening</CardDescription>
+                      </div>
+                      <Select value={reviewQueueFilter} onValueChange={setReviewQueueFilter}>
+                        <SelectTrigger className="w-[180px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="reported">Reported</SelectItem>
+                          <SelectItem value="held">Held</SelectItem>
+                          <SelectItem value="hidden">Hidden</SelectItem>
+                          <SelectItem value="published">Published</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {reviewQueue.map((review) => (
+                        <Card key={review.id} className="p-4">
+                          <div className="flex justify-between items-start gap-4">
+                            <div className="flex-1 space-y-1">
+                              <div className="flex items-center gap-2">
+                                <span className="font-semibold">{review.productName}</span>
+                                <span className="text-sm text-yellow-500">{"★".repeat(review.rating)}</span>
+                                <Badge variant={reviewStatusVariants[review.status] ?? "secondary"} className="capitalize">
+                                  {review.status}
+                                </Badge>
+                              </div>
+                              <p className="text-sm text-muted-foreground">
+                                By {review.customerName} · {new Date(review.createdAt).toLocaleDateString()}
+                              </p>
+                              {review.title && <p className="font-medium">{review.title}</p>}
+                              {review.comment && <p className="text-sm whitespace-pre-line">{review.comment}</p>}
+                              {review.moderationReason && (
+                                <p className="text-xs text-muted-foreground">
+                                  Moderation reason: {reviewReasonLabels[review.moderationReason] ?? review.moderationReason}
+                                </p>
+                              )}
+                              {review.openReports.length > 0 && (
+                                <div className="mt-2 border-t pt-2">
+                                  <p className="text-sm font-medium flex items-center gap-1">
+                                    <AlertCircle className="h-4 w-4 text-red-500" />
+                                    {review.openReports.length} open report{review.openReports.length === 1 ? "" : "s"}
+                                  </p>
+                                  <ul className="text-xs text-muted-foreground list-disc pl-5">
+                                    {review.openReports.map((report, index) => (
+                                      <li key={index}>
+                                        {reviewReasonLabels[report.reason] ?? report.reason}
+                                        {report.details && ` — ${report.details}`}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
+                            </div>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="sm">
+                                  <Settings className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent>
+                                {(review.status !== "published" || review.openReports.length > 0) && (
+                                  <DropdownMenuItem
+                                    onClick={() => updateReviewStatusMutation.mutate({ reviewId: review.id, status: "published" })}
+                                  >
+                                    <Eye className="mr-2 h-4 w-4" />
+                                    {review.status === "published" ? "Keep Published" : "Restore Review"}
+                                  </DropdownMenuItem>
+                                )}
+                                {review.status !== "hidden" && (
+                                  <DropdownMenuItem onClick={() => setReviewAction({ review, action: "hide" })}>
+                                    <EyeOff className="mr-2 h-4 w-4" />
+                                    Hide Review
+                                  </DropdownMenuItem>
+                                )}
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  className="text-red-600"
+                                  onClick={() => setReviewAction({ review, action: "delete" })}
+                                >
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  Delete Review
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </div>
+                        </Card>
+                      ))}
+                      {reviewQueue.length === 0 && (
+                        <p className="text-center text-muted-foreground">No reviews need attention</p>
+                      )}
+                    </div>
+
+                    <Dialog open={!!reviewAction} onOpenChange={(open) => !open && closeReviewAction()}>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>
+                            {reviewAction?.action === "delete" ? "Delete" : "Hide"} review of {reviewAction?.review.productName}
+                          </DialogTitle>
+                          <DialogDescription>
+                            {reviewAction?.action === "delete"
+                              ? "The review is removed permanently. The author is told the reason."
+                              : "The review stops counting towards ratings until it is restored. The author is told the reason."}
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-2">
+                          <Label>Reason</Label>
+                          <Select value={reviewActionReason} onValueChange={(value) => setReviewActionReason(value as ReviewReasonCode)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose a reason" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {reviewModerationCodes.map((code) => (
+                                <SelectItem key={code} value={code}>{reviewReasonLabels[code]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" onClick={closeReviewAction}>
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            disabled={!reviewActionReason || updateReviewStatusMutation.isPending || deleteReviewMutation.isPending}
+                            onClick={() => {
+                              if (!reviewAction || !reviewActionReason) return;
+                              if (reviewAction.action === "delete") {
+                                deleteReviewMutation.mutate({ reviewId: reviewAction.review.id, reason: reviewActionReason });
+                              } else {
+                                updateReviewStatusMutation.mutate({
+                                  reviewId: reviewAction.review.id,
+                                  status: "hidden",
+                                  reason: reviewActionReason,
+                                });
+                              }
+                            }}
+                          >
+                            Confirm
+                          </Button>
+                        </div>
+                      </DialogContent>
+                    </Dialog>
                   </CardContent>
                 </Card>
               </div>
@@ -1070,11 +1771,9 @@ export default function AdminPanel() {
                           </SelectTrigger>
                           <SelectContent>
                             <SelectItem value="all">All Status</SelectItem>
-                            <SelectItem value="pending">Pending</SelectItem>
-                            <SelectItem value="processing">Processing</SelectItem>
-                            <SelectItem value="shipped">Shipped</SelectItem>
-                            <SelectItem value="delivered">Delivered</SelectItem>
-                            <SelectItem value="cancelled">Cancelled</SelectItem>
+                            {Object.entries(orderStatusLabels).map(([status, label]) => (
+                              <SelectItem key={status} value={status}>{label}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -3,9 +3,10 @@ import { Minus, Plus, X, ShoppingBag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { useCart } from "@/hooks/useCart";
+import { useCart, cartItemPrice, variantLabel } from "@/hooks/useCart";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { imageUrl } from "@shared/images";
 
 export default function Cart() {
   const { cartItems, updateCartItem, removeFromCart, totalAmount, totalItems, isLoading } = useCart();
@@ -104,7 +105,7 @@ export default function Cart() {
                 {cartItems.map((item) => (
                   <div key={item.id} className="flex items-center space-x-4 p-4 border rounded-lg">
                     <img
-                      src={item.product?.images?.[0] || "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?ixlib=rb-4.0.3&auto=format&fit=crop&w=100&h=100"}
+                      src={imageUrl(item.variant?.images?.[0] || item.product?.images?.[0] || "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?ixlib=rb-4.0.3&auto=format&fit=crop&w=100&h=100", "thumbnail")}
                       alt={item.product?.name || "Product"}
                       className="w-20 h-20 object-cover rounded-lg"
                     />
@@ -113,8 +114,11 @@ export default function Cart() {
                       <h3 className="font-medium text-foreground">
                         {item.product?.name || "Unknown Product"}
                       </h3>
+                      {variantLabel(item.variant) && (
+                        <p className="text-sm text-muted-foreground">{variantLabel(item.variant)}</p>
+                      )}
                       <p className="text-primary font-semibold">
-                        ₹{item.product ? Number(item.product.price).toLocaleString() : 0}
+                        ₹{cartItemPrice(item).toLocaleString()}
                       </p>
                     </div>
                     
@@ -132,7 +136,7 @@ export default function Cart() {
                         variant="outline"
                         size="icon"
                         onClick={() => handleUpdateQuantity(item.id, item.quantity + 1)}
-                        disabled={item.quantity >= (item.product?.stock || 0)}
+                        disabled={item.quantity >= (item.variant?.stock ?? item.product?.stock ?? 0)}
                       >
                         <Plus className="h-4 w-4" />
                       </Button>
@@ -140,7 +144,7 @@ export default function Cart() {
                     
                     <div className="text-right">
                       <p className="font-semibold">
-                        ₹{item.product ? (Number(item.product.price) * item.quantity).toLocaleString() : 0}
+                        ₹{(cartItemPrice(item) * item.quantity).toLocaleString()}
                       </p>
                       <Button
                         variant="ghost"
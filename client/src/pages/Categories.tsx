@@ -1,22 +1,150 @@
-import { Link } from "wouter";
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft } from "lucide-react";
+import {
+  Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { ArrowLeft, Tag } from "lucide-react";
+import ProductCard from "@/components/ProductCard";
+import { useProductListing } from "@/hooks/useProductListing";
+import { buildCategoryTree, type CategoryDetail, type CategoryTreeNode } from "@/lib/categories";
+import type { Category } from "@shared/schema";
+
+function CategoryImage({ category, className }: { category: Category; className: string }) {
+  return category.image ? (
+    <img src={category.image} alt={category.name} className={`${className} object-cover rounded-lg`} />
+  ) : (
+    <div className={`${className} rounded-lg bg-muted flex items-center justify-center`}>
+      <Tag className="h-8 w-8 text-muted-foreground" />
+    </div>
+  );
+}
+
+function SubcategoryLinks({ nodes }: { nodes: CategoryTreeNode[] }) {
+  return (
+    <ul className="space-y-1 pl-3 border-l">
+      {nodes.map((node) => (
+        <li key={node.id}>
+          <Link href={`/categories/${node.id}`} className="text-sm text-muted-foreground hover:text-primary">
+            {node.name}
+          </Link>
+          {node.children.length > 0 && <SubcategoryLinks nodes={node.children} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function CategoryTree() {
+  const { data: categories = [], isLoading } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  if (isLoading) {
+    return <div className="text-center">Loading categories...</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+      {buildCategoryTree(categories).map((category) => (
+        <div key={category.id} className="category-card hover:shadow-lg transition-shadow">
+          <Link href={`/categories/${category.id}`}>
+            <CategoryImage category={category} className="w-full h-28 mb-3" />
+            <div className="font-semibold text-foreground mb-2">{category.name}</div>
+          </Link>
+          {category.children.length > 0 && <SubcategoryLinks nodes={category.children} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Landing page for one category: breadcrumbs, its subcategories and every
+// product in it or below it
+function CategoryLanding({ id }: { id: string }) {
+  const { data: category, isLoading } = useQuery<CategoryDetail>({
+    queryKey: [`/api/categories/${id}`],
+  });
+
+  const { products, total, isFetchingNextPage, loadMoreRef } = useProductListing(
+    { categories: [Number(id)] },
+    !!category,
+  );
+
+  if (isLoading) {
+    return <div className="text-center">Loading category...</div>;
+  }
+
+  if (!category) {
+    return <div className="text-center">Category not found</div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/categories">All Categories</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          {category.path.map((ancestor, index) => (
+            <span key={ancestor.id} className="contents">
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                {index === category.path.length - 1 ? (
+                  <BreadcrumbPage>{ancestor.name}</BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink asChild>
+                    <Link href={`/categories/${ancestor.id}`}>{ancestor.name}</Link>
+                  </BreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+            </span>
+          ))}
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <h1 className="text-3xl font-bold text-foreground">{category.name}</h1>
+
+      {category.children.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+          {category.children.map((child) => (
+            <Link key={child.id} href={`/categories/${child.id}`}>
+              <div className="category-card text-center hover:shadow-lg transition-shadow">
+                <CategoryImage category={child} className="w-full h-20 mb-2" />
+                <div className="text-sm font-semibold text-foreground">{child.name}</div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <p className="text-sm text-muted-foreground mb-4">{total} products</p>
+        {products.length === 0 ? (
+          <div className="bg-card rounded-lg p-12 text-center">
+            <p className="text-muted-foreground">No products in this category yet.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {products.map((product) => (
+                <ProductCard key={product.id} product={product} />
+              ))}
+            </div>
+            <div ref={loadMoreRef} className="text-center py-6 text-sm text-muted-foreground">
+              {isFetchingNextPage && "Loading more products..."}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
 
 export default function Categories() {
-  const categories = [
-    { name: "Food", icon: "🍎", href: "/products?category=1" },
-    { name: "Groceries", icon: "🛒", href: "/products?category=2" },
-    { name: "Fancy Items", icon: "💎", href: "/products?category=3" },
-    { name: "Electronics", icon: "📱", href: "/products?category=4" },
-    { name: "Clothing", icon: "👕", href: "/products?category=5" },
-    { name: "Books", icon: "📚", href: "/products?category=6" },
-    { name: "Sports", icon: "⚽", href: "/products?category=7" },
-    { name: "Beauty", icon: "💄", href: "/products?category=8" },
-    { name: "Toys", icon: "🧸", href: "/products?category=9" },
-    { name: "Health", icon: "🏥", href: "/products?category=10" },
-    { name: "Automotive", icon: "🚗", href: "/products?category=11" },
-    { name: "Garden", icon: "🌱", href: "/products?category=12" },
-  ];
+  const { id } = useParams();
 
   return (
     <div className="min-h-screen bg-background">
@@ -28,20 +156,11 @@ export default function Categories() {
               Back to Home
             </Button>
           </Link>
-          <h1 className="text-3xl font-bold text-foreground">All Categories</h1>
-        </div>
-        
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-6">
-          {categories.map((category) => (
-            <Link key={category.name} href={category.href}>
-              <div className="category-card text-center hover:shadow-lg transition-shadow">
-                <div className="text-4xl mb-4">{category.icon}</div>
-                <div className="text-sm font-semibold text-foreground">{category.name}</div>
-              </div>
-            </Link>
-          ))}
+          {!id && <h1 className="text-3xl font-bold text-foreground">All Categories</h1>}
         </div>
+
+        {id ? <CategoryLanding id={id} /> : <CategoryTree />}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
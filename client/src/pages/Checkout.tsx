@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -12,10 +12,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { useCart } from "@/hooks/useCart";
+import { useCart, cartItemPrice, cartDeliveryFees, variantLabel } from "@/hooks/useCart";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { apiPost } from "@/lib/api";
+import { authFetch } from "@/lib/api";
+import { randomUUID } from "@/lib/utils";
 
 const checkoutSchema = z.object({
   customerName: z.string().min(1, "Name is required"),
@@ -28,14 +29,28 @@ const checkoutSchema = z.object({
 
 type CheckoutForm = z.infer<typeof checkoutSchema>;
 
+// A rejected line from POST /api/orders; index is its position in the request
+interface OrderLineError {
+  index: number;
+  message: string;
+}
+
 export default function Checkout() {
   const [isLoading, setIsLoading] = useState(false);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  const [lineErrors, setLineErrors] = useState<Record<number, string>>({}); // by cart item id
+  // Kept until an order goes through, so a double tap or a retry after a
+  // dropped connection can't place the order twice. A changed cart or
+  // address is a different order and gets a new key
+  const idempotencyKey = useRef<{ key: string; body: string } | null>(null);
   const [, setLocation] = useLocation();
-  const { cartItems, totalAmount, clearCart } = useCart();
+  const { cartItems, totalAmount, clearCart, refreshCart } = useCart();
   const { user } = useAuth();
   const { toast } = useToast();
 
+  const deliveryFees = cartDeliveryFees(cartItems);
+  const deliveryTotal = deliveryFees.reduce((sum, store) => sum + Number(store.deliveryFee), 0);
+
   const form = useForm<CheckoutForm>({
     resolver: zodResolver(checkoutSchema),
     defaultValues: {
@@ -110,28 +125,43 @@ export default function Checkout() {
   };
 
   const onSubmit = async (data: CheckoutForm) => {
-    if (!user || cartItems.length === 0) return;
+    if (!user || cartItems.length === 0 || isLoading) return;
 
     setIsLoading(true);
+    setLineErrors({});
     try {
-      const orderData = {
-        customerId: user.id,
-        totalAmount: totalAmount.toString(),
-        status: "pending",
-        ...data,
-      };
-
+      // The server prices the order itself; the prices shown here only let
+      // it reject the order if they have changed
       const orderItems = cartItems.map(item => ({
         productId: item.productId,
+        variantId: item.variantId,
         quantity: item.quantity,
-        price: item.product?.price || "0",
-        storeId: item.product?.storeId || 0,
+        price: cartItemPrice(item).toFixed(2),
       }));
 
-      await apiPost("/api/orders", {
-        order: orderData,
-        items: orderItems,
+      const body = JSON.stringify({ order: data, items: orderItems });
+      if (idempotencyKey.current?.body !== body) {
+        idempotencyKey.current = { key: randomUUID(), body };
+      }
+      const response = await authFetch("/api/orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey.current.key },
+        body,
       });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({ error: "Unknown error" }));
+        if (result.items?.length) {
+          const errors: Record<number, string> = {};
+          for (const line of result.items as OrderLineError[]) {
+            const item = cartItems[line.index];
+            if (item) errors[item.id] = line.message;
+          }
+          setLineErrors(errors);
+          await refreshCart(); // pick up current prices and stock
+        }
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+      idempotencyKey.current = null;
 
       await clearCart();
       
@@ -144,7 +174,7 @@ export default function Checkout() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to place order. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to place order. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -346,9 +376,15 @@ export default function Checkout() {
                     <div key={item.id} className="flex justify-between text-sm">
                       <div className="flex-1">
                         <span>{item.product?.name || "Unknown Product"}</span>
+                        {variantLabel(item.variant) && (
+                          <span className="text-muted-foreground"> ({variantLabel(item.variant)})</span>
+                        )}
                         <span className="text-muted-foreground"> x{item.quantity}</span>
+                        {lineErrors[item.id] && (
+                          <p className="text-xs text-destructive">{lineErrors[item.id]}</p>
+                        )}
                       </div>
-                      <span>₹{item.product ? (Number(item.product.price) * item.quantity).toLocaleString() : 0}</span>
+                      <span>₹{(cartItemPrice(item) * item.quantity).toLocaleString()}</span>
                     </div>
                   ))}
                   
@@ -359,10 +395,16 @@ export default function Checkout() {
                     <span>₹{totalAmount.toLocaleString()}</span>
                   </div>
                   
-                  <div className="flex justify-between">
-                    <span>Delivery Fee</span>
-                    <span className="text-accent">FREE</span>
-                  </div>
+                  {deliveryFees.map((store) => (
+                    <div key={store.id} className="flex justify-between">
+                      <span>Delivery{deliveryFees.length > 1 ? ` (${store.name})` : " Fee"}</span>
+                      {Number(store.deliveryFee) > 0 ? (
+                        <span>₹{Number(store.deliveryFee).toLocaleString()}</span>
+                      ) : (
+                        <span className="text-accent">FREE</span>
+                      )}
+                    </div>
+                  ))}
                   
                   <div className="flex justify-between">
                     <span>Tax</span>
@@ -373,7 +415,7 @@ export default function Checkout() {
                   
                   <div className="flex justify-between font-semibold text-lg">
                     <span>Total</span>
-                    <span>₹{totalAmount.toLocaleString()}</span>
+                    <span>₹{(totalAmount + deliveryTotal).toLocaleString()}</span>
                   </div>
                 </div>
                 
@@ -31,7 +31,9 @@ import { useToast } from "@/hooks/use-toast";
 import { apiPut } from "@/lib/api";
 import NotificationCenter from "@/components/NotificationCenter";
 import ReturnPolicy from "@/components/ReturnPolicy";
-import type { Order, OrderItem } from "@shared/schema";
+import CancelOrderDialog from "@/components/CancelOrderDialog";
+import type { Order, OrderItem, StoreOrder } from "@shared/schema";
+import { canCustomerCancel, orderStatusLabel } from "@shared/orders";
 
 const profileSchema = z.object({
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
@@ -50,14 +52,31 @@ const addressSchema = z.object({
 
 type AddressForm = z.infer<typeof addressSchema>;
 
+// GET /api/orders/customer/:id: each order with the part every store fulfils
+type CustomerOrderItem = OrderItem & { productName: string };
+type CustomerOrder = Order & {
+  storeOrders: (StoreOrder & { storeName: string; cancellationWindow: string; items: CustomerOrderItem[] })[];
+  items: CustomerOrderItem[];
+};
+
+// An order can be cancelled while every store that hasn't cancelled its
+// part is still within its cancellation window
+const isCancellable = (order: CustomerOrder) => {
+  const active = order.storeOrders.filter((storeOrder) => storeOrder.status !== "cancelled");
+  return active.length > 0 &&
+    active.every((storeOrder) => canCustomerCancel(storeOrder.status, storeOrder.cancellationWindow));
+};
+
+
 export default function CustomerDashboard() {
   const [activeTab, setActiveTab] = useState("orders");
+  const [cancellingOrder, setCancellingOrder] = useState<CustomerOrder | null>(null);
   const { user, logout } = useAuth();
   const { wishlistItems } = useWishlist();
   const { toast } = useToast();
 
   // Queries
-  const { data: orders = [] } = useQuery<(Order & { items: OrderItem[] })[]>({
+  const { data: orders = [] } = useQuery<CustomerOrder[]>({
     queryKey: [`/api/orders/customer/${user?.id}`],
     enabled: !!user,
   });
@@ -105,11 +124,13 @@ export default function CustomerDashboard() {
     switch (status) {
       case "delivered":
         return <CheckCircle className="h-4 w-4 text-green-600" />;
-      case "shipped":
+      case "out_for_delivery":
         return <Truck className="h-4 w-4 text-blue-600" />;
-      case "processing":
+      case "confirmed":
+      case "packed":
         return <Clock className="h-4 w-4 text-yellow-600" />;
       case "cancelled":
+      case "failed_delivery":
         return <XCircle className="h-4 w-4 text-red-600" />;
       default:
         return <Package className="h-4 w-4 text-gray-600" />;
@@ -120,11 +141,10 @@ export default function CustomerDashboard() {
     switch (status) {
       case "delivered":
         return "default";
-      case "shipped":
+      case "out_for_delivery":
         return "secondary";
-      case "processing":
-        return "outline";
       case "cancelled":
+      case "failed_delivery":
         return "destructive";
       default:
         return "outline";
@@ -284,7 +304,7 @@ export default function CustomerDashboard() {
                               <div className="flex items-center space-x-2 mb-2">
                                 {getStatusIcon(order.status)}
                                 <Badge variant={getStatusBadgeVariant(order.status)}>
-                                  {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                                  {orderStatusLabel(order.status)}
                                 </Badge>
                               </div>
                               <p className="font-semibold text-lg">
@@ -295,6 +315,41 @@ export default function CustomerDashboard() {
 
                           <Separator className="my-4" />
 
+                          {/* Each store ships its items separately */}
+                          <div className="space-y-3 mb-4">
+                            {order.storeOrders.map((storeOrder) => (
+                              <div key={storeOrder.id} className="rounded-md bg-muted/50 p-3">
+                                <div className="flex items-center justify-between mb-2">
+                                  <span className="font-medium">{storeOrder.storeName}</span>
+                                  <div className="flex items-center space-x-2">
+                                    {getStatusIcon(storeOrder.status)}
+                                    <Badge variant={getStatusBadgeVariant(storeOrder.status)}>
+                                      {orderStatusLabel(storeOrder.status)}
+                                    </Badge>
+                                  </div>
+                                </div>
+                                {storeOrder.items.map((item) => (
+                                  <div key={item.id} className="flex justify-between text-sm">
+                                    <span>
+                                      {item.productName}
+                                      {item.variantName && <span className="text-muted-foreground"> ({item.variantName})</span>}
+                                      <span className="text-muted-foreground"> x{item.quantity}</span>
+                                    </span>
+                                    <span>₹{(Number(item.price) * item.quantity).toLocaleString()}</span>
+                                  </div>
+                                ))}
+                                <div className="flex justify-between text-sm text-muted-foreground mt-1">
+                                  <span>Delivery</span>
+                                  <span>
+                                    {Number(storeOrder.deliveryFee) > 0
+                                      ? `₹${Number(storeOrder.deliveryFee).toLocaleString()}`
+                                      : "Free"}
+                                  </span>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+
                           <div className="space-y-3">
                             <div>
                               <h4 className="font-medium mb-2">Delivery Address</h4>
@@ -318,12 +373,22 @@ export default function CustomerDashboard() {
                                 Reorder
                               </Button>
                             )}
-                            {order.status !== "delivered" && order.status !== "cancelled" && (
+                            {!["delivered", "cancelled", "returned"].includes(order.status) && (
                               <Button variant="outline" size="sm">
                                 Track Order
                               </Button>
                             )}
+                            {isCancellable(order) && (
+                              <Button variant="destructive" size="sm" onClick={() => setCancellingOrder(order)}>
+                                Cancel Order
+                              </Button>
+                            )}
                           </div>
+                          {order.cancellationReason && (
+                            <p className="text-sm text-muted-foreground mt-3">
+                              Cancelled: {order.cancellationReason}
+                            </p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -551,13 +616,17 @@ export default function CustomerDashboard() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <ReturnPolicy customerId={user.id} orderItems={orders.flatMap(order => order.items)} />
+                  <ReturnPolicy customerId={user.id} orderItems={orders.flatMap(order =>
+                    order.storeOrders.filter(storeOrder => storeOrder.status === "delivered").flatMap(storeOrder => storeOrder.items)
+                  )} />
                 </CardContent>
               </Card>
             )}
           </div>
         </div>
       </div>
+
+      <CancelOrderDialog order={cancellingOrder} onOpenChange={(open) => !open && setCancellingOrder(null)} />
     </div>
   );
 }
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Store } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiPost } from "@/lib/api";
+
+const emailSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+const resetSchema = z.object({
+  code: z.string().length(6, "Enter the 6 digit code"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type EmailForm = z.infer<typeof emailSchema>;
+type ResetForm = z.infer<typeof resetSchema>;
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const emailForm = useForm<EmailForm>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: { email: "" },
+  });
+
+  const resetForm = useForm<ResetForm>({
+    resolver: zodResolver(resetSchema),
+    defaultValues: { code: "", password: "", confirmPassword: "" },
+  });
+
+  const requestCode = async (address: string) => {
+    setIsLoading(true);
+    try {
+      await apiPost("/api/auth/forgot-password", { email: address });
+      setEmail(address);
+      toast({
+        title: "Check your email",
+        description: "If an account exists for that address, we've sent a reset code.",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't send code",
+        description: error instanceof Error ? error.message : "Please try again later",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onReset = async (data: ResetForm) => {
+    setIsLoading(true);
+    try {
+      await apiPost("/api/auth/reset-password", {
+        email,
+        code: data.code,
+        password: data.password,
+      });
+      toast({
+        title: "Password reset",
+        description: "You can now sign in with your new password.",
+      });
+      setLocation("/login");
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: error instanceof Error ? error.message : "Invalid or expired code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-muted flex items-center justify-center py-12">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex items-center justify-center mb-4">
+              <Store className="h-8 w-8 text-primary mr-2" />
+              <span className="text-2xl font-bold text-foreground">Siraha Bazaar</span>
+            </div>
+            <CardTitle className="text-2xl">Reset Password</CardTitle>
+            <p className="text-muted-foreground">
+              {email
+                ? `Enter the code we sent to ${email} and choose a new password`
+                : "Enter your email and we'll send you a code to reset your password"}
+            </p>
+          </CardHeader>
+          <CardContent>
+            {!email ? (
+              <Form {...emailForm}>
+                <form onSubmit={emailForm.handleSubmit((data) => requestCode(data.email))} className="space-y-4">
+                  <FormField
+                    control={emailForm.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email Address</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="Enter your email" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="submit" className="w-full btn-primary" disabled={isLoading}>
+                    {isLoading ? "Sending..." : "Send Reset Code"}
+                  </Button>
+                </form>
+              </Form>
+            ) : (
+              <Form {...resetForm}>
+                <form onSubmit={resetForm.handleSubmit(onReset)} className="space-y-4">
+                  <FormField
+                    control={resetForm.control}
+                    name="code"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reset Code</FormLabel>
+                        <FormControl>
+                          <InputOTP maxLength={6} {...field}>
+                            <InputOTPGroup>
+                              {Array.from({ length: 6 }, (_, index) => (
+                                <InputOTPSlot key={index} index={index} />
+                              ))}
+                            </InputOTPGroup>
+                          </InputOTP>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={resetForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>New Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="Enter a new password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={resetForm.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="Confirm your new password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="submit" className="w-full btn-primary" disabled={isLoading}>
+                    {isLoading ? "Resetting..." : "Reset Password"}
+                  </Button>
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="w-full"
+                    disabled={isLoading}
+                    onClick={() => requestCode(email)}
+                  >
+                    Resend code
+                  </Button>
+                </form>
+              </Form>
+            )}
+
+            <div className="mt-6 text-center">
+              <Link href="/login" className="text-primary hover:underline font-medium">
+                Back to sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
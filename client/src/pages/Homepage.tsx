@@ -4,7 +4,8 @@ import { ArrowRight, Star, MapPin } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import ProductCard from "@/components/ProductCard";
 import StoreCard from "@/components/StoreCard";
-import type { Product, Store } from "@shared/schema";
+import { productListingUrl, type ProductListing } from "@/hooks/useProductListing";
+import type { Store } from "@shared/schema";
 import { Swiper, SwiperSlide } from 'swiper/react';
 import { Navigation, Pagination, Autoplay } from 'swiper/modules';
 import 'swiper/css';
@@ -17,15 +18,15 @@ import Slider3Bg from "../assets/slider3.jpg";
 import { useEffect, useState } from "react";
 
 export default function Homepage() {
-  const { data: products } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  const { data: listing } = useQuery<ProductListing>({
+    queryKey: [productListingUrl({ sort: "popularity", limit: 6 })],
   });
 
   const { data: stores } = useQuery<Store[]>({
     queryKey: ["/api/stores"],
   });
 
-  const featuredProducts = products?.slice(0, 6) || [];
+  const featuredProducts = listing?.products || [];
   const popularStores = stores?.slice(0, 4) || [];
 
   // Countdown logic for Slide 3
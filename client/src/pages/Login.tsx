@@ -3,13 +3,14 @@ import { Link, useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Eye, EyeOff, Store, User } from "lucide-react";
+import { Eye, EyeOff, Store, User, Smartphone, Mail } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import PhoneLoginForm from "@/components/PhoneLoginForm";
 
 const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -21,6 +22,7 @@ type LoginForm = z.infer<typeof loginSchema>;
 export default function Login() {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [usePhone, setUsePhone] = useState(false);
   const [, setLocation] = useLocation();
   const { login } = useAuth();
   const { toast } = useToast();
@@ -36,31 +38,6 @@ export default function Login() {
   const onSubmit = async (data: LoginForm) => {
     setIsLoading(true);
     try {
-      // Check for admin credentials
-      if (data.email === "admin@sirahbazaar.com" && data.password === "admin123") {
-        // Store admin token
-        localStorage.setItem("adminToken", "admin-token-123");
-        // Store admin data
-        const adminData = {
-          id: "1",
-          email: "admin@sirahbazaar.com",
-          fullName: "Admin User",
-          role: "super_admin",
-          permissions: ["all"],
-          lastLogin: new Date().toISOString()
-        };
-        localStorage.setItem("user", JSON.stringify(adminData));
-
-        toast({
-          title: "Welcome back!",
-          description: "You have been successfully logged in as admin.",
-        });
-
-        setLocation("/admin");
-        return;
-      }
-
-      // Regular user login
       await login(data.email, data.password);
 
       toast({
@@ -80,6 +57,16 @@ export default function Login() {
     }
   };
 
+  const onPhoneLogin = (isNewUser: boolean) => {
+    toast({
+      title: isNewUser ? "Welcome to Siraha Bazaar!" : "Welcome back!",
+      description: isNewUser
+        ? "Your account has been created."
+        : "You have been successfully logged in.",
+    });
+    setLocation("/");
+  };
+
   return (
     <div className="min-h-screen bg-muted flex items-center justify-center py-12">
       <div className="w-full max-w-md">
@@ -95,80 +82,103 @@ export default function Login() {
             </p>
           </CardHeader>
           <CardContent>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Email Address</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="email"
-                          placeholder="Enter your email"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Password</FormLabel>
-                      <FormControl>
-                        <div className="relative">
+            {usePhone ? (
+              <PhoneLoginForm onSuccess={onPhoneLogin} />
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email Address</FormLabel>
+                        <FormControl>
                           <Input
-                            type={showPassword ? "text" : "password"}
-                            placeholder="Enter your password"
+                            type="email"
+                            placeholder="Enter your email"
                             {...field}
                           />
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="sm"
-                            className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                            onClick={() => setShowPassword(!showPassword)}
-                          >
-                            {showPassword ? (
-                              <EyeOff className="h-4 w-4" />
-                            ) : (
-                              <Eye className="h-4 w-4" />
-                            )}
-                          </Button>
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-2">
-                    <input
-                      type="checkbox"
-                      id="remember"
-                      className="rounded border-gray-300"
-                    />
-                    <label htmlFor="remember" className="text-sm text-muted-foreground">
-                      Remember me
-                    </label>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Input
+                              type={showPassword ? "text" : "password"}
+                              placeholder="Enter your password"
+                              {...field}
+                            />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                              onClick={() => setShowPassword(!showPassword)}
+                            >
+                              {showPassword ? (
+                                <EyeOff className="h-4 w-4" />
+                              ) : (
+                                <Eye className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="remember"
+                        className="rounded border-gray-300"
+                      />
+                      <label htmlFor="remember" className="text-sm text-muted-foreground">
+                        Remember me
+                      </label>
+                    </div>
+                    <Link href="/forgot-password" className="text-sm text-primary hover:underline">
+                      Forgot password?
+                    </Link>
                   </div>
-                  <a href="#" className="text-sm text-primary hover:underline">
-                    Forgot password?
-                  </a>
-                </div>
 
-                <Button type="submit" className="w-full btn-primary" disabled={isLoading}>
-                  {isLoading ? "Signing in..." : "Sign In"}
-                </Button>
-              </form>
-            </Form>
+                  <Button type="submit" className="w-full btn-primary" disabled={isLoading}>
+                    {isLoading ? "Signing in..." : "Sign In"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full mt-4"
+              onClick={() => setUsePhone(!usePhone)}
+            >
+              {usePhone ? (
+                <>
+                  <Mail className="h-4 w-4 mr-2" />
+                  Sign in with email
+                </>
+              ) : (
+                <>
+                  <Smartphone className="h-4 w-4 mr-2" />
+                  Sign in with phone number
+                </>
+              )}
+            </Button>
 
             <div className="mt-6">
               <div className="text-center">
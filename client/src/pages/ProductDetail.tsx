@@ -1,19 +1,34 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useParams, Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Star, ShoppingCart, Heart, Minus, Plus, MapPin, Store } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import {
+  Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
 import ProductCard from "@/components/ProductCard";
+import ProductReviews from "@/components/ProductReviews";
 import { useCart } from "@/hooks/useCart";
 import { useToast } from "@/hooks/use-toast";
-import type { Product, Store as StoreType } from "@shared/schema";
+import { productListingUrl, type ProductListing } from "@/hooks/useProductListing";
+import type { CategoryDetail } from "@/lib/categories";
+import type { Product, ProductOption, ProductVariant, Store as StoreType } from "@shared/schema";
+import { imageUrl } from "@shared/images";
+import { flashSaleRemaining, isFlashSale, isOfferActive, offerPrice } from "@shared/offers";
+import OfferCountdown from "@/components/OfferCountdown";
+
+interface ProductVariants {
+  options: ProductOption[];
+  variants: ProductVariant[];
+}
 
 export default function ProductDetail() {
   const { id } = useParams();
   const [quantity, setQuantity] = useState(1);
   const [selectedImage, setSelectedImage] = useState(0);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
   const { addToCart } = useCart();
   const { toast } = useToast();
 
@@ -27,16 +42,55 @@ export default function ProductDetail() {
     enabled: !!product?.storeId,
   });
 
-  const { data: relatedProducts = [] } = useQuery<Product[]>({
-    queryKey: [`/api/products`, { category: product?.categoryId }],
+  const { data: variantData } = useQuery<ProductVariants>({
+    queryKey: [`/api/products/${id}/variants`],
+    enabled: !!id,
+  });
+  const options = variantData?.options ?? [];
+  const variants = variantData?.variants ?? [];
+
+  // Preselect the first variant that's in stock
+  useEffect(() => {
+    const initial = variants.find((variant) => variant.stock > 0) ?? variants[0];
+    setSelectedOptions(initial ? { ...initial.optionValues } : {});
+  }, [variantData]);
+
+  const selectedVariant = variants.find((variant) =>
+    options.every((option) => variant.optionValues[option.name] === selectedOptions[option.name])
+  );
+
+  // A value can be picked when some variant has it together with the other current choices
+  const isValueAvailable = (optionName: string, value: string) =>
+    variants.some((variant) =>
+      options.every((option) =>
+        option.name === optionName
+          ? variant.optionValues[option.name] === value
+          : variant.optionValues[option.name] === selectedOptions[option.name]
+      )
+    );
+
+  const selectOption = (optionName: string, value: string) => {
+    setSelectedOptions({ ...selectedOptions, [optionName]: value });
+    setSelectedImage(0);
+    setQuantity(1);
+  };
+
+  const { data: category } = useQuery<CategoryDetail>({
+    queryKey: [`/api/categories/${product?.categoryId}`],
+    enabled: !!product?.categoryId,
+  });
+
+  const { data: relatedListing } = useQuery<ProductListing>({
+    queryKey: [productListingUrl({ categories: product?.categoryId ? [product.categoryId] : [], limit: 5 })],
     enabled: !!product?.categoryId,
   });
+  const relatedProducts = relatedListing?.products ?? [];
 
   const handleAddToCart = async () => {
-    if (!product) return;
+    if (!product || !selectedVariant) return;
     
     try {
-      await addToCart(product.id, quantity);
+      await addToCart(product.id, quantity, selectedVariant.id);
       toast({
         title: "Added to cart",
         description: `${quantity} ${product.name}(s) added to your cart.`,
@@ -71,16 +125,54 @@ export default function ProductDetail() {
     );
   }
 
-  const discount = product.originalPrice 
-    ? Math.round(((Number(product.originalPrice) - Number(product.price)) / Number(product.originalPrice)) * 100)
+  // The chosen variant decides price, stock and (when it has its own) images
+  // and a running offer discounts it, struck through against the regular price
+  const regularPrice = selectedVariant?.price ?? product.price;
+  const onOffer = isOfferActive(product);
+  const price = offerPrice(regularPrice, product);
+  const originalPrice = onOffer ? regularPrice : selectedVariant ? selectedVariant.originalPrice : product.originalPrice;
+  const flashSaleLeft = onOffer && isFlashSale(product) ? flashSaleRemaining(product) : null;
+  const stock = selectedVariant?.stock ?? product.stock ?? 0;
+
+  const discount = originalPrice 
+    ? Math.round(((Number(originalPrice) - Number(price)) / Number(originalPrice)) * 100)
     : 0;
 
-  const images = product.images || ["https://images.unsplash.com/photo-1560472354-b33ff0c44a43?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=800"];
+  const images = selectedVariant?.images?.length
+    ? selectedVariant.images
+    : product.images?.length
+      ? product.images
+      : ["https://images.unsplash.com/photo-1560472354-b33ff0c44a43?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=800"];
   const relatedProductsFiltered = relatedProducts.filter(p => p.id !== product.id).slice(0, 4);
+  const specifications = (category?.attributes ?? []).filter((attribute) => product.attributes?.[attribute.key]);
 
   return (
     <div className="min-h-screen bg-muted">
       <div className="max-w-7xl mx-auto px-4 py-8">
+        <Breadcrumb className="mb-4">
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link href="/">Home</Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            {category?.path.map((ancestor) => (
+              <span key={ancestor.id} className="contents">
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbLink asChild>
+                    <Link href={`/categories/${ancestor.id}`}>{ancestor.name}</Link>
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+              </span>
+            ))}
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>{product.name}</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+
         <div className="bg-card rounded-lg p-6">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Product Images */}
@@ -97,7 +189,7 @@ export default function ProductDetail() {
                   {images.map((image, index) => (
                     <img
                       key={index}
-                      src={image}
+                      src={imageUrl(image, "thumbnail")}
                       alt={`${product.name} ${index + 1}`}
                       className={`w-full h-20 object-cover rounded cursor-pointer border-2 ${
                         selectedImage === index ? "border-primary" : "border-border"
@@ -131,18 +223,31 @@ export default function ProductDetail() {
 
               <div className="flex items-center gap-4 mb-6">
                 <span className="text-3xl font-bold text-foreground">
-                  ₹{Number(product.price).toLocaleString()}
+                  ₹{Number(price).toLocaleString()}
                 </span>
-                {product.originalPrice && (
+                {originalPrice && (
                   <>
                     <span className="text-xl text-muted-foreground line-through">
-                      ₹{Number(product.originalPrice).toLocaleString()}
+                      ₹{Number(originalPrice).toLocaleString()}
                     </span>
                     <Badge variant="destructive">{discount}% OFF</Badge>
                   </>
                 )}
               </div>
 
+              {onOffer && (product.offerEndsAt || flashSaleLeft !== null) && (
+                <div className="flex items-center gap-3 -mt-4 mb-6">
+                  {isFlashSale(product) && <Badge className="bg-red-500 text-white">⚡ Flash Sale</Badge>}
+                  {product.offerEndsAt && <OfferCountdown endsAt={product.offerEndsAt} className="text-sm" />}
+                  {flashSaleLeft !== null && (
+                    <span className="text-sm text-muted-foreground">Only {flashSaleLeft} left at this price</span>
+                  )}
+                  {product.flashSaleLimitPerCustomer !== null && isFlashSale(product) && (
+                    <span className="text-sm text-muted-foreground">Limit {product.flashSaleLimitPerCustomer} per customer</span>
+                  )}
+                </div>
+              )}
+
               {product.description && (
                 <div className="mb-6">
                   <h3 className="font-semibold mb-2">Product Description</h3>
@@ -150,6 +255,45 @@ export default function ProductDetail() {
                 </div>
               )}
 
+              {specifications.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="font-semibold mb-2">Specifications</h3>
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    {specifications.map((attribute) => (
+                      <div key={attribute.key} className="contents">
+                        <dt className="text-muted-foreground">{attribute.label}</dt>
+                        <dd>{product.attributes[attribute.key]}{attribute.unit ? ` ${attribute.unit}` : ""}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+
+              {/* Variant Options */}
+              {options.map((option) => (
+                <div key={option.id} className="mb-6">
+                  <h3 className="font-semibold mb-2">
+                    {option.name}
+                    {selectedOptions[option.name] && (
+                      <span className="font-normal text-muted-foreground">: {selectedOptions[option.name]}</span>
+                    )}
+                  </h3>
+                  <div className="flex flex-wrap gap-2">
+                    {option.values.map((value) => (
+                      <Button
+                        key={value}
+                        variant={selectedOptions[option.name] === value ? "default" : "outline"}
+                        size="sm"
+                        disabled={!isValueAvailable(option.name, value)}
+                        onClick={() => selectOption(option.name, value)}
+                      >
+                        {value}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
               {/* Quantity Selector */}
               <div className="mb-6">
                 <h3 className="font-semibold mb-2">Quantity</h3>
@@ -168,20 +312,24 @@ export default function ProductDetail() {
                       variant="ghost"
                       size="sm"
                       onClick={() => setQuantity(quantity + 1)}
-                      disabled={quantity >= (product.stock || 0)}
+                      disabled={quantity >= stock}
                     >
                       <Plus className="h-4 w-4" />
                     </Button>
                   </div>
                   <span className="text-sm text-muted-foreground">
-                    In Stock: {product.stock} units
+                    {stock > 0 ? `In Stock: ${stock} units` : "Out of stock"}
                   </span>
                 </div>
               </div>
 
               {/* Action Buttons */}
               <div className="flex gap-4 mb-6">
-                <Button onClick={handleAddToCart} className="flex-1 btn-secondary">
+                <Button
+                  onClick={handleAddToCart}
+                  className="flex-1 btn-secondary"
+                  disabled={!selectedVariant || stock <= 0}
+                >
                   <ShoppingCart className="h-4 w-4 mr-2" />
                   Add to Cart
                 </Button>
@@ -219,6 +367,9 @@ export default function ProductDetail() {
             </div>
           </div>
 
+          {/* Reviews */}
+          <ProductReviews productId={product.id} storeOwnerId={store?.ownerId} />
+
           {/* Related Products */}
           {relatedProductsFiltered.length > 0 && (
             <div className="mt-12">
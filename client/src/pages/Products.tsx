@@ -9,17 +9,36 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import ProductCard from "@/components/ProductCard";
-import type { Product, Category } from "@shared/schema";
+import { useProductListing, type ProductSort } from "@/hooks/useProductListing";
+import type { Category } from "@shared/schema";
+
+// Renders a search excerpt, highlighting the [[matched]] words
+function SearchSnippet({ snippet }: { snippet: string }) {
+  return (
+    <p className="text-xs text-muted-foreground mt-2 line-clamp-2">
+      {snippet.split(/(\[\[.*?\]\])/).map((part, i) =>
+        part.startsWith("[[") && part.endsWith("]]")
+          ? <mark key={i} className="bg-yellow-100 text-foreground">{part.slice(2, -2)}</mark>
+          : part
+      )}
+    </p>
+  );
+}
 
 export default function Products() {
   const [location] = useLocation();
   const [searchParams, setSearchParams] = useState(new URLSearchParams(location.split('?')[1] || ''));
-  const [sortBy, setSortBy] = useState("popularity");
+  const [sortBy, setSortBy] = useState<ProductSort>("relevance");
   const [priceRange, setPriceRange] = useState({ min: "", max: "" });
+  const [appliedPriceRange, setAppliedPriceRange] = useState(priceRange);
   const [selectedCategories, setSelectedCategories] = useState<number[]>([]);
+  const [inStockOnly, setInStockOnly] = useState(false);
+  const [onOfferOnly, setOnOfferOnly] = useState(false);
+  const [minRating, setMinRating] = useState(0);
 
   const searchQuery = searchParams.get('search') || '';
-  const categoryQuery = searchParams.get('category');
+  // Relevance is only offered while searching
+  const sort = !searchQuery && sortBy === "relevance" ? "popularity" : sortBy;
 
   useEffect(() => {
     const params = new URLSearchParams(location.split('?')[1] || '');
@@ -31,50 +50,36 @@ export default function Products() {
     }
   }, [location]);
 
-  const { data: products = [], isLoading } = useQuery<Product[]>({
-    queryKey: ["/api/products", { search: searchQuery, category: categoryQuery }],
-    queryFn: async () => {
-      const params = new URLSearchParams();
-      if (searchQuery) params.append('search', searchQuery);
-      if (categoryQuery) params.append('category', categoryQuery);
-      
-      const response = await fetch(`/api/products?${params}`);
-      if (!response.ok) throw new Error('Failed to fetch products');
-      return response.json();
-    },
+  // Wait for the shopper to stop typing before refetching
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedPriceRange(priceRange), 400);
+    return () => clearTimeout(timer);
+  }, [priceRange]);
+
+  const {
+    products,
+    total,
+    facets,
+    isLoading,
+    isFetchingNextPage,
+    loadMoreRef,
+  } = useProductListing({
+    search: searchQuery,
+    categories: selectedCategories,
+    minPrice: appliedPriceRange.min,
+    maxPrice: appliedPriceRange.max,
+    inStock: inStockOnly,
+    onOffer: onOfferOnly,
+    minRating,
+    sort,
   });
 
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
 
-  // Filter and sort products
-  const filteredProducts = products
-    .filter(product => {
-      if (selectedCategories.length > 0 && !selectedCategories.includes(product.categoryId || 0)) {
-        return false;
-      }
-      
-      const price = Number(product.price);
-      if (priceRange.min && price < Number(priceRange.min)) return false;
-      if (priceRange.max && price > Number(priceRange.max)) return false;
-      
-      return true;
-    })
-    .sort((a, b) => {
-      switch (sortBy) {
-        case "price-low":
-          return Number(a.price) - Number(b.price);
-        case "price-high":
-          return Number(b.price) - Number(a.price);
-        case "rating":
-          return Number(b.rating) - Number(a.rating);
-        case "newest":
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-        default:
-          return 0;
-      }
-    });
+  const categoryCount = (categoryId: number) =>
+    facets?.categories.find((facet) => facet.categoryId === categoryId)?.count ?? 0;
 
   const handleCategoryChange = (categoryId: number, checked: boolean) => {
     setSelectedCategories(prev => 
@@ -87,6 +92,9 @@ export default function Products() {
   const clearFilters = () => {
     setSelectedCategories([]);
     setPriceRange({ min: "", max: "" });
+    setInStockOnly(false);
+    setOnOfferOnly(false);
+    setMinRating(0);
   };
 
   const FilterContent = () => (
@@ -108,6 +116,7 @@ export default function Products() {
                 className="text-sm font-normal cursor-pointer"
               >
                 {category.name}
+                <span className="text-muted-foreground ml-1">({categoryCount(category.id)})</span>
               </Label>
             </div>
           ))}
@@ -119,19 +128,62 @@ export default function Products() {
         <div className="space-y-2">
           <Input
             type="number"
-            placeholder="Min price"
+            placeholder={facets?.price.min ? `Min ₹${facets.price.min}` : "Min price"}
             value={priceRange.min}
             onChange={(e) => setPriceRange(prev => ({ ...prev, min: e.target.value }))}
           />
           <Input
             type="number"
-            placeholder="Max price"
+            placeholder={facets?.price.max ? `Max ₹${facets.price.max}` : "Max price"}
             value={priceRange.max}
             onChange={(e) => setPriceRange(prev => ({ ...prev, max: e.target.value }))}
           />
         </div>
       </div>
 
+      <div>
+        <h4 className="font-medium mb-3">Availability</h4>
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="in-stock"
+              checked={inStockOnly}
+              onCheckedChange={(checked) => setInStockOnly(checked as boolean)}
+            />
+            <Label htmlFor="in-stock" className="text-sm font-normal cursor-pointer">
+              In stock only
+              <span className="text-muted-foreground ml-1">({facets?.inStock ?? 0})</span>
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="on-offer"
+              checked={onOfferOnly}
+              onCheckedChange={(checked) => setOnOfferOnly(checked as boolean)}
+            />
+            <Label htmlFor="on-offer" className="text-sm font-normal cursor-pointer">
+              On offer
+              <span className="text-muted-foreground ml-1">({facets?.onOffer ?? 0})</span>
+            </Label>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-3">Customer Rating</h4>
+        <Select value={String(minRating)} onValueChange={(value) => setMinRating(Number(value))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="0">Any rating</SelectItem>
+            <SelectItem value="4">4★ & above</SelectItem>
+            <SelectItem value="3">3★ & above</SelectItem>
+            <SelectItem value="2">2★ & above</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
       <Button onClick={clearFilters} variant="outline" className="w-full">
         Clear Filters
       </Button>
@@ -169,7 +221,7 @@ export default function Products() {
                   {searchQuery ? `Search Results for "${searchQuery}"` : "All Products"}
                 </h2>
                 <p className="text-sm text-muted-foreground">
-                  Showing {filteredProducts.length} products
+                  Showing {products.length} of {total} products
                 </p>
               </div>
               
@@ -193,11 +245,12 @@ export default function Products() {
                 </Sheet>
 
                 {/* Sort */}
-                <Select value={sortBy} onValueChange={setSortBy}>
+                <Select value={sort} onValueChange={(value) => setSortBy(value as ProductSort)}>
                   <SelectTrigger className="w-48">
                     <SelectValue placeholder="Sort by" />
                   </SelectTrigger>
                   <SelectContent>
+                    {searchQuery && <SelectItem value="relevance">Relevance</SelectItem>}
                     <SelectItem value="popularity">Popularity</SelectItem>
                     <SelectItem value="price-low">Price: Low to High</SelectItem>
                     <SelectItem value="price-high">Price: High to Low</SelectItem>
@@ -209,16 +262,24 @@ export default function Products() {
             </div>
 
             {/* Products Grid */}
-            {filteredProducts.length === 0 ? (
+            {products.length === 0 ? (
               <div className="bg-card rounded-lg p-12 text-center">
                 <p className="text-muted-foreground">No products found matching your criteria.</p>
               </div>
             ) : (
-              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                {filteredProducts.map((product) => (
-                  <ProductCard key={product.id} product={product} />
-                ))}
-              </div>
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                  {products.map((product) => (
+                    <div key={product.id}>
+                      <ProductCard product={product} />
+                      {product.snippet && <SearchSnippet snippet={product.snippet} />}
+                    </div>
+                  ))}
+                </div>
+                <div ref={loadMoreRef} className="text-center py-6 text-sm text-muted-foreground">
+                  {isFetchingNextPage && "Loading more products..."}
+                </div>
+              </>
             )}
           </div>
         </div>
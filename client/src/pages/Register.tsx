@@ -56,10 +56,10 @@ export default function Register() {
 
       toast({
         title: "Account created successfully!",
-        description: "Welcome to Siraha Bazaar. You are now logged in.",
+        description: "We've emailed you a code to verify your email address.",
       });
 
-      setLocation("/");
+      setLocation("/verify-email");
     } catch (error) {
       toast({
         title: "Registration failed",
@@ -18,7 +18,8 @@ import {
   MapPin,
   X,
   Camera,
-  Upload
+  Upload,
+  Layers
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -31,9 +32,23 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { apiPost, apiPut, apiDelete } from "@/lib/api";
+import { apiPost, apiPut, apiDelete, authFetch, uploadImages } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
-import type { Product, Order, OrderItem, Store, Category } from "@shared/schema";
+import type { Product, Order, StoreOrder, OrderItem, Store, Category } from "@shared/schema";
+import StoreVerification from "@/components/StoreVerification";
+import ProductVariantsEditor from "@/components/ProductVariantsEditor";
+import ProductImagesEditor from "@/components/ProductImagesEditor";
+import ProductImportExport from "@/components/ProductImportExport";
+import InventoryManager from "@/components/InventoryManager";
+import OrderSettings from "@/components/OrderSettings";
+import { buildCategoryTree, flattenCategoryTree, type CategoryDetail } from "@/lib/categories";
+import { imageUrl, isUploadedImage } from "@shared/images";
+import { nextStatuses, orderStatusLabel } from "@shared/orders";
+
+// GET /api/orders/store/:storeId: this store's part of each order
+type StoreOrderView = StoreOrder &
+  Pick<Order, "customerName" | "phone" | "shippingAddress" | "paymentMethod" | "latitude" | "longitude"> &
+  { items: OrderItem[] };
 
 const productSchema = z.object({
   name: z.string().min(1, "Product name is required"),
@@ -42,20 +57,29 @@ const productSchema = z.object({
   originalPrice: z.string().optional(),
   categoryId: z.number().min(1, "Category is required"),
   stock: z.number().min(0, "Stock must be 0 or greater"),
-  imageUrl: z.string().url("Please enter a valid image URL").optional(),
   images: z.array(z.string()).default([]),
   isFastSell: z.boolean().default(false),
   isOnOffer: z.boolean().default(false),
   offerPercentage: z.number().min(0).max(100).default(0),
-  offerEndDate: z.string().optional(),
+  offerStartsAt: z.string().optional(),
+  offerEndsAt: z.string().optional(),
+  flashSaleQuantity: z.number().int().min(1).optional(),
+  flashSaleLimitPerCustomer: z.number().int().min(1).optional(),
   specifications: z.array(z.object({
     key: z.string(),
     value: z.string()
   })).default([]),
   features: z.array(z.string()).default([]),
-  tags: z.array(z.string()).default([])
+  tags: z.array(z.string()).default([]),
+  attributes: z.record(z.string()).default({})
 });
 
+// Pasted image URLs or ones returned by an upload
+const imageField = (message: string) => z.string().optional().refine(
+  (value) => !value || isUploadedImage(value) || z.string().url().safeParse(value).success,
+  message,
+);
+
 const storeSchema = z.object({
   name: z.string().min(1, "Store name is required"),
   description: z.string().optional(),
@@ -63,23 +87,30 @@ const storeSchema = z.object({
   latitude: z.string().optional(),
   longitude: z.string().optional(),
   phone: z.string().optional(),
-  logo: z.string().url("Please enter a valid logo URL").optional(),
-  coverImage: z.string().url("Please enter a valid cover image URL").optional(),
+  logo: imageField("Please enter a valid logo URL"),
+  coverImage: imageField("Please enter a valid cover image URL"),
   googleMapsLink: z.string().optional(),
 });
 
 type ProductForm = z.infer<typeof productSchema>;
+
+// Value for a datetime-local input, in the browser's time zone
+function toDateTimeLocal(value: Date | string | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
 type StoreForm = z.infer<typeof storeSchema>;
 
 export default function ShopkeeperDashboard() {
   const [activeTab, setActiveTab] = useState("overview");
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [variantsProduct, setVariantsProduct] = useState<Product | null>(null);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
   const { user } = useAuth();
   const { toast } = useToast();
   const [showCamera, setShowCamera] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
 
   // Check if user is a store owner
   if (!user || user.role !== "store_owner") {
@@ -96,13 +127,13 @@ export default function ShopkeeperDashboard() {
   }
 
   // Queries
+  // The owner endpoint also returns stores that are still under review
   const { data: stores = [] } = useQuery<Store[]>({
-    queryKey: [`/api/stores`, { ownerId: user?.id }],
+    queryKey: ["/api/stores", "owner", user?.id],
     queryFn: async () => {
-      const response = await fetch(`/api/stores`);
+      const response = await authFetch(`/api/stores/owner/${user?.id}`);
       if (!response.ok) throw new Error('Failed to fetch stores');
-      const allStores = await response.json();
-      return allStores.filter((store: Store) => store.ownerId === user?.id);
+      return response.json();
     },
     enabled: !!user,
   });
@@ -113,18 +144,18 @@ export default function ShopkeeperDashboard() {
     queryKey: [`/api/products/store/${currentStore?.id}`],
     queryFn: async () => {
       if (!currentStore?.id) return [];
-      const response = await fetch(`/api/products/store/${currentStore.id}`);
+      const response = await authFetch(`/api/stores/${currentStore.id}/products`);
       if (!response.ok) throw new Error('Failed to fetch store products');
       return response.json();
     },
     enabled: !!currentStore,
   });
 
-  const { data: orders = [] } = useQuery<(Order & { items: OrderItem[] })[]>({
+  const { data: orders = [] } = useQuery<StoreOrderView[]>({
     queryKey: [`/api/orders/store/${currentStore?.id}`],
     queryFn: async () => {
       if (!currentStore?.id) return [];
-      const response = await fetch(`/api/orders/store/${currentStore.id}`);
+      const response = await authFetch(`/api/orders/store/${currentStore.id}`);
       if (!response.ok) throw new Error('Failed to fetch store orders');
       return response.json();
     },
@@ -152,18 +183,29 @@ export default function ShopkeeperDashboard() {
       originalPrice: "",
       categoryId: 1,
       stock: 0,
-      imageUrl: "",
       images: [],
       isFastSell: false,
       isOnOffer: false,
       offerPercentage: 0,
-      offerEndDate: "",
+      offerStartsAt: "",
+      offerEndsAt: "",
+      flashSaleQuantity: undefined,
+      flashSaleLimitPerCustomer: undefined,
       specifications: [],
       features: [],
       tags: [],
+      attributes: {},
     },
   });
 
+  // Attributes the chosen category (or its parents) asks products to fill in
+  const selectedCategoryId = form.watch("categoryId");
+  const { data: selectedCategory } = useQuery<CategoryDetail>({
+    queryKey: [`/api/categories/${selectedCategoryId}`],
+    enabled: !!selectedCategoryId,
+  });
+  const categoryAttributes = selectedCategory?.attributes ?? [];
+
   // Form for creating stores
   const storeForm = useForm<StoreForm>({
     resolver: zodResolver(storeSchema),
@@ -192,11 +234,14 @@ export default function ShopkeeperDashboard() {
         storeId: currentStore.id,
         price: data.price,
         originalPrice: data.originalPrice || undefined,
-        images: data.imageUrl ? [data.imageUrl] : [],
+        images: data.images.filter(Boolean),
         isFastSell: data.isFastSell || false,
-        isOnOffer: data.isOnOffer || false,
-        offerPercentage: data.offerPercentage || 0,
-        offerEndDate: data.offerEndDate || undefined,
+        // Unticking "Special Offer" removes the offer; the server decides when it runs
+        offerPercentage: data.isOnOffer ? data.offerPercentage || 0 : 0,
+        offerStartsAt: data.isOnOffer && data.offerStartsAt ? new Date(data.offerStartsAt).toISOString() : null,
+        offerEndsAt: data.isOnOffer && data.offerEndsAt ? new Date(data.offerEndsAt).toISOString() : null,
+        flashSaleQuantity: data.isFastSell ? data.flashSaleQuantity ?? null : null,
+        flashSaleLimitPerCustomer: data.isFastSell ? data.flashSaleLimitPerCustomer ?? null : null,
         specifications: data.specifications || [],
         features: data.features || [],
         tags: data.tags || [],
@@ -233,15 +278,18 @@ export default function ShopkeeperDashboard() {
       originalPrice: product.originalPrice || "",
       categoryId: product.categoryId || 0,
       stock: product.stock || 0,
-      imageUrl: product.images?.[0] || "",
       images: product.images || [],
       isFastSell: product.isFastSell || false,
-      isOnOffer: product.isOnOffer || false,
+      isOnOffer: (product.offerPercentage ?? 0) > 0,
       offerPercentage: product.offerPercentage || 0,
-      offerEndDate: product.offerEndDate || "",
+      offerStartsAt: toDateTimeLocal(product.offerStartsAt),
+      offerEndsAt: toDateTimeLocal(product.offerEndsAt),
+      flashSaleQuantity: product.flashSaleQuantity ?? undefined,
+      flashSaleLimitPerCustomer: product.flashSaleLimitPerCustomer ?? undefined,
       specifications: product.specifications || [],
       features: product.features || [],
       tags: product.tags || [],
+      attributes: product.attributes || {},
     });
     setActiveTab("add-product");
   };
@@ -374,14 +422,18 @@ export default function ShopkeeperDashboard() {
     }
   };
 
-  const handleOrderStatusUpdate = async (orderId: number, status: string) => {
+  const handleOrderStatusUpdate = async (storeOrderId: number, status: string) => {
     try {
-      await apiPut(`/api/orders/${orderId}/status`, { status });
+      await apiPut(`/api/store-orders/${storeOrderId}/status`, { status });
       toast({ title: "Order status updated successfully" });
+      // Cancelling puts stock back
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/store/${currentStore?.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/stores/${currentStore?.id}/inventory`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/stores/${currentStore?.id}/inventory/movements`] });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update order status",
+        description: error instanceof Error ? error.message : "Failed to update order status",
         variant: "destructive",
       });
     }
@@ -403,6 +455,7 @@ export default function ShopkeeperDashboard() {
     }
   };
 
+  // Uploads the current camera frame and adds it to the product's images
   const captureImage = () => {
     if (videoRef.current) {
       const canvas = document.createElement('canvas');
@@ -411,8 +464,19 @@ export default function ShopkeeperDashboard() {
       const ctx = canvas.getContext('2d');
       if (ctx) {
         ctx.drawImage(videoRef.current, 0, 0);
-        const imageUrl = canvas.toDataURL('image/jpeg');
-        setCapturedImage(imageUrl);
+        canvas.toBlob(async (blob) => {
+          if (!blob) return;
+          try {
+            const [uploaded] = await uploadImages([blob]);
+            form.setValue("images", [...(form.getValues("images") || []), uploaded.large]);
+          } catch (error) {
+            toast({
+              title: "Error",
+              description: error instanceof Error ? error.message : "Failed to upload photo",
+              variant: "destructive",
+            });
+          }
+        }, 'image/jpeg', 0.9);
         setShowCamera(false);
         // Stop the camera stream
         const stream = videoRef.current.srcObject as MediaStream;
@@ -421,19 +485,18 @@ export default function ShopkeeperDashboard() {
     }
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files) return;
-
-    for (const file of Array.from(files)) {
-      // Convert file to base64
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        const currentImages = form.getValues("images") || [];
-        form.setValue("images", [...currentImages, base64String]);
-      };
-      reader.readAsDataURL(file);
+  const handleStoreImageUpload = async (field: "logo" | "coverImage", files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    try {
+      const [uploaded] = await uploadImages([files[0]], "stores");
+      storeForm.setValue(field, uploaded.large, { shouldValidate: true });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload image",
+        variant: "destructive",
+      });
     }
   };
 
@@ -450,7 +513,7 @@ export default function ShopkeeperDashboard() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className={`grid w-full ${currentStore ? 'grid-cols-4' : 'grid-cols-2'}`}>
+          <TabsList className={`grid w-full ${currentStore ? 'grid-cols-5' : 'grid-cols-2'}`}>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             {!currentStore && (
               <TabsTrigger value="create-store">Create Store</TabsTrigger>
@@ -461,6 +524,7 @@ export default function ShopkeeperDashboard() {
                 <TabsTrigger value="add-product">
                   {editingProduct ? "Edit Product" : "Add Product"}
                 </TabsTrigger>
+                <TabsTrigger value="inventory">Inventory</TabsTrigger>
                 <TabsTrigger value="orders">Orders</TabsTrigger>
               </>
             )}
@@ -468,6 +532,8 @@ export default function ShopkeeperDashboard() {
 
           {/* Overview Tab */}
           <TabsContent value="overview" className="space-y-6">
+            {currentStore && <StoreVerification store={currentStore} />}
+
             {/* Stats Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               <Card>
@@ -519,6 +585,8 @@ export default function ShopkeeperDashboard() {
               </Card>
             </div>
 
+            {currentStore && <OrderSettings store={currentStore} />}
+
             {/* Recent Orders */}
             <Card>
               <CardHeader>
@@ -534,7 +602,7 @@ export default function ShopkeeperDashboard() {
                     {orders.slice(0, 5).map((order) => (
                       <div key={order.id} className="flex items-center justify-between p-4 border rounded-lg">
                         <div>
-                          <p className="font-medium">Order #{order.id}</p>
+                          <p className="font-medium">Order #{order.orderId}</p>
                           <p className="text-sm text-muted-foreground">{order.customerName}</p>
                           <p className="text-sm text-muted-foreground">
                             {new Date(order.createdAt).toLocaleDateString()}
@@ -544,10 +612,10 @@ export default function ShopkeeperDashboard() {
                           <p className="font-semibold">₹{Number(order.totalAmount).toLocaleString()}</p>
                           <Badge variant={
                             order.status === "delivered" ? "default" :
-                              order.status === "shipped" ? "secondary" :
-                                order.status === "processing" ? "outline" : "destructive"
+                              order.status === "out_for_delivery" ? "secondary" :
+                                ["cancelled", "failed_delivery"].includes(order.status) ? "destructive" : "outline"
                           }>
-                            {order.status}
+                            {orderStatusLabel(order.status)}
                           </Badge>
                         </div>
                       </div>
@@ -705,10 +773,28 @@ export default function ShopkeeperDashboard() {
                         name="logo"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Store Logo URL</FormLabel>
-                            <FormControl>
-                              <Input placeholder="https://example.com/logo.png" {...field} />
-                            </FormControl>
+                            <FormLabel>Store Logo</FormLabel>
+                            <div className="flex gap-2">
+                              <FormControl>
+                                <Input placeholder="https://example.com/logo.png" {...field} />
+                              </FormControl>
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="icon"
+                                title="Upload"
+                                onClick={() => document.getElementById("logo-upload")?.click()}
+                              >
+                                <Upload className="h-4 w-4" />
+                              </Button>
+                              <input
+                                id="logo-upload"
+                                type="file"
+                                accept="image/jpeg,image/png,image/webp"
+                                className="hidden"
+                                onChange={(e) => handleStoreImageUpload("logo", e.target.files)}
+                              />
+                            </div>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -719,10 +805,28 @@ export default function ShopkeeperDashboard() {
                         name="coverImage"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Cover Image URL</FormLabel>
-                            <FormControl>
-                              <Input placeholder="https://example.com/cover.jpg" {...field} />
-                            </FormControl>
+                            <FormLabel>Cover Image</FormLabel>
+                            <div className="flex gap-2">
+                              <FormControl>
+                                <Input placeholder="https://example.com/cover.jpg" {...field} />
+                              </FormControl>
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="icon"
+                                title="Upload"
+                                onClick={() => document.getElementById("coverImage-upload")?.click()}
+                              >
+                                <Upload className="h-4 w-4" />
+                              </Button>
+                              <input
+                                id="coverImage-upload"
+                                type="file"
+                                accept="image/jpeg,image/png,image/webp"
+                                className="hidden"
+                                onChange={(e) => handleStoreImageUpload("coverImage", e.target.files)}
+                              />
+                            </div>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -764,7 +868,7 @@ export default function ShopkeeperDashboard() {
                     {products.map((product) => (
                       <div key={product.id} className="flex items-center space-x-4 p-4 border rounded-lg">
                         <img
-                          src={product.images?.[0] || "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?ixlib=rb-4.0.3&auto=format&fit=crop&w=100&h=100"}
+                          src={product.images?.[0] ? imageUrl(product.images[0], "thumbnail") : "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?ixlib=rb-4.0.3&auto=format&fit=crop&w=100&h=100"}
                           alt={product.name}
                           className="w-16 h-16 object-cover rounded-lg"
                         />
@@ -787,6 +891,17 @@ export default function ShopkeeperDashboard() {
                                 🏷️ {product.offerPercentage}% OFF
                               </Badge>
                             )}
+                            {!product.isOnOffer && (product.offerPercentage ?? 0) > 0 && product.offerStartsAt
+                              && new Date(product.offerStartsAt) > new Date() && (
+                              <Badge variant="outline" className="text-xs">
+                                Offer starts {new Date(product.offerStartsAt).toLocaleString()}
+                              </Badge>
+                            )}
+                            {product.isFastSell && product.flashSaleQuantity !== null && (
+                              <Badge variant="outline" className="text-xs">
+                                {product.flashSaleSold}/{product.flashSaleQuantity} sold
+                              </Badge>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
@@ -800,6 +915,14 @@ export default function ShopkeeperDashboard() {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Variants"
+                            onClick={() => setVariantsProduct(product)}
+                          >
+                            <Layers className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -814,6 +937,8 @@ export default function ShopkeeperDashboard() {
                 )}
               </CardContent>
             </Card>
+
+            {currentStore && <ProductImportExport storeId={currentStore.id} />}
           </TabsContent>
 
           {/* Add/Edit Product Tab */}
@@ -858,9 +983,9 @@ export default function ShopkeeperDashboard() {
                                 </SelectTrigger>
                               </FormControl>
                               <SelectContent>
-                                {categories.map((category) => (
+                                {flattenCategoryTree(buildCategoryTree(categories)).map(({ category, depth }) => (
                                   <SelectItem key={category.id} value={category.id.toString()}>
-                                    {category.name}
+                                    <span style={{ paddingLeft: depth * 12 }}>{category.name}</span>
                                   </SelectItem>
                                 ))}
                               </SelectContent>
@@ -918,43 +1043,70 @@ export default function ShopkeeperDashboard() {
                       />
                     </div>
 
+                    {categoryAttributes.length > 0 && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        {categoryAttributes.map((attribute) => (
+                          <FormField
+                            key={attribute.key}
+                            control={form.control}
+                            name={`attributes.${attribute.key}`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>
+                                  {attribute.label}
+                                  {attribute.unit && ` (${attribute.unit})`}
+                                  {attribute.required && " *"}
+                                </FormLabel>
+                                {attribute.type === "select" ? (
+                                  <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                                    <FormControl>
+                                      <SelectTrigger>
+                                        <SelectValue placeholder={`Select ${attribute.label.toLowerCase()}`} />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {attribute.options.map((option) => (
+                                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <FormControl>
+                                    <Input
+                                      type={attribute.type === "number" ? "number" : "text"}
+                                      {...field}
+                                      value={field.value ?? ""}
+                                    />
+                                  </FormControl>
+                                )}
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                      </div>
+                    )}
+
                     <div className="space-y-4">
                       <FormField
                         control={form.control}
-                        name="imageUrl"
+                        name="images"
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel>Product Images</FormLabel>
                             <FormControl>
                               <div className="space-y-4">
-                                <div className="flex gap-4">
-                                  <Button
-                                    type="button"
-                                    variant="outline"
-                                    onClick={handleCameraCapture}
-                                    className="flex-1"
-                                  >
-                                    <Camera className="h-4 w-4 mr-2" />
-                                    Take Photo
-                                  </Button>
-                                  <Button
-                                    type="button"
-                                    variant="outline"
-                                    onClick={() => document.getElementById('file-upload')?.click()}
-                                    className="flex-1"
-                                  >
-                                    <Upload className="h-4 w-4 mr-2" />
-                                    Upload Image
-                                  </Button>
-                                  <input
-                                    id="file-upload"
-                                    type="file"
-                                    accept="image/*"
-                                    multiple
-                                    className="hidden"
-                                    onChange={handleFileUpload}
-                                  />
-                                </div>
+                                <ProductImagesEditor images={field.value} onChange={field.onChange} />
+
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  onClick={handleCameraCapture}
+                                  className="w-full"
+                                >
+                                  <Camera className="h-4 w-4 mr-2" />
+                                  Take Photo
+                                </Button>
 
                                 {showCamera && (
                                   <div className="relative">
@@ -973,100 +1125,6 @@ export default function ShopkeeperDashboard() {
                                     </Button>
                                   </div>
                                 )}
-
-                                {capturedImage && (
-                                  <div className="relative">
-                                    <img
-                                      src={capturedImage}
-                                      alt="Captured"
-                                      className="w-full h-64 object-cover rounded-lg"
-                                    />
-                                    <Button
-                                      type="button"
-                                      variant="destructive"
-                                      size="icon"
-                                      className="absolute top-2 right-2"
-                                      onClick={() => setCapturedImage(null)}
-                                    >
-                                      <X className="h-4 w-4" />
-                                    </Button>
-                                  </div>
-                                )}
-
-                                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                                  {form.getValues("images")?.map((image, index) => (
-                                    <div key={index} className="relative">
-                                      <img
-                                        src={image}
-                                        alt={`Product ${index + 1}`}
-                                        className="w-full h-32 object-cover rounded-lg"
-                                      />
-                                      <Button
-                                        type="button"
-                                        variant="destructive"
-                                        size="icon"
-                                        className="absolute top-2 right-2"
-                                        onClick={() => {
-                                          const currentImages = form.getValues("images") || [];
-                                          form.setValue(
-                                            "images",
-                                            currentImages.filter((_, i) => i !== index)
-                                          );
-                                        }}
-                                      >
-                                        <X className="h-4 w-4" />
-                                      </Button>
-                                    </div>
-                                  ))}
-                                </div>
-                              </div>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <FormField
-                        control={form.control}
-                        name="images"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Additional Image URLs</FormLabel>
-                            <FormControl>
-                              <div className="space-y-2">
-                                {field.value.map((url, index) => (
-                                  <div key={index} className="flex gap-2">
-                                    <Input
-                                      type="url"
-                                      placeholder="https://example.com/image.jpg"
-                                      value={url}
-                                      onChange={(e) => {
-                                        const newUrls = [...field.value];
-                                        newUrls[index] = e.target.value;
-                                        field.onChange(newUrls);
-                                      }}
-                                    />
-                                    <Button
-                                      type="button"
-                                      variant="outline"
-                                      size="icon"
-                                      onClick={() => {
-                                        const newUrls = field.value.filter((_, i) => i !== index);
-                                        field.onChange(newUrls);
-                                      }}
-                                    >
-                                      <Trash2 className="h-4 w-4" />
-                                    </Button>
-                                  </div>
-                                ))}
-                                <Button
-                                  type="button"
-                                  variant="outline"
-                                  onClick={() => field.onChange([...field.value, ""])}
-                                >
-                                  <Plus className="h-4 w-4 mr-2" />
-                                  Add Image URL
-                                </Button>
                               </div>
                             </FormControl>
                             <FormMessage />
@@ -1264,7 +1322,7 @@ export default function ShopkeeperDashboard() {
                                   Fast Sell Product
                                 </FormLabel>
                                 <div className="text-sm text-muted-foreground">
-                                  Mark as fast-selling/trending item
+                                  Run its offer as a flash sale with an optional quantity cap
                                 </div>
                               </div>
                               <FormControl>
@@ -1289,7 +1347,7 @@ export default function ShopkeeperDashboard() {
                                   Special Offer
                                 </FormLabel>
                                 <div className="text-sm text-muted-foreground">
-                                  Apply discount offer
+                                  Discount the price for a set period
                                 </div>
                               </div>
                               <FormControl>
@@ -1330,20 +1388,78 @@ export default function ShopkeeperDashboard() {
 
                           <FormField
                             control={form.control}
-                            name="offerEndDate"
+                            name="offerStartsAt"
                             render={({ field }) => (
                               <FormItem>
-                                <FormLabel>Offer End Date</FormLabel>
+                                <FormLabel>Offer Starts</FormLabel>
                                 <FormControl>
-                                  <Input
-                                    type="date"
-                                    {...field}
-                                  />
+                                  <Input type="datetime-local" {...field} />
                                 </FormControl>
+                                <div className="text-xs text-muted-foreground">Leave empty to start now</div>
                                 <FormMessage />
                               </FormItem>
                             )}
                           />
+
+                          <FormField
+                            control={form.control}
+                            name="offerEndsAt"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Offer Ends</FormLabel>
+                                <FormControl>
+                                  <Input type="datetime-local" {...field} />
+                                </FormControl>
+                                <div className="text-xs text-muted-foreground">Leave empty to run until removed</div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          {form.watch("isFastSell") && (
+                            <>
+                              <FormField
+                                control={form.control}
+                                name="flashSaleQuantity"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Flash Sale Quantity</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        min="1"
+                                        placeholder="No cap"
+                                        value={field.value ?? ""}
+                                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                                      />
+                                    </FormControl>
+                                    <div className="text-xs text-muted-foreground">Units sold at the sale price before it ends</div>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <FormField
+                                control={form.control}
+                                name="flashSaleLimitPerCustomer"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Limit Per Customer</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        min="1"
+                                        placeholder="No limit"
+                                        value={field.value ?? ""}
+                                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                                      />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </>
+                          )}
                         </div>
                       )}
                     </div>
@@ -1371,6 +1487,11 @@ export default function ShopkeeperDashboard() {
             </Card>
           </TabsContent>
 
+          {/* Inventory Tab */}
+          <TabsContent value="inventory" className="space-y-6">
+            {currentStore && <InventoryManager storeId={currentStore.id} />}
+          </TabsContent>
+
           {/* Orders Tab */}
           <TabsContent value="orders" className="space-y-6">
             <Card>
@@ -1389,7 +1510,7 @@ export default function ShopkeeperDashboard() {
                       <div key={order.id} className="border rounded-lg p-4">
                         <div className="flex items-center justify-between mb-4">
                           <div>
-                            <h3 className="font-semibold">Order #{order.id}</h3>
+                            <h3 className="font-semibold">Order #{order.orderId}</h3>
                             <p className="text-sm text-muted-foreground">
                               {order.customerName} • {order.phone}
                             </p>
@@ -1401,19 +1522,26 @@ export default function ShopkeeperDashboard() {
                             <p className="font-semibold text-lg">
                               ₹{Number(order.totalAmount).toLocaleString()}
                             </p>
+                            {Number(order.deliveryFee) > 0 && (
+                              <p className="text-xs text-muted-foreground mb-1">
+                                incl. ₹{Number(order.deliveryFee).toLocaleString()} delivery
+                              </p>
+                            )}
+                            {/* Only the changes the store may make from here */}
                             <Select
                               value={order.status}
                               onValueChange={(value) => handleOrderStatusUpdate(order.id, value)}
+                              disabled={nextStatuses("store", order.status).length === 0}
                             >
-                              <SelectTrigger className="w-32">
+                              <SelectTrigger className="w-40">
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="pending">Pending</SelectItem>
-                                <SelectItem value="processing">Processing</SelectItem>
-                                <SelectItem value="shipped">Shipped</SelectItem>
-                                <SelectItem value="delivered">Delivered</SelectItem>
-                                <SelectItem value="cancelled">Cancelled</SelectItem>
+                                {[order.status, ...nextStatuses("store", order.status)].map((status) => (
+                                  <SelectItem key={status} value={status} disabled={status === order.status}>
+                                    {orderStatusLabel(status)}
+                                  </SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </div>
@@ -1421,6 +1549,18 @@ export default function ShopkeeperDashboard() {
 
                         <Separator className="my-3" />
 
+                        <div className="space-y-1 mb-3">
+                          {order.items.map((item) => (
+                            <div key={item.id} className="flex justify-between text-sm">
+                              <span>
+                                {item.quantity} × {products.find((product) => product.id === item.productId)?.name ?? `Product #${item.productId}`}
+                                {item.variantName && <span className="text-muted-foreground"> ({item.variantName})</span>}
+                              </span>
+                              <span>₹{(Number(item.price) * item.quantity).toLocaleString()}</span>
+                            </div>
+                          ))}
+                        </div>
+
                         <div>
                           <p className="text-sm font-medium mb-2">Delivery Address:</p>
                           <p className="text-sm text-muted-foreground">{order.shippingAddress}</p>
@@ -1434,6 +1574,14 @@ export default function ShopkeeperDashboard() {
           </TabsContent>
         </Tabs>
       </div>
+
+      {variantsProduct && (
+        <ProductVariantsEditor
+          product={variantsProduct}
+          open={!!variantsProduct}
+          onOpenChange={(open) => !open && setVariantsProduct(null)}
+        />
+      )}
     </div>
   );
 }
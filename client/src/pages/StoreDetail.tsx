@@ -5,18 +5,31 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import ProductCard from "@/components/ProductCard";
-import type { Store, Product } from "@shared/schema";
+import { ReviewItem, type ReviewWithAuthor } from "@/components/ProductReviews";
+import { useAuth } from "@/hooks/useAuth";
+import { useProductListing } from "@/hooks/useProductListing";
+import type { Store } from "@shared/schema";
+import { imageUrl } from "@shared/images";
 
 export default function StoreDetail() {
   const { id } = useParams();
+  const { user } = useAuth();
 
   const { data: store, isLoading: storeLoading } = useQuery<Store>({
     queryKey: [`/api/stores/${id}`],
     enabled: !!id,
   });
 
-  const { data: products = [], isLoading: productsLoading } = useQuery<Product[]>({
-    queryKey: [`/api/products`, { storeId: id }],
+  const {
+    products,
+    total: totalProducts,
+    isLoading: productsLoading,
+    isFetchingNextPage,
+    loadMoreRef,
+  } = useProductListing({ storeId: id, sort: "newest" }, !!id);
+
+  const { data: reviews = [] } = useQuery<ReviewWithAuthor[]>({
+    queryKey: [`/api/stores/${id}/reviews`],
     enabled: !!id,
   });
 
@@ -48,7 +61,7 @@ export default function StoreDetail() {
         {store.coverImage && (
           <div className="w-full h-48 md:h-64 bg-gray-200 rounded-lg mb-6 overflow-hidden">
             <img
-              src={store.coverImage}
+              src={imageUrl(store.coverImage, "large")}
               alt={`${store.name} cover`}
               className="w-full h-full object-cover"
               onError={(e) => {
@@ -65,7 +78,7 @@ export default function StoreDetail() {
               {/* Store Logo */}
               <div className="w-32 h-32 bg-gray-200 rounded-lg flex items-center justify-center overflow-hidden flex-shrink-0">
                 <img
-                  src={store.logo || "https://images.unsplash.com/photo-1578662996442-48f60103fc96?ixlib=rb-4.0.3&auto=format&fit=crop&w=200&h=200"}
+                  src={store.logo ? imageUrl(store.logo, "medium") : "https://images.unsplash.com/photo-1578662996442-48f60103fc96?ixlib=rb-4.0.3&auto=format&fit=crop&w=200&h=200"}
                   alt={store.name}
                   className="w-full h-full object-cover"
                   onError={(e) => {
@@ -164,7 +177,7 @@ export default function StoreDetail() {
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
               <span>Products from {store.name}</span>
-              <Badge variant="outline">{products.length} products</Badge>
+              <Badge variant="outline">{totalProducts} products</Badge>
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -176,9 +189,40 @@ export default function StoreDetail() {
                 <p className="text-muted-foreground text-sm mt-2">Check back later for new arrivals</p>
               </div>
             ) : (
-              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-                {products.map((product) => (
-                  <ProductCard key={product.id} product={product} />
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                  {products.map((product) => (
+                    <ProductCard key={product.id} product={product} />
+                  ))}
+                </div>
+                <div ref={loadMoreRef} className="text-center py-4 text-sm text-muted-foreground">
+                  {isFetchingNextPage && "Loading more products..."}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Store Reviews */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Customer Reviews</span>
+              <Badge variant="outline">{reviews.length} reviews</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reviews.length === 0 ? (
+              <p className="text-muted-foreground">No reviews yet</p>
+            ) : (
+              <div className="divide-y">
+                {reviews.map((review) => (
+                  <ReviewItem
+                    key={review.id}
+                    review={review}
+                    canReply={user?.id === store.ownerId}
+                    productName={products.find((product) => product.id === review.productId)?.name}
+                  />
                 ))}
               </div>
             )}
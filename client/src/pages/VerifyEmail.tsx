@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Redirect, useLocation } from "wouter";
+import { MailCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiPost } from "@/lib/api";
+import type { User } from "@shared/schema";
+
+export default function VerifyEmail() {
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [, setLocation] = useLocation();
+  const { user, updateUser, isLoading: isAuthLoading } = useAuth();
+  const { toast } = useToast();
+
+  if (isAuthLoading) {
+    return null;
+  }
+  if (!user) {
+    return <Redirect to="/login" />;
+  }
+
+  const onVerify = async () => {
+    setIsLoading(true);
+    try {
+      const { user: verifiedUser } = await apiPost<{ user: User }>("/api/auth/verify-email", { code });
+      updateUser(verifiedUser);
+      toast({
+        title: "Email verified",
+        description: "Thanks for confirming your email address.",
+      });
+      setLocation("/");
+    } catch (error) {
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Invalid or expired code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onResend = async () => {
+    setIsResending(true);
+    try {
+      await apiPost("/api/auth/verify-email/send", {});
+      toast({
+        title: "Code sent",
+        description: `We've sent a new code to ${user.email}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't send code",
+        description: error instanceof Error ? error.message : "Please try again later",
+        variant: "destructive",
+      });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-muted flex items-center justify-center py-12">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex items-center justify-center mb-4">
+              <MailCheck className="h-10 w-10 text-primary" />
+            </div>
+            <CardTitle className="text-2xl">Verify Your Email</CardTitle>
+            <p className="text-muted-foreground">
+              {user.emailVerified
+                ? `${user.email} is already verified.`
+                : `Enter the 6 digit code we sent to ${user.email}`}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {user.emailVerified ? (
+              <Button className="w-full btn-primary" onClick={() => setLocation("/")}>
+                Continue Shopping
+              </Button>
+            ) : (
+              <>
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} value={code} onChange={setCode}>
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+
+                <Button
+                  className="w-full btn-primary"
+                  disabled={code.length !== 6 || isLoading}
+                  onClick={onVerify}
+                >
+                  {isLoading ? "Verifying..." : "Verify Email"}
+                </Button>
+
+                <div className="flex justify-between">
+                  <Button variant="ghost" disabled={isResending} onClick={onResend}>
+                    {isResending ? "Sending..." : "Resend code"}
+                  </Button>
+                  <Button variant="ghost" onClick={() => setLocation("/")}>
+                    Skip for now
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
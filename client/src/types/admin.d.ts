@@ -5,12 +5,12 @@ declare module '@/types/admin' {
     }
 
     export interface AdminUser {
-        id: string;
+        id: number;
         email: string;
         fullName: string;
-        role: 'super_admin' | 'admin';
+        role: string;
         permissions: string[];
-        lastLogin: string;
+        createdAt: string;
     }
 
     export interface AdminSettings {
@@ -0,0 +1,9 @@
+CREATE TABLE "admin_sessions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "admin_id" integer NOT NULL REFERENCES "admins"("id"),
+  "token_hash" text NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "admin_sessions_token_hash_unique" UNIQUE("token_hash")
+);
@@ -0,0 +1,3 @@
+-- Admins created before roles existed had full access
+UPDATE "admins" SET "role" = 'super_admin' WHERE "role" = 'admin';
+ALTER TABLE "admins" ALTER COLUMN "role" SET DEFAULT 'support';
@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN "status" text DEFAULT 'active' NOT NULL;
+ALTER TABLE "users" ADD COLUMN "status_reason" text;
+ALTER TABLE "users" ADD COLUMN "password_reset_required" boolean DEFAULT false;
@@ -0,0 +1,15 @@
+-- Stores that already exist stay listed; new stores start out pending review
+ALTER TABLE "stores" ADD COLUMN "status" text DEFAULT 'approved' NOT NULL;
+ALTER TABLE "stores" ALTER COLUMN "status" SET DEFAULT 'pending_review';
+ALTER TABLE "stores" ADD COLUMN "status_reason" text;
+ALTER TABLE "stores" ADD COLUMN "reviewed_at" timestamp;
+
+CREATE TABLE "store_documents" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "store_id" integer NOT NULL REFERENCES "stores"("id"),
+  "type" text NOT NULL,
+  "document_number" text,
+  "document_url" text NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
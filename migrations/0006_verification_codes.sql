@@ -0,0 +1,14 @@
+ALTER TABLE "users" ADD COLUMN "email_verified" boolean DEFAULT false;
+
+CREATE TABLE "verification_codes" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "identifier" text NOT NULL,
+  "purpose" text NOT NULL,
+  "code_hash" text NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "consumed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX "verification_codes_identifier_purpose_idx" ON "verification_codes" ("identifier", "purpose");
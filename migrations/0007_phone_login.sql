@@ -0,0 +1,4 @@
+-- Accounts created by phone sign-in have no email or password
+ALTER TABLE "users" ALTER COLUMN "email" DROP NOT NULL;
+ALTER TABLE "users" ALTER COLUMN "password" DROP NOT NULL;
+ALTER TABLE "users" ADD COLUMN "phone_verified" boolean DEFAULT false;
@@ -0,0 +1,4 @@
+ALTER TABLE "users" ADD COLUMN "failed_login_attempts" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "users" ADD COLUMN "locked_until" timestamp;
+ALTER TABLE "admins" ADD COLUMN "failed_login_attempts" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "admins" ADD COLUMN "locked_until" timestamp;
@@ -0,0 +1,12 @@
+CREATE TABLE "user_sessions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "user_agent" text,
+  "ip_address" text,
+  "last_seen_at" timestamp DEFAULT now() NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX "user_sessions_user_id_idx" ON "user_sessions" ("user_id");
@@ -0,0 +1,29 @@
+CREATE TABLE "reviews" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "product_id" integer NOT NULL REFERENCES "products"("id"),
+  "store_id" integer NOT NULL REFERENCES "stores"("id"),
+  "customer_id" integer NOT NULL REFERENCES "users"("id"),
+  "order_item_id" integer NOT NULL REFERENCES "order_items"("id"),
+  "rating" integer NOT NULL CHECK ("rating" BETWEEN 1 AND 5),
+  "title" text,
+  "comment" text,
+  "images" text[] DEFAULT '{}',
+  "helpful_count" integer DEFAULT 0 NOT NULL,
+  "seller_reply" text,
+  "seller_replied_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- One review per customer per product
+CREATE UNIQUE INDEX "reviews_product_customer_idx" ON "reviews" ("product_id", "customer_id");
+CREATE INDEX "reviews_store_id_idx" ON "reviews" ("store_id");
+
+CREATE TABLE "review_votes" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "review_id" integer NOT NULL REFERENCES "reviews"("id") ON DELETE CASCADE,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX "review_votes_review_user_idx" ON "review_votes" ("review_id", "user_id");
@@ -0,0 +1,17 @@
+ALTER TABLE "reviews" ADD COLUMN "status" text DEFAULT 'published' NOT NULL;
+ALTER TABLE "reviews" ADD COLUMN "moderation_reason" text;
+ALTER TABLE "reviews" ADD COLUMN "moderated_at" timestamp;
+
+CREATE INDEX "reviews_status_idx" ON "reviews" ("status");
+
+CREATE TABLE "review_reports" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "review_id" integer NOT NULL REFERENCES "reviews"("id") ON DELETE CASCADE,
+  "reporter_id" integer NOT NULL REFERENCES "users"("id"),
+  "reason" text NOT NULL,
+  "details" text,
+  "status" text DEFAULT 'open' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX "review_reports_review_reporter_idx" ON "review_reports" ("review_id", "reporter_id");
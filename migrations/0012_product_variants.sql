@@ -0,0 +1,42 @@
+CREATE TABLE "product_options" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "product_id" integer NOT NULL REFERENCES "products"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "values" text[] DEFAULT '{}' NOT NULL,
+  "position" integer DEFAULT 0 NOT NULL
+);
+
+CREATE INDEX "product_options_product_id_idx" ON "product_options" ("product_id");
+
+CREATE TABLE "product_variants" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "product_id" integer NOT NULL REFERENCES "products"("id"),
+  "sku" text NOT NULL,
+  "option_values" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "price" numeric(10, 2) NOT NULL,
+  "original_price" numeric(10, 2),
+  "stock" integer DEFAULT 0 NOT NULL,
+  "images" text[] DEFAULT '{}',
+  "position" integer DEFAULT 0 NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "product_variants_sku_unique" UNIQUE("sku")
+);
+
+CREATE INDEX "product_variants_product_id_idx" ON "product_variants" ("product_id");
+
+-- Every existing product becomes a single-variant product
+INSERT INTO "product_variants" ("product_id", "sku", "price", "original_price", "stock")
+SELECT "id", 'P' || "id", "price", "original_price", COALESCE("stock", 0)
+FROM "products";
+
+ALTER TABLE "cart_items" ADD COLUMN "variant_id" integer REFERENCES "product_variants"("id");
+UPDATE "cart_items" SET "variant_id" = v."id"
+FROM "product_variants" v WHERE v."product_id" = "cart_items"."product_id";
+ALTER TABLE "cart_items" ALTER COLUMN "variant_id" SET NOT NULL;
+
+ALTER TABLE "order_items" ADD COLUMN "variant_id" integer REFERENCES "product_variants"("id");
+ALTER TABLE "order_items" ADD COLUMN "variant_name" text;
+UPDATE "order_items" SET "variant_id" = v."id"
+FROM "product_variants" v WHERE v."product_id" = "order_items"."product_id";
+ALTER TABLE "order_items" ALTER COLUMN "variant_id" SET NOT NULL;
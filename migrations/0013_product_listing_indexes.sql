@@ -0,0 +1,7 @@
+-- Filters and keyset sort orders used by the paginated product listing
+CREATE INDEX "products_store_id_idx" ON "products" ("store_id");
+CREATE INDEX "products_category_id_idx" ON "products" ("category_id");
+CREATE INDEX "products_price_idx" ON "products" ("price", "id");
+CREATE INDEX "products_created_at_idx" ON "products" ("created_at", "id");
+CREATE INDEX "products_popularity_idx" ON "products" ((coalesce("total_reviews", 0)), "id");
+CREATE INDEX "products_rating_idx" ON "products" ((coalesce("rating", 0)), "id");
@@ -0,0 +1,23 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE "product_search" (
+  "product_id" integer PRIMARY KEY NOT NULL REFERENCES "products"("id") ON DELETE CASCADE,
+  "document" tsvector NOT NULL,
+  "content" text NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX "product_search_document_idx" ON "product_search" USING gin ("document");
+CREATE INDEX "categories_name_trgm_idx" ON "categories" USING gin ("name" gin_trgm_ops);
+
+INSERT INTO "product_search" ("product_id", "document", "content")
+SELECT
+  p."id",
+  setweight(to_tsvector('simple', p."name"), 'A')
+    || setweight(to_tsvector('simple', coalesce(c."name", '')), 'B')
+    || setweight(to_tsvector('simple', s."name"), 'C')
+    || setweight(to_tsvector('simple', coalesce(p."description", '')), 'D'),
+  concat_ws(' ', p."name", c."name", s."name")
+FROM "products" p
+JOIN "stores" s ON s."id" = p."store_id"
+LEFT JOIN "categories" c ON c."id" = p."category_id";
@@ -0,0 +1,26 @@
+ALTER TABLE "categories" ADD COLUMN "parent_id" integer REFERENCES "categories"("id");
+ALTER TABLE "categories" ADD COLUMN "image" text;
+ALTER TABLE "categories" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;
+
+CREATE INDEX "categories_parent_id_idx" ON "categories" ("parent_id");
+
+-- Keep the current alphabetical order as the starting sort order
+UPDATE "categories" SET "position" = ordered."position"
+FROM (SELECT "id", row_number() OVER (ORDER BY "name") - 1 AS "position" FROM "categories") ordered
+WHERE "categories"."id" = ordered."id";
+
+CREATE TABLE "category_attributes" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "category_id" integer NOT NULL REFERENCES "categories"("id") ON DELETE CASCADE,
+  "key" text NOT NULL,
+  "label" text NOT NULL,
+  "type" text DEFAULT 'text' NOT NULL,
+  "unit" text,
+  "options" text[] DEFAULT '{}' NOT NULL,
+  "required" boolean DEFAULT false NOT NULL,
+  "position" integer DEFAULT 0 NOT NULL
+);
+
+CREATE UNIQUE INDEX "category_attributes_category_key_idx" ON "category_attributes" ("category_id", "key");
+
+ALTER TABLE "products" ADD COLUMN "attributes" jsonb DEFAULT '{}'::jsonb NOT NULL;
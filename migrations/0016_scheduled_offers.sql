@@ -0,0 +1,20 @@
+ALTER TABLE "products" ADD COLUMN "offer_starts_at" timestamp;
+ALTER TABLE "products" ADD COLUMN "offer_ends_at" timestamp;
+ALTER TABLE "products" ADD COLUMN "flash_sale_quantity" integer;
+ALTER TABLE "products" ADD COLUMN "flash_sale_sold" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "products" ADD COLUMN "flash_sale_limit_per_customer" integer;
+
+-- Offer end dates were free text from a date input; offers end at the close of that day
+UPDATE "products" SET "offer_ends_at" = "offer_end_date"::date + interval '1 day'
+WHERE "offer_end_date" ~ '^\d{4}-\d{2}-\d{2}$';
+
+-- Offers that were switched off keep no discount
+UPDATE "products" SET "offer_percentage" = 0 WHERE NOT coalesce("is_on_offer", false);
+
+ALTER TABLE "products" DROP COLUMN "offer_end_date";
+
+UPDATE "products" SET "is_on_offer" = (
+  coalesce("offer_percentage", 0) > 0
+  AND ("offer_starts_at" IS NULL OR "offer_starts_at" <= now())
+  AND ("offer_ends_at" IS NULL OR "offer_ends_at" > now())
+);
@@ -0,0 +1,27 @@
+ALTER TABLE "products" ADD COLUMN "low_stock_threshold" integer DEFAULT 5 NOT NULL;
+
+CREATE TABLE "inventory_movements" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "product_id" integer NOT NULL REFERENCES "products"("id"),
+  "variant_id" integer NOT NULL REFERENCES "product_variants"("id"),
+  "type" text NOT NULL,
+  "quantity" integer NOT NULL,
+  "stock_after" integer NOT NULL,
+  "order_id" integer REFERENCES "orders"("id"),
+  "note" text,
+  "created_by" integer REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX "inventory_movements_product_id_idx" ON "inventory_movements" ("product_id", "created_at");
+CREATE INDEX "inventory_movements_order_id_idx" ON "inventory_movements" ("order_id");
+
+-- Reservations never take a variant below zero
+UPDATE "product_variants" SET "stock" = 0 WHERE "stock" < 0;
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_stock_non_negative" CHECK ("stock" >= 0);
+
+-- Open the ledger with the stock each variant holds today
+INSERT INTO "inventory_movements" ("product_id", "variant_id", "type", "quantity", "stock_after", "note")
+SELECT "product_id", "id", 'restock', "stock", "stock", 'Opening balance'
+FROM "product_variants"
+WHERE "stock" > 0;
@@ -0,0 +1,12 @@
+CREATE TABLE "idempotency_keys" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "scope" text NOT NULL,
+  "key" text NOT NULL,
+  "request_hash" text NOT NULL,
+  "response_status" integer,
+  "response_body" jsonb,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX "idempotency_keys_user_scope_key_idx" ON "idempotency_keys" ("user_id", "scope", "key");
@@ -0,0 +1,36 @@
+ALTER TABLE "stores" ADD COLUMN "delivery_fee" numeric(10, 2) DEFAULT '0.00' NOT NULL;
+
+CREATE TABLE "store_orders" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "order_id" integer NOT NULL REFERENCES "orders"("id"),
+  "store_id" integer NOT NULL REFERENCES "stores"("id"),
+  "status" text DEFAULT 'pending' NOT NULL,
+  "subtotal" numeric(10, 2) NOT NULL,
+  "delivery_fee" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+  "total_amount" numeric(10, 2) NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX "store_orders_order_id_idx" ON "store_orders" ("order_id");
+CREATE INDEX "store_orders_store_id_idx" ON "store_orders" ("store_id", "created_at");
+
+-- Existing orders get one store order per store they contain, carrying the
+-- order's status. They were placed without delivery fees
+INSERT INTO "store_orders" ("order_id", "store_id", "status", "subtotal", "total_amount", "created_at", "updated_at")
+SELECT "order_items"."order_id", "order_items"."store_id", "orders"."status",
+  sum("order_items"."price" * "order_items"."quantity"), sum("order_items"."price" * "order_items"."quantity"),
+  "orders"."created_at", "orders"."created_at"
+FROM "order_items"
+INNER JOIN "orders" ON "orders"."id" = "order_items"."order_id"
+GROUP BY "order_items"."order_id", "order_items"."store_id", "orders"."status", "orders"."created_at";
+
+ALTER TABLE "order_items" ADD COLUMN "store_order_id" integer REFERENCES "store_orders"("id");
+UPDATE "order_items" SET "store_order_id" = "store_orders"."id"
+FROM "store_orders"
+WHERE "store_orders"."order_id" = "order_items"."order_id" AND "store_orders"."store_id" = "order_items"."store_id";
+ALTER TABLE "order_items" ALTER COLUMN "store_order_id" SET NOT NULL;
+
+CREATE INDEX "order_items_store_order_id_idx" ON "order_items" ("store_order_id");
+
+ALTER TABLE "order_tracking" ADD COLUMN "store_order_id" integer REFERENCES "store_orders"("id");
@@ -0,0 +1,25 @@
+ALTER TABLE "store_orders" ADD COLUMN "confirmed_at" timestamp;
+ALTER TABLE "store_orders" ADD COLUMN "packed_at" timestamp;
+ALTER TABLE "store_orders" ADD COLUMN "out_for_delivery_at" timestamp;
+ALTER TABLE "store_orders" ADD COLUMN "delivered_at" timestamp;
+ALTER TABLE "store_orders" ADD COLUMN "failed_delivery_at" timestamp;
+ALTER TABLE "store_orders" ADD COLUMN "cancelled_at" timestamp;
+ALTER TABLE "store_orders" ADD COLUMN "returned_at" timestamp;
+
+ALTER TABLE "order_tracking" ADD COLUMN "previous_status" text;
+ALTER TABLE "order_tracking" ADD COLUMN "changed_by" integer REFERENCES "users"("id");
+
+-- The old statuses map onto the new lifecycle: processing orders were
+-- confirmed, shipped ones were on their way
+UPDATE "store_orders" SET "status" = 'confirmed' WHERE "status" = 'processing';
+UPDATE "store_orders" SET "status" = 'out_for_delivery' WHERE "status" = 'shipped';
+UPDATE "orders" SET "status" = 'confirmed' WHERE "status" = 'processing';
+UPDATE "orders" SET "status" = 'out_for_delivery' WHERE "status" = 'shipped';
+UPDATE "order_tracking" SET "status" = 'confirmed' WHERE "status" = 'processing';
+UPDATE "order_tracking" SET "status" = 'out_for_delivery' WHERE "status" = 'shipped';
+
+-- Only the latest stage of existing orders is known
+UPDATE "store_orders" SET "confirmed_at" = "updated_at" WHERE "status" = 'confirmed';
+UPDATE "store_orders" SET "out_for_delivery_at" = "updated_at" WHERE "status" = 'out_for_delivery';
+UPDATE "store_orders" SET "delivered_at" = "updated_at" WHERE "status" = 'delivered';
+UPDATE "store_orders" SET "cancelled_at" = "updated_at" WHERE "status" = 'cancelled';
@@ -0,0 +1,18 @@
+ALTER TABLE "stores" ADD COLUMN "cancellation_window" text DEFAULT 'confirmed' NOT NULL;
+ALTER TABLE "orders" ADD COLUMN "cancellation_reason" text;
+
+CREATE TABLE "refunds" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "order_id" integer NOT NULL REFERENCES "orders"("id"),
+  "store_order_id" integer NOT NULL REFERENCES "store_orders"("id"),
+  "customer_id" integer NOT NULL REFERENCES "users"("id"),
+  "amount" numeric(10, 2) NOT NULL,
+  "payment_method" text NOT NULL,
+  "reason" text NOT NULL,
+  "status" text DEFAULT 'initiated' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX "refunds_status_idx" ON "refunds" ("status", "created_at");
+CREATE INDEX "refunds_order_id_idx" ON "refunds" ("order_id");
@@ -0,0 +1,4 @@
+ALTER TABLE "returns" ADD COLUMN "restocked_at" timestamp;
+
+-- Returns completed before this column existed were already restocked
+UPDATE "returns" SET "restocked_at" = "updated_at" WHERE "status" = 'completed';
@@ -0,0 +1,13 @@
+-- Only the oldest account keeps a phone number that several accounts verified
+UPDATE "users" u SET "phone_verified" = false
+WHERE u."phone_verified"
+  AND EXISTS (
+    SELECT 1 FROM "users" o
+    WHERE o."phone_verified"
+      AND right(regexp_replace(o."phone", '[^0-9]', '', 'g'), 10) = right(regexp_replace(u."phone", '[^0-9]', '', 'g'), 10)
+      AND (o."created_at", o."id") < (u."created_at", u."id")
+  );
+
+-- A verified number signs into exactly one account
+CREATE UNIQUE INDEX "users_verified_phone_idx" ON "users" (right(regexp_replace("phone", '[^0-9]', '', 'g'), 10))
+  WHERE "phone_verified";
@@ -0,0 +1,201 @@
+import type { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import type { User, Admin } from "@shared/schema";
+import { storage } from "./storage";
+
+const JWT_SECRET = process.env.JWT_SECRET || process.env.SESSION_SECRET;
+
+if (!JWT_SECRET) {
+  throw new Error(
+    "JWT_SECRET must be set. Did you forget to add it to your .env file?",
+  );
+}
+
+const BCRYPT_ROUNDS = 10;
+const ACCESS_TOKEN_TTL = "15m";
+const REFRESH_TOKEN_TTL = "30d";
+const USER_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // matches the refresh token
+const LAST_SEEN_UPDATE_MS = 5 * 60 * 1000; // avoid a write on every request
+const ADMIN_SESSION_TTL_MS = 8 * 60 * 60 * 1000; // 8 hours
+
+export interface AuthPrincipal {
+  userId: number;
+  role: string;
+  sessionId: number;
+}
+
+interface TokenPayload extends AuthPrincipal {
+  type: "access" | "refresh";
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthPrincipal;
+      admin?: Omit<Admin, "password">;
+    }
+  }
+}
+
+// Password hashing
+export async function hashPassword(password: string): Promise<string> {
+  return await bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+function isBcryptHash(value: string): boolean {
+  return /^\$2[aby]\$\d{2}\$/.test(value);
+}
+
+// Rows created before hashing was introduced still hold the plain password;
+// callers should re-hash when needsRehash is set.
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (isBcryptHash(stored)) {
+    return { valid: await bcrypt.compare(password, stored), needsRehash: false };
+  }
+
+  const valid = stored === password;
+  return { valid, needsRehash: valid };
+}
+
+// JWT issuing and verification
+function signToken(principal: AuthPrincipal, type: TokenPayload["type"], expiresIn: string): string {
+  const payload: TokenPayload = {
+    userId: principal.userId,
+    role: principal.role,
+    sessionId: principal.sessionId,
+    type,
+  };
+  return jwt.sign(payload, JWT_SECRET!, { expiresIn } as jwt.SignOptions);
+}
+
+function verifyToken(token: string, type: TokenPayload["type"]): AuthPrincipal | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET!) as TokenPayload;
+    // Tokens issued before sessions were tracked carry no session id
+    if (payload.type !== type || typeof payload.sessionId !== "number") {
+      return null;
+    }
+    return { userId: payload.userId, role: payload.role, sessionId: payload.sessionId };
+  } catch (error) {
+    return null;
+  }
+}
+
+export function issueTokens(user: Pick<User, "id" | "role">, sessionId: number) {
+  const principal = { userId: user.id, role: user.role, sessionId };
+  return {
+    accessToken: signToken(principal, "access", ACCESS_TOKEN_TTL),
+    refreshToken: signToken(principal, "refresh", REFRESH_TOKEN_TTL),
+  };
+}
+
+export function verifyAccessToken(token: string): AuthPrincipal | null {
+  return verifyToken(token, "access");
+}
+
+export function verifyRefreshToken(token: string): AuthPrincipal | null {
+  return verifyToken(token, "refresh");
+}
+
+export function getBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) {
+    return undefined;
+  }
+  return header.slice("Bearer ".length);
+}
+
+// Records the device a user signed in from and returns tokens bound to it
+export async function createUserSession(user: Pick<User, "id" | "role">, req: Request) {
+  const session = await storage.createUserSession({
+    userId: user.id,
+    userAgent: req.get("user-agent")?.slice(0, 512) ?? null,
+    ipAddress: req.ip ?? null,
+    expiresAt: new Date(Date.now() + USER_SESSION_TTL_MS),
+  });
+  return issueTokens(user, session.id);
+}
+
+// Attaches the caller to req.auth when a valid access token belonging to a
+// live session is present. Requests without a token continue anonymously.
+export async function authenticate(req: Request, _res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  const principal = token ? verifyAccessToken(token) : null;
+  if (!principal) {
+    return next();
+  }
+
+  try {
+    const session = await storage.getActiveUserSession(principal.sessionId);
+    if (session && session.userId === principal.userId) {
+      req.auth = principal;
+      if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_MS) {
+        await storage.touchUserSession(session.id, req.ip);
+      }
+    }
+  } catch (error) {
+    console.error("User session lookup failed:", error);
+  }
+  next();
+}
+
+// Admin sessions use opaque random tokens so they can be revoked server-side
+function hashSessionToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export async function createAdminSession(adminId: number): Promise<{ token: string; expiresAt: Date }> {
+  const token = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + ADMIN_SESSION_TTL_MS);
+  await storage.createAdminSession({ adminId, tokenHash: hashSessionToken(token), expiresAt });
+  return { token, expiresAt };
+}
+
+export async function revokeAdminSession(token: string): Promise<boolean> {
+  return await storage.revokeAdminSession(hashSessionToken(token));
+}
+
+// Attaches the admin to req.admin when the bearer token belongs to an
+// active admin session. User JWTs are skipped without a database lookup.
+export async function authenticateAdmin(req: Request, _res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token || req.auth) {
+    return next();
+  }
+
+  try {
+    const session = await storage.getActiveAdminSession(hashSessionToken(token));
+    const admin = session ? await storage.getAdmin(session.adminId) : undefined;
+    if (admin) {
+      const { password, ...adminWithoutPassword } = admin;
+      req.admin = adminWithoutPassword;
+    }
+  } catch (error) {
+    console.error("Admin session lookup failed:", error);
+  }
+  next();
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.auth) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+export function requireRole(...roles: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!roles.includes(req.auth.role)) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
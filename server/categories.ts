@@ -0,0 +1,74 @@
+import type { Category, CategoryAttribute } from "@shared/schema";
+
+type CategoryNode = Pick<Category, "id" | "parentId">;
+
+// Ancestors of a category followed by the category itself, root first
+export function categoryPath<T extends CategoryNode>(categories: T[], id: number): T[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: T[] = [];
+  let current = byId.get(id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+// The given categories plus everything below them
+export function descendantIds(categories: CategoryNode[], ids: number[]): number[] {
+  const result = new Set(ids);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId !== null && result.has(category.parentId) && !result.has(category.id)) {
+        result.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return Array.from(result);
+}
+
+// True when following parents from some category leads back to itself
+export function hasCategoryCycle(categories: CategoryNode[]): boolean {
+  const parents = new Map(categories.map((category) => [category.id, category.parentId]));
+  return categories.some((category) => {
+    const seen = new Set<number>();
+    let current: number | null | undefined = category.id;
+    while (current !== null && current !== undefined) {
+      if (seen.has(current)) {
+        return true;
+      }
+      seen.add(current);
+      current = parents.get(current);
+    }
+    return false;
+  });
+}
+
+// Checks a product's attribute values against its category's definitions and
+// drops keys the category doesn't define
+export function normalizeProductAttributes(
+  definitions: CategoryAttribute[],
+  values: Record<string, string>,
+): { attributes: Record<string, string>; error?: string } {
+  const attributes: Record<string, string> = {};
+  for (const definition of definitions) {
+    const value = values[definition.key]?.trim();
+    if (!value) {
+      if (definition.required) {
+        return { attributes, error: `${definition.label} is required` };
+      }
+      continue;
+    }
+    if (definition.type === "number" && !Number.isFinite(Number(value))) {
+      return { attributes, error: `${definition.label} must be a number` };
+    }
+    if (definition.type === "select" && !definition.options.includes(value)) {
+      return { attributes, error: `${definition.label} must be one of ${definition.options.join(", ")}` };
+    }
+    attributes[definition.key] = value;
+  }
+  return { attributes };
+}
@@ -0,0 +1,94 @@
+// Bootstraps an admin account from the command line:
+//   npm run admin:create -- <email> "<full name>"
+// The password is read from ADMIN_PASSWORD, from piped input or from a
+// prompt that doesn't echo it.
+import "dotenv/config";
+import readline from "readline";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { pool } from "./db";
+
+function readPipedLine(): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin });
+  return new Promise((resolve) => {
+    let line = "";
+    rl.once("line", (input) => {
+      line = input;
+      rl.close();
+    });
+    rl.once("close", () => resolve(line));
+  });
+}
+
+// Reads keystrokes in raw mode so the password never appears on screen
+function promptPassword(): Promise<string> {
+  const stdin = process.stdin;
+  process.stdout.write("Password: ");
+  stdin.setRawMode(true);
+  stdin.setEncoding("utf8");
+  stdin.resume();
+
+  return new Promise((resolve, reject) => {
+    let password = "";
+    const finish = () => {
+      stdin.removeListener("data", onKeys);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write("\n");
+    };
+    const onKeys = (keys: string) => {
+      for (const key of keys.split("")) {
+        if (key === "\r" || key === "\n" || key === "\u0004") {
+          finish();
+          return resolve(password);
+        }
+        if (key === "\u0003") {
+          finish();
+          return reject(new Error("Cancelled"));
+        }
+        password = key === "\u007f" || key === "\b" ? password.slice(0, -1) : password + key;
+      }
+    };
+    stdin.on("data", onKeys);
+  });
+}
+
+async function main() {
+  const [email, fullName] = process.argv.slice(2);
+  if (!email || !fullName) {
+    console.error('Usage: npm run admin:create -- <email> "<full name>"');
+    process.exitCode = 1;
+    return;
+  }
+
+  const existingAdmin = await storage.getAdminByEmail(email);
+  if (existingAdmin) {
+    console.error(`An admin with email ${email} already exists`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const password = process.env.ADMIN_PASSWORD
+    || (process.stdin.isTTY ? await promptPassword() : await readPipedLine());
+  if (password.length < 8) {
+    console.error("Admin passwords must be at least 8 characters");
+    process.exitCode = 1;
+    return;
+  }
+
+  const admin = await storage.createAdmin({
+    email,
+    fullName,
+    password: await hashPassword(password),
+    role: "super_admin",
+  });
+
+  console.log(`Created super admin #${admin.id} (${admin.email})`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to create admin:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,132 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type { OrderDraft } from "./storage";
+import { issueTokens } from "./auth";
+import { IDEMPOTENCY_HEADER } from "./idempotency";
+import { stubStorage, useTestServer, userIds, users, now, store, product, variant, type FakeStorage } from "./test-fixtures";
+
+// Checkout may submit the same order twice at once (a double click, or a
+// retry racing the first attempt). With one Idempotency-Key only one order
+// is placed. Storage is replaced with an in-memory world whose keys table
+// claims like the real unique index: the first insert wins
+
+const customer = users.find((user) => user.id === userIds.customer)!;
+
+interface KeyRow {
+  id: number;
+  userId: number;
+  scope: string;
+  key: string;
+  requestHash: string;
+  responseStatus: number | null;
+  responseBody: unknown;
+  createdAt: Date;
+}
+
+let keys: KeyRow[] = [];
+let nextKeyId = 1;
+let placedOrders: OrderDraft[] = [];
+
+const sameKey = (row: KeyRow, entry: Pick<KeyRow, "userId" | "scope" | "key">) =>
+  row.userId === entry.userId && row.scope === entry.scope && row.key === entry.key;
+
+const fakeStorage: FakeStorage = {
+  getActiveUserSession: async (id: number) => ({ id, userId: id, lastSeenAt: new Date(), userAgent: null, ipAddress: null, createdAt: now }),
+  touchUserSession: async () => undefined,
+  getUser: async (id: number) => id === customer.id ? customer : undefined,
+
+  // Checking and inserting happen in one tick, as one INSERT ... ON CONFLICT
+  claimIdempotencyKey: async (entry: Pick<KeyRow, "userId" | "scope" | "key" | "requestHash">) => {
+    const existing = keys.find((row) => sameKey(row, entry));
+    if (existing) {
+      return { key: existing, claimed: false };
+    }
+    const claimed = { ...entry, id: nextKeyId++, responseStatus: null, responseBody: null, createdAt: new Date() };
+    keys.push(claimed);
+    return { key: claimed, claimed: true };
+  },
+  completeIdempotencyKey: async (id: number, responseStatus: number, responseBody: unknown) => {
+    const row = keys.find((candidate) => candidate.id === id);
+    if (row) {
+      row.responseStatus = responseStatus;
+      row.responseBody = responseBody;
+    }
+  },
+  releaseIdempotencyKey: async (id: number) => {
+    keys = keys.filter((row) => row.id !== id);
+  },
+
+  getProduct: async (id: number) => id === product.id ? product : undefined,
+  getStore: async (id: number) => id === store.id ? store : undefined,
+  getDefaultVariant: async () => variant,
+  getProductVariant: async (id: number) => id === variant.id ? variant : undefined,
+  getOrderedQuantity: async () => 0,
+
+  // Slow enough that the second request arrives while the first is placing
+  placeOrder: async (draft: OrderDraft) => {
+    placedOrders.push(draft);
+    const id = placedOrders.length;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    return {
+      order: { ...draft.order, id, createdAt: now },
+      storeOrders: draft.storeOrders.map(({ items, ...storeOrder }, index) => ({ ...storeOrder, id: index + 1, orderId: id, createdAt: now, updatedAt: now })),
+      items: [],
+      movements: [],
+    };
+  },
+};
+
+stubStorage(fakeStorage);
+const testServer = useTestServer();
+
+const checkout = {
+  order: { shippingAddress: "Main Road", paymentMethod: "cod", customerName: "Customer", phone: "9800000000" },
+  items: [{ productId: 1, variantId: 1, quantity: 1, price: "10.00" }],
+};
+
+async function submitOrder(key: string) {
+  const response = await fetch(`${testServer.baseUrl}/api/orders`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${issueTokens(customer, customer.id).accessToken}`,
+      [IDEMPOTENCY_HEADER]: key,
+    },
+    body: JSON.stringify(checkout),
+  });
+  return { status: response.status, replayed: response.headers.get("Idempotent-Replayed"), body: await response.json() };
+}
+
+describe("POST /api/orders with an Idempotency-Key", () => {
+  beforeEach(() => {
+    keys = [];
+    placedOrders = [];
+  });
+
+  it("places one order when the same key is submitted twice at once", async () => {
+    const responses = await Promise.all([submitOrder("checkout-1"), submitOrder("checkout-1")]);
+
+    assert.equal(placedOrders.length, 1);
+    const created = responses.filter((response) => response.status === 201 && !response.replayed);
+    assert.equal(created.length, 1);
+    const [other] = responses.filter((response) => response !== created[0]);
+    if (other.status === 409) {
+      assert.equal(other.body.error, "This request is already being processed");
+    } else {
+      assert.equal(other.status, 201);
+      assert.equal(other.replayed, "true");
+      assert.deepEqual(other.body, created[0].body);
+    }
+  });
+
+  it("replays the placed order to a retry with the same key", async () => {
+    const first = await submitOrder("checkout-2");
+    const retry = await submitOrder("checkout-2");
+
+    assert.equal(placedOrders.length, 1);
+    assert.equal(first.status, 201);
+    assert.equal(retry.status, 201);
+    assert.equal(retry.replayed, "true");
+    assert.deepEqual(retry.body, first.body);
+  });
+});
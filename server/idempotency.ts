@@ -0,0 +1,89 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+const retentionMs = (parseInt(process.env.IDEMPOTENCY_KEY_RETENTION_HOURS || "") || 24) * 60 * 60 * 1000;
+
+// A key that is still running after this long belongs to a request that
+// died with the server, and may be claimed again
+const abandonedAfterMs = 60 * 1000;
+
+// JSON with object keys sorted, so equal payloads always hash the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value).sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function requestHash(body: unknown): string {
+  return createHash("sha256").update(canonicalJson(body ?? null)).digest("hex");
+}
+
+// Makes a POST safe to retry. A request sent with an Idempotency-Key header
+// runs once per user and key: a repeat gets the first request's response
+// (marked with an Idempotent-Replayed header), a repeat while the first is
+// still running gets 409, and reusing the key for a different payload gets
+// 422. Only successful responses are kept, so a failed request can be
+// retried with the same key. Requests without the header are unaffected.
+// Runs after authentication
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (key === undefined) {
+    return next();
+  }
+  if (!key.trim() || key.length > 255) {
+    return res.status(400).json({ error: `${IDEMPOTENCY_HEADER} must be 1 to 255 characters` });
+  }
+
+  const hash = requestHash(req.body);
+  let claim;
+  try {
+    const now = Date.now();
+    claim = await storage.claimIdempotencyKey(
+      { userId: req.auth!.userId, scope: `${req.method} ${req.baseUrl}${req.path}`, key, requestHash: hash },
+      new Date(now - retentionMs),
+      new Date(now - abandonedAfterMs),
+    );
+  } catch (error) {
+    console.error("Idempotency key error:", error);
+    return res.status(500).json({ error: "Failed to process request" });
+  }
+
+  if (!claim) {
+    return res.status(409).json({ error: "This request is already being processed" });
+  }
+  if (!claim.claimed) {
+    const existing = claim.key;
+    if (existing.requestHash !== hash) {
+      return res.status(422).json({ error: "This idempotency key was already used for a different request" });
+    }
+    if (existing.responseStatus === null) {
+      return res.status(409).json({ error: "This request is already being processed" });
+    }
+    res.setHeader("Idempotent-Replayed", "true");
+    return res.status(existing.responseStatus).json(existing.responseBody);
+  }
+
+  // Store the response before sending it, so a retry that arrives right
+  // after it can already be replayed
+  const id = claim.key.id;
+  const send = res.json.bind(res);
+  res.json = (body: unknown) => {
+    const settle = res.statusCode < 300
+      ? storage.completeIdempotencyKey(id, res.statusCode, body)
+      : storage.releaseIdempotencyKey(id);
+    settle
+      .catch((error) => console.error("Idempotency key error:", error))
+      .finally(() => send(body));
+    return res;
+  };
+  next();
+}
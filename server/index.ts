@@ -1,8 +1,18 @@
+// Loads .env before any module reads process.env
+import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startOfferScheduler } from "./offer-scheduler";
 
 const app = express();
+
+// Behind a reverse proxy, rate limits need the client address from X-Forwarded-For
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -63,4 +73,6 @@ app.use((req, res, next) => {
   server.listen(PORT, () => {
     console.log(`Server is running on port ${PORT}`);
   });
+
+  startOfferScheduler();
 })();
@@ -0,0 +1,70 @@
+import fs from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message; production providers implement this
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints messages to the server log, used by default in development
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes each message to its own JSON file so tests and developers can read it back
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+  }
+}
+
+// Refuses every message. Production uses it until a real transport is
+// added, since the development transports would leave sign-in codes and
+// reset links in the logs
+export class DisabledMailTransport implements MailTransport {
+  async send(): Promise<void> {
+    throw new Error("No mail transport is configured");
+  }
+}
+
+function createTransportFromEnv(): MailTransport {
+  if (process.env.NODE_ENV === "production") {
+    console.warn("[mail] No mail transport is configured for production; messages will not be sent");
+    return new DisabledMailTransport();
+  }
+  switch (process.env.MAIL_TRANSPORT) {
+    case "file":
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || "mail-outbox");
+    case "console":
+    case undefined:
+    case "":
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}"`);
+  }
+}
+
+let transport: MailTransport = createTransportFromEnv();
+
+export function setMailTransport(mailTransport: MailTransport) {
+  transport = mailTransport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send(message);
+}
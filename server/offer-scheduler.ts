@@ -0,0 +1,31 @@
+import { storage } from "./storage";
+
+const intervalMs = parseInt(process.env.OFFER_SCHEDULER_INTERVAL_MS || "") || 60 * 1000;
+
+let running = false;
+
+async function tick() {
+  // A slow database shouldn't stack up overlapping runs
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    const changed = await storage.syncOfferStatuses();
+    if (changed.length > 0) {
+      console.log(`[offers] Updated offer status of ${changed.length} product(s)`);
+    }
+  } catch (error) {
+    console.error("Offer scheduler error:", error);
+  } finally {
+    running = false;
+  }
+}
+
+// Starts scheduled offers and expires finished ones. Offer prices are always
+// computed from the offer window, so this only keeps isOnOffer (used by
+// listing filters and badges) in step
+export function startOfferScheduler() {
+  tick();
+  setInterval(tick, intervalMs).unref();
+}
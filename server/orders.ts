@@ -0,0 +1,255 @@
+import { storage, OutOfStockError, FlashSaleSoldOutError, type OrderDraft, type PlacedOrder } from "./storage";
+import {
+  insertOrderSchema, type InsertNotification, type InventoryMovement, type Order, type OrderItem,
+  type Product, type ProductVariant, type Store, type StoreOrder
+} from "@shared/schema";
+import { isFlashSale, isOfferActive, offerPrice } from "@shared/offers";
+
+// A cart line as sent by the checkout. price is what the customer was shown;
+// it is only compared with the current price, never charged
+export interface OrderLineInput {
+  productId: number;
+  variantId?: number;
+  quantity: number;
+  price?: string | number;
+}
+
+// Why a line can't be ordered; index is its position in the request
+export interface OrderLineError {
+  index: number;
+  productId: number;
+  variantId?: number;
+  message: string;
+}
+
+export class OrderRejectedError extends Error {
+  constructor(message: string, public readonly lines: OrderLineError[] = []) {
+    super(message);
+  }
+}
+
+interface PricedLine {
+  index: number;
+  product: Product;
+  variant: ProductVariant;
+  store: Store;
+  quantity: number;
+  price: number; // offer price at the time of ordering
+}
+
+const STALE_CART = "Some items in your cart have changed";
+
+// The active variant a cart or order line refers to. Lines sent without a
+// variant (older clients, single-variant products) get the default one
+export async function resolveVariant(productId: number, variantId?: number): Promise<ProductVariant | undefined> {
+  if (variantId === undefined || variantId === null) {
+    return await storage.getDefaultVariant(productId);
+  }
+  const variant = await storage.getProductVariant(variantId);
+  return variant && variant.productId === productId && variant.isActive ? variant : undefined;
+}
+
+// "M / Red" for display on orders; null for products without options
+export function variantName(variant: ProductVariant): string | null {
+  return Object.values(variant.optionValues).join(" / ") || null;
+}
+
+function lineError(line: Pick<PricedLine, "index" | "product" | "variant">, message: string): OrderLineError {
+  return { index: line.index, productId: line.product.id, variantId: line.variant.id, message };
+}
+
+// Loads the line's product, variant and store and charges the current offer
+// price, or explains why the line can no longer be ordered as shown
+async function priceLine(input: OrderLineInput, index: number): Promise<PricedLine | OrderLineError> {
+  const productId = Number(input.productId);
+  const fail = (message: string): OrderLineError => ({ index, productId, variantId: input.variantId, message });
+
+  const quantity = Number(input.quantity);
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return fail("Quantity must be at least 1");
+  }
+  const product = await storage.getProduct(productId);
+  if (!product || product.isActive === false) {
+    return fail("This product is no longer available");
+  }
+  const store = await storage.getStore(product.storeId);
+  if (!store || store.status !== "approved" || !store.isActive) {
+    return fail(`${store?.name ?? "This store"} is not taking orders right now`);
+  }
+  const variant = await resolveVariant(productId, input.variantId);
+  if (!variant) {
+    return fail(`This option of ${product.name} is no longer available`);
+  }
+  if (variant.stock < quantity) {
+    return fail(variant.stock === 0 ? `${product.name} is out of stock` : `Only ${variant.stock} of ${product.name} left in stock`);
+  }
+
+  const price = offerPrice(variant.price, product);
+  if (input.price !== undefined && input.price !== null && Math.abs(Number(input.price) - price) >= 0.005) {
+    return fail(`The price of ${product.name} is now ₹${price.toFixed(2)}`);
+  }
+  return { index, product, variant, store, quantity, price };
+}
+
+// Units wanted from each running flash sale in the order, checked against
+// the sale's remaining units and the customer's limit. The units themselves
+// are claimed inside the order transaction
+async function checkFlashSales(customerId: number, lines: PricedLine[]) {
+  const sales = new Map<number, { line: PricedLine; quantity: number }>();
+  for (const line of lines) {
+    if (isFlashSale(line.product) && isOfferActive(line.product)) {
+      const sale = sales.get(line.product.id) ?? { line, quantity: 0 };
+      sale.quantity += line.quantity;
+      sales.set(line.product.id, sale);
+    }
+  }
+
+  const errors: OrderLineError[] = [];
+  for (const { line, quantity } of Array.from(sales.values())) {
+    const { product } = line;
+    const limit = product.flashSaleLimitPerCustomer;
+    if (limit !== null && await storage.getOrderedQuantity(customerId, product.id, product.offerStartsAt) + quantity > limit) {
+      errors.push(lineError(line, `The ${product.name} flash sale is limited to ${limit} per customer`));
+    } else if (product.flashSaleQuantity !== null && product.flashSaleSold + quantity > product.flashSaleQuantity) {
+      errors.push(lineError(line, `Not enough of ${product.name} is left in the flash sale`));
+    }
+  }
+  return {
+    sales: Array.from(sales.values()).map(({ line, quantity }) => ({ productId: line.product.id, quantity })),
+    errors,
+  };
+}
+
+// One store order per store in the cart, each charged the store's delivery fee
+function splitByStore(lines: PricedLine[]): OrderDraft["storeOrders"] {
+  const byStore = new Map<number, PricedLine[]>();
+  for (const line of lines) {
+    byStore.set(line.store.id, [...(byStore.get(line.store.id) ?? []), line]);
+  }
+  return Array.from(byStore.values()).map((storeLines) => {
+    const { store } = storeLines[0];
+    const subtotal = storeLines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+    const deliveryFee = Number(store.deliveryFee);
+    return {
+      storeId: store.id,
+      status: "pending",
+      subtotal: subtotal.toFixed(2),
+      deliveryFee: deliveryFee.toFixed(2),
+      totalAmount: (subtotal + deliveryFee).toFixed(2),
+      items: storeLines.map((line) => ({
+        productId: line.product.id,
+        variantId: line.variant.id,
+        variantName: variantName(line.variant),
+        quantity: line.quantity,
+        price: line.price.toFixed(2),
+        storeId: store.id,
+      })),
+    };
+  });
+}
+
+// Places an order from the customer's checkout, split into one store order
+// per store. Everything is priced and checked on the server; the client's
+// totals, fees, prices and store ids are ignored. Throws OrderRejectedError
+// with per-line errors when the cart is stale, and a ZodError when the
+// delivery details are invalid
+export async function placeOrder(customerId: number, orderInput: unknown, lineInputs: unknown): Promise<{ order: Order; storeOrders: StoreOrder[]; items: OrderItem[] }> {
+  if (!Array.isArray(lineInputs) || lineInputs.length === 0) {
+    throw new OrderRejectedError("Your cart is empty");
+  }
+
+  const lines: PricedLine[] = [];
+  const errors: OrderLineError[] = [];
+  for (let index = 0; index < lineInputs.length; index++) {
+    const result = await priceLine(lineInputs[index], index);
+    if ("message" in result) {
+      errors.push(result);
+    } else {
+      lines.push(result);
+    }
+  }
+  const flashSales = await checkFlashSales(customerId, lines);
+  errors.push(...flashSales.errors);
+  if (errors.length > 0) {
+    throw new OrderRejectedError(STALE_CART, errors);
+  }
+
+  const storeOrders = splitByStore(lines);
+  const totalAmount = storeOrders.reduce((sum, storeOrder) => sum + Number(storeOrder.totalAmount), 0);
+  const order = insertOrderSchema.parse({
+    ...(orderInput as object),
+    customerId,
+    status: "pending",
+    totalAmount: totalAmount.toFixed(2),
+  });
+
+  const ownerIds = Array.from(new Set(lines.map((line) => line.store.ownerId)));
+  const locationInfo = order.latitude && order.longitude
+    ? `Customer Location: ${order.latitude}, ${order.longitude}`
+    : "Location not provided";
+  const notifications = (placed: Order): InsertNotification[] => [
+    ...ownerIds.map((ownerId) => ({
+      userId: ownerId,
+      title: "New Order Received",
+      message: `New order #${placed.id} from ${order.customerName}. Address: ${order.shippingAddress}. ${locationInfo}. Phone: ${order.phone}`,
+      type: "success",
+      orderId: placed.id,
+    })),
+    {
+      userId: customerId,
+      title: "Order Placed",
+      message: `Your order #${placed.id} has been placed and is being processed`,
+      type: "success",
+      orderId: placed.id,
+    },
+  ];
+
+  let placed: PlacedOrder;
+  try {
+    placed = await storage.placeOrder({
+      order,
+      storeOrders,
+      flashSales: flashSales.sales,
+      notifications,
+    });
+  } catch (error) {
+    // Another order took the last units between pricing and writing
+    if (error instanceof OutOfStockError) {
+      const line = lines.find((candidate) => candidate.variant.id === error.variantId)!;
+      throw new OrderRejectedError(STALE_CART, [lineError(line, `Not enough ${line.product.name} is left in stock`)]);
+    }
+    if (error instanceof FlashSaleSoldOutError) {
+      const line = lines.find((candidate) => candidate.product.id === error.productId)!;
+      throw new OrderRejectedError(STALE_CART, [lineError(line, `The ${line.product.name} flash sale just sold out`)]);
+    }
+    throw error;
+  }
+
+  await notifyLowStock(placed.movements);
+  return { order: placed.order, storeOrders: placed.storeOrders, items: placed.items };
+}
+
+// Tells the store owner when a sale or adjustment takes a variant down to
+// its product's low-stock threshold. Only the movement that crosses the
+// threshold notifies, so a run of sales sends one alert
+export async function notifyLowStock(movements: InventoryMovement[]) {
+  for (const movement of movements) {
+    const product = await storage.getProduct(movement.productId);
+    if (!product || movement.quantity >= 0 || movement.stockAfter > product.lowStockThreshold ||
+        movement.stockAfter - movement.quantity <= product.lowStockThreshold) {
+      continue;
+    }
+    const store = await storage.getStore(product.storeId);
+    const variant = await storage.getProductVariant(movement.variantId);
+    const name = variant && variantName(variant);
+    if (store) {
+      await storage.createNotification({
+        userId: store.ownerId,
+        title: movement.stockAfter === 0 ? "Out of Stock" : "Low Stock",
+        message: `${product.name}${name ? ` (${name})` : ""} has ${movement.stockAfter} left in stock`,
+        type: "warning",
+        productId: product.id,
+      });
+    }
+  }
+}
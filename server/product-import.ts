@@ -0,0 +1,151 @@
+import { Readable } from "stream";
+import ExcelJS from "exceljs";
+import { categoryPath } from "./categories";
+import type { Category, Product, ProductVariant } from "@shared/schema";
+
+export type CatalogFormat = "csv" | "xlsx";
+
+// Columns of exported catalogs, one row per variant. Imports match headers
+// case-insensitively and ignore unknown columns
+export const catalogColumns = [
+  "sku", "name", "description", "category", "price", "original_price",
+  "stock", "images", "options", "attributes",
+] as const;
+
+export type CatalogColumn = typeof catalogColumns[number];
+
+export type CatalogRow = Record<CatalogColumn, string> & { rowNumber: number };
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export class CatalogFileError extends Error {}
+
+// "images" holds URLs separated by "|"; "options" and "attributes" hold
+// "key=value" pairs separated by ";"
+const listSeparator = "|";
+const pairSeparator = ";";
+
+export function catalogFormat(fileName: string): CatalogFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  return extension === "csv" || extension === "xlsx" ? extension : null;
+}
+
+export async function readCatalogFile(data: Buffer, format: CatalogFormat): Promise<CatalogRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  let worksheet: ExcelJS.Worksheet | undefined;
+  try {
+    if (format === "csv") {
+      // Keep every value as typed; SKUs like "0012" or "2024-01" must not become numbers or dates
+      worksheet = await workbook.csv.read(Readable.from(data), { map: (value) => value });
+    } else {
+      await workbook.xlsx.load(data);
+      worksheet = workbook.worksheets[0];
+    }
+  } catch (error) {
+    throw new CatalogFileError(`The file is not a valid ${format.toUpperCase()} file`);
+  }
+  if (!worksheet || worksheet.rowCount === 0) {
+    throw new CatalogFileError("The file is empty");
+  }
+
+  const columns = new Map<number, CatalogColumn>();
+  worksheet.getRow(1).eachCell((cell, columnNumber) => {
+    const header = cell.text.trim().toLowerCase().replace(/\s+/g, "_") as CatalogColumn;
+    if (catalogColumns.includes(header)) {
+      columns.set(columnNumber, header);
+    }
+  });
+  const missing = ["sku", "name", "price"].filter((column) => !Array.from(columns.values()).includes(column as CatalogColumn));
+  if (missing.length > 0) {
+    throw new CatalogFileError(`Missing required column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+  }
+
+  const rows: CatalogRow[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) {
+      return;
+    }
+    const values = Object.fromEntries(catalogColumns.map((column) => [column, ""])) as Record<CatalogColumn, string>;
+    columns.forEach((column, columnNumber) => {
+      values[column] = row.getCell(columnNumber).text.trim();
+    });
+    if (Object.values(values).some(Boolean)) {
+      rows.push({ ...values, rowNumber });
+    }
+  });
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new CatalogFileError(`Import at most ${MAX_IMPORT_ROWS} rows at a time`);
+  }
+  return rows;
+}
+
+export async function writeCatalogFile(rows: Record<CatalogColumn, string>[], format: CatalogFormat): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet("Products");
+  worksheet.columns = catalogColumns.map((column) => ({ header: column, key: column, width: column === "description" ? 40 : 18 }));
+  worksheet.addRows(rows);
+  worksheet.getRow(1).font = { bold: true };
+
+  const buffer = format === "csv" ? await workbook.csv.writeBuffer() : await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
+
+function formatPairs(pairs: Record<string, string>): string {
+  return Object.entries(pairs).map(([key, value]) => `${key}=${value}`).join(`${pairSeparator} `);
+}
+
+export function parsePairs(text: string): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const part of text.split(pairSeparator)) {
+    const [key, ...rest] = part.split("=");
+    if (key.trim()) {
+      pairs[key.trim()] = rest.join("=").trim();
+    }
+  }
+  return pairs;
+}
+
+export function parseList(text: string): string[] {
+  return text.split(listSeparator).map((item) => item.trim()).filter(Boolean);
+}
+
+// One export row per active variant; product-level columns repeat on each
+export function catalogRows(products: Product[], variants: ProductVariant[], categories: Category[]): Record<CatalogColumn, string>[] {
+  const byProduct = new Map<number, ProductVariant[]>();
+  for (const variant of variants) {
+    byProduct.set(variant.productId, [...(byProduct.get(variant.productId) ?? []), variant]);
+  }
+
+  return products.flatMap((product) => {
+    const category = product.categoryId
+      ? categoryPath(categories, product.categoryId).map((ancestor) => ancestor.name).join(" > ")
+      : "";
+    return (byProduct.get(product.id) ?? []).map((variant) => ({
+      sku: variant.sku,
+      name: product.name,
+      description: product.description ?? "",
+      category,
+      price: variant.price,
+      original_price: variant.originalPrice ?? "",
+      stock: String(variant.stock),
+      images: (product.images ?? []).join(` ${listSeparator} `),
+      options: formatPairs(variant.optionValues),
+      attributes: formatPairs(product.attributes),
+    }));
+  });
+}
+
+// Accepts a category's name, slug or full "Parent > Child" path as exported
+export function findCategory(categories: Category[], text: string): Category | undefined {
+  const name = text.split(">").pop()!.trim().toLowerCase();
+  return categories.find((category) => category.name.toLowerCase() === name || category.slug.toLowerCase() === name);
+}
+
+// Outcome of validating one row, shown in the dry-run preview
+export interface ImportRowResult {
+  rowNumber: number;
+  sku: string;
+  name: string;
+  action: "create" | "update" | "error";
+  errors: string[];
+}
@@ -0,0 +1,111 @@
+import type { Request, Response, NextFunction } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message: string;
+  keyGenerator?: (req: Request) => string;
+  skip?: (req: Request) => boolean;
+}
+
+interface WindowState {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window counters kept in process memory. Good enough for a single
+// server; swap for a shared store before running multiple instances.
+class MemoryRateLimitStore {
+  private windows = new Map<string, WindowState>();
+
+  constructor(cleanupIntervalMs: number) {
+    setInterval(() => this.prune(), cleanupIntervalMs).unref();
+  }
+
+  hit(key: string, windowMs: number): WindowState {
+    const now = Date.now();
+    let state = this.windows.get(key);
+    if (!state || state.resetAt <= now) {
+      state = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, state);
+    }
+    state.count++;
+    return state;
+  }
+
+  private prune() {
+    const now = Date.now();
+    this.windows.forEach((state, key) => {
+      if (state.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    });
+  }
+}
+
+export function rateLimit(options: RateLimitOptions) {
+  const store = new MemoryRateLimitStore(Math.max(options.windowMs, 60 * 1000));
+  const keyGenerator = options.keyGenerator ?? ((req: Request) => req.ip ?? "unknown");
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (options.skip?.(req)) {
+      return next();
+    }
+
+    const state = store.hit(keyGenerator(req), options.windowMs);
+    const resetSeconds = Math.max(Math.ceil((state.resetAt - Date.now()) / 1000), 0);
+
+    res.set("RateLimit-Limit", String(options.max));
+    res.set("RateLimit-Remaining", String(Math.max(options.max - state.count, 0)));
+    res.set("RateLimit-Reset", String(resetSeconds));
+
+    if (state.count > options.max) {
+      res.set("Retry-After", String(resetSeconds));
+      return res.status(429).json({ error: options.message, retryAfter: resetSeconds });
+    }
+    next();
+  };
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Sign-in, registration and code requests, counted per IP
+export const authRateLimiter = rateLimit({
+  windowMs: envNumber("RATE_LIMIT_AUTH_WINDOW_MS", 15 * 60 * 1000),
+  max: envNumber("RATE_LIMIT_AUTH_MAX", 20),
+  message: "Too many attempts from this address. Please try again later.",
+});
+
+// Anonymous catalogue reads such as product listings and nearby stores
+export const publicReadRateLimiter = rateLimit({
+  windowMs: envNumber("RATE_LIMIT_PUBLIC_WINDOW_MS", 60 * 1000),
+  max: envNumber("RATE_LIMIT_PUBLIC_MAX", 120),
+  message: "Too many requests. Please slow down.",
+  skip: (req) => req.method !== "GET",
+});
+
+// Account lockout policy: the first few failures are free, after that each
+// failure locks the account for twice as long as the last, up to a day.
+const FREE_LOGIN_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+export function getLockoutDuration(failedAttempts: number): number | null {
+  if (failedAttempts < FREE_LOGIN_ATTEMPTS) {
+    return null;
+  }
+  const doublings = failedAttempts - FREE_LOGIN_ATTEMPTS;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** doublings, MAX_LOCKOUT_MS);
+}
+
+export function lockoutMessage(lockedUntil: Date): { error: string; retryAfter: number } {
+  const retryAfter = Math.max(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000), 1);
+  const minutes = Math.ceil(retryAfter / 60);
+  return {
+    error: `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+    retryAfter,
+  };
+}
@@ -0,0 +1,32 @@
+export type AutoHoldReason = "banned_words" | "contains_link";
+
+const DEFAULT_BANNED_WORDS = ["fuck", "shit", "bitch", "bastard", "asshole"];
+
+// REVIEW_BANNED_WORDS (comma separated) adds to the built-in list
+const bannedWords = DEFAULT_BANNED_WORDS.concat(
+  (process.env.REVIEW_BANNED_WORDS ?? "")
+    .split(",")
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean),
+);
+
+const bannedWordPattern = new RegExp(
+  `\\b(${bannedWords.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})\\w*`,
+  "i",
+);
+
+// URLs, bare "www." hosts and anything that looks like a domain name
+const linkPattern = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|np|io|co|info|xyz|link)\b/i;
+
+// Returns why a review should be held for a moderator, or null when it can
+// be published straight away
+export function screenReview(...texts: (string | null | undefined)[]): AutoHoldReason | null {
+  const text = texts.filter(Boolean).join("\n");
+  if (bannedWordPattern.test(text)) {
+    return "banned_words";
+  }
+  if (linkPattern.test(text)) {
+    return "contains_link";
+  }
+  return null;
+}
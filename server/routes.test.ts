@@ -0,0 +1,398 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { issueTokens } from "./auth";
+import { setMailTransport } from "./mail";
+import { setFileStorage, type FileStorage } from "./uploads";
+import { adminRoles, adminHasPermission, type AdminPermission, type AdminRole } from "@shared/permissions";
+import { stubStorage, useTestServer, userIds, users, now, store, product, variant, type FakeStorage, type UserActor } from "./test-fixtures";
+
+// Every guarded route answers 401 to anonymous callers, 403 to signed-in
+// users who don't own the resource and to admins without the route's
+// permission, and 200 to the owner and to admins holding the permission.
+// Storage is replaced with a small fixed world, so no database is needed
+
+const order = {
+  id: 1, customerId: 20, status: "pending", totalAmount: "10.00", shippingAddress: "Main Road",
+  paymentMethod: "cod", customerName: "Customer", phone: "9800000000", latitude: null, longitude: null,
+  cancellationReason: null, createdAt: now,
+};
+
+const storeOrder = {
+  id: 1, orderId: 1, storeId: 1, status: "pending", subtotal: "10.00", deliveryFee: "0.00",
+  totalAmount: "10.00", createdAt: now, updatedAt: now,
+};
+
+const orderItem = {
+  id: 1, orderId: 1, storeOrderId: 1, productId: 1, variantId: 1, variantName: null, quantity: 1,
+  price: "10.00", storeId: 1,
+};
+
+const review = {
+  id: 1, productId: 1, storeId: 1, customerId: 20, orderId: 1, rating: 5, title: null, comment: "Good",
+  images: [], status: "published", sellerReply: null, sellerReplyAt: null, helpfulCount: 0,
+  createdAt: now, updatedAt: now,
+};
+
+const cartItem = { id: 1, userId: 20, productId: 1, variantId: 1, quantity: 1, createdAt: now };
+const wishlistItem = { id: 1, userId: 20, productId: 1, createdAt: now };
+const notification = {
+  id: 1, userId: 20, title: "Hello", message: "Hello", type: "info", isRead: false,
+  orderId: null, productId: null, createdAt: now,
+};
+const returnItem = {
+  id: 1, orderId: 1, orderItemId: 1, customerId: 20, reason: "Damaged", description: null,
+  status: "requested", refundAmount: null, images: [], restockedAt: null, createdAt: now, updatedAt: now,
+};
+const category = { id: 1, name: "Groceries", slug: "groceries", parentId: null, position: 0, image: null, createdAt: now };
+
+const admins = adminRoles.map((role, index) => ({
+  id: index + 1, email: `${role}@example.com`, fullName: role, role, password: "", failedLoginAttempts: 0,
+  lockedUntil: null, createdAt: now,
+}));
+
+const adminToken = (role: AdminRole) => `admin-session-${role}`;
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+// What the routes read and write, answered from the fixtures above
+const fakeStorage: FakeStorage = {
+  getActiveUserSession: async (id: number) => ({ id, userId: id, lastSeenAt: new Date(), userAgent: null, ipAddress: null, createdAt: now }),
+  getActiveUserSessions: async (userId: number) => [{ id: userId, userId, lastSeenAt: now, userAgent: null, ipAddress: null, createdAt: now }],
+  touchUserSession: async () => undefined,
+  revokeUserSession: async () => true,
+  revokeUserSessions: async () => 0,
+  getActiveAdminSession: async (tokenHash: string) => {
+    const admin = admins.find((candidate) => hashToken(adminToken(candidate.role)) === tokenHash);
+    return admin ? { id: admin.id, adminId: admin.id, tokenHash, expiresAt: new Date(Date.now() + 60_000), createdAt: now } : undefined;
+  },
+  revokeAdminSession: async () => true,
+  getAdmin: async (id: number) => admins.find((admin) => admin.id === id),
+  getAllAdmins: async () => admins,
+  getAdminByEmail: async () => undefined,
+  createAdmin: async (data: object) => ({ ...admins[0], ...data, id: 99 }),
+  updateAdmin: async (id: number, data: object) => ({ ...admins[0], ...data, id }),
+
+  getUser: async (id: number) => users.find((user) => user.id === id),
+  updateUser: async (id: number, data: object) => ({ ...users.find((user) => user.id === id)!, ...data }),
+  searchUsers: async () => ({ users, total: users.length }),
+  updateUserStatus: async (id: number, status: string) => ({ ...users.find((user) => user.id === id)!, status }),
+  setPasswordResetRequired: async (id: number) => users.find((user) => user.id === id),
+  getLatestVerificationCode: async () => undefined,
+  countVerificationCodesSince: async () => 0,
+  createVerificationCode: async (data: object) => ({ id: 1, attempts: 0, consumedAt: null, createdAt: now, ...data }),
+  setEmailVerified: async (id: number) => users.find((user) => user.id === id),
+  setPhoneVerified: async (id: number) => users.find((user) => user.id === id),
+
+  getStore: async (id: number) => id === 1 ? store : id === 2 ? { ...store, id: 2, ownerId: 30 } : undefined,
+  getStoresByOwnerId: async () => [],
+  getAllStores: async () => [store],
+  getStoresByStatus: async () => [store],
+  createStore: async (data: object) => ({ ...store, ...data, id: 3 }),
+  updateStore: async (id: number, data: object) => ({ ...store, ...data, id }),
+  updateStoreStatus: async (id: number, status: string) => ({ ...store, id, status }),
+  verifyPendingStoreDocuments: async () => undefined,
+  setStoreFeatured: async (id: number, isFeatured: boolean) => ({ ...store, id, isFeatured }),
+  getStoreDocuments: async () => [],
+  createStoreDocument: async (data: object) => ({ id: 1, status: "pending", createdAt: now, documentNumber: null, ...data }),
+  getReturnPolicy: async () => undefined,
+  createReturnPolicy: async (data: object) => ({ id: 1, isActive: true, createdAt: now, ...data }),
+  updateReturnPolicy: async (storeId: number, data: object) => ({ id: 1, storeId, isActive: true, createdAt: now, ...data }),
+
+  getProduct: async (id: number) => id === 1 ? product : undefined,
+  getProductsByStoreId: async () => [product],
+  createProduct: async (data: object) => ({ ...product, ...data, id: 2 }),
+  updateProduct: async (id: number, data: object) => ({ ...product, ...data, id }),
+  deleteProduct: async () => true,
+  syncOfferStatuses: async () => [],
+  getUnusedImages: async () => [],
+  getCategoryAttributes: async () => [],
+  getProductOptions: async () => [],
+  getProductVariants: async () => [variant],
+  getProductVariant: async (id: number) => id === 1 ? variant : undefined,
+  getDefaultVariant: async () => variant,
+  saveProductVariants: async () => ({ options: [], variants: [variant] }),
+  getVariantsBySkus: async () => [{ ...variant, storeId: 1 }],
+  getStoreVariants: async () => [variant],
+  importCatalog: async () => undefined,
+  getStoreInventory: async () => [],
+  getInventoryMovements: async () => [],
+  adjustStock: async () => ({ id: 1, variantId: 1, productId: 1, quantity: 2, stockAfter: 7, type: "restock", createdAt: now }),
+
+  getAllCategories: async () => [category],
+  getCategory: async (id: number) => id === 1 ? category : undefined,
+  createCategory: async (data: object) => ({ ...category, ...data, id: 2 }),
+  updateCategory: async (id: number, data: object) => ({ ...category, ...data, id }),
+  deleteCategory: async () => true,
+  getCategoryUsage: async () => ({ subcategories: 0, products: 0 }),
+  setCategoryAttributes: async () => [],
+  reorderCategories: async () => undefined,
+
+  getReview: async (id: number) => id === 1 ? review : undefined,
+  updateReview: async (id: number, data: object) => ({ ...review, ...data, id }),
+  deleteReview: async () => true,
+  setSellerReply: async (id: number, reply: string | null) => ({ ...review, id, sellerReply: reply }),
+  addReviewVote: async () => review,
+  removeReviewVote: async () => review,
+  createReviewReport: async () => ({ id: 1 }),
+  getModerationQueue: async () => [],
+  setReviewStatus: async (id: number, status: string) => ({ ...review, id, status }),
+  createReview: async (data: object) => ({ ...review, ...data, id: 2 }),
+  getCustomerProductReview: async () => undefined,
+  getDeliveredOrderItem: async (customerId: number) => customerId === userIds.customer ? orderItem : undefined,
+
+  getCartItems: async () => [],
+  getCartItem: async (id: number) => id === 1 ? cartItem : undefined,
+  addToCart: async (data: object) => ({ ...cartItem, ...data }),
+  updateCartItem: async (id: number, quantity: number) => ({ ...cartItem, id, quantity }),
+  removeFromCart: async () => true,
+  clearCart: async () => true,
+  getWishlistItems: async () => [],
+  getWishlistItem: async (id: number) => id === 1 ? wishlistItem : undefined,
+  addToWishlist: async (data: object) => ({ ...wishlistItem, ...data }),
+  removeFromWishlist: async () => true,
+  isInWishlist: async () => false,
+
+  getOrder: async (id: number) => id === 1 ? order : undefined,
+  getOrdersByCustomerId: async () => [],
+  getOrderItems: async (orderId: number) => orderId === 1 ? [orderItem] : [],
+  getStoreOrder: async (id: number) => id === 1 ? storeOrder : undefined,
+  getStoreOrders: async () => [storeOrder],
+  getStoreOrdersByStore: async () => [],
+  getStoreOrderItems: async () => [orderItem],
+  updateStoreOrderStatus: async (id: number, change: { status: string }) => ({ ...storeOrder, id, status: change.status }),
+  cancelOrder: async () => ({ order, storeOrders: [storeOrder], refunds: [] }),
+  getOrderTracking: async () => [],
+  createOrderTracking: async (data: object) => ({ id: 1, createdAt: now, ...data }),
+  getRefunds: async () => [],
+
+  createReturn: async (data: object) => ({ ...returnItem, ...data, id: 2 }),
+  getReturn: async (id: number) => id === 1 ? returnItem : undefined,
+  getReturnsByCustomer: async () => [],
+  getReturnsByStore: async () => [],
+  updateReturnStatus: async (id: number, status: string) => ({ ...returnItem, id, status }),
+
+  getNotification: async (id: number) => id === 1 ? notification : undefined,
+  getUserNotifications: async () => [],
+  createNotification: async (data: object) => ({ ...notification, ...data }),
+  markNotificationAsRead: async () => true,
+  markAllNotificationsAsRead: async () => true,
+
+  recordVisit: async (data: object) => ({ id: 1, createdAt: now, ...data }),
+  getVisitStats: async () => ({}),
+  getPageViews: async () => [],
+};
+
+const unexpectedCalls = stubStorage(fakeStorage);
+
+class MemoryFileStorage implements FileStorage {
+  async save(key: string): Promise<string> {
+    return `/uploads/${key}`;
+  }
+  async delete(): Promise<void> {}
+  keyFromUrl(url: string): string | null {
+    return url.startsWith("/uploads/") ? url.slice("/uploads/".length) : null;
+  }
+}
+
+const testServer = useTestServer();
+
+before(() => {
+  setMailTransport({ send: async () => {} });
+  setFileStorage(new MemoryFileStorage());
+});
+
+type Caller = { user: UserActor } | { admin: AdminRole } | null;
+
+function authorization(caller: Caller): Record<string, string> {
+  if (!caller) {
+    return {};
+  }
+  if ("admin" in caller) {
+    return { Authorization: `Bearer ${adminToken(caller.admin)}` };
+  }
+  const user = users.find((candidate) => candidate.id === userIds[caller.user])!;
+  return { Authorization: `Bearer ${issueTokens(user, user.id).accessToken}` };
+}
+
+interface GuardedRoute {
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  path: string;
+  body?: () => unknown; // JSON, or FormData for uploads
+  allowed: UserActor[]; // signed-in users who pass; every other user gets 403
+  permission?: AdminPermission; // admins holding it pass; other admins get 403
+  success?: number; // 200 unless the route creates something
+}
+
+async function call(route: GuardedRoute, caller: Caller) {
+  const body = route.body?.();
+  const headers: Record<string, string> = authorization(caller);
+  if (body !== undefined && !(body instanceof FormData)) {
+    headers["Content-Type"] = "application/json";
+  }
+  const response = await fetch(testServer.baseUrl + route.path, {
+    method: route.method,
+    headers,
+    body: body === undefined ? undefined : body instanceof FormData ? body : JSON.stringify(body),
+  });
+  await response.arrayBuffer();
+  return response.status;
+}
+
+function expectStatus(actual: number, expected: number, route: GuardedRoute, caller: Caller) {
+  const who = caller ? ("admin" in caller ? `admin (${caller.admin})` : caller.user) : "anonymous";
+  const unexpected = unexpectedCalls.size > 0 ? `; unexpected storage calls: ${Array.from(unexpectedCalls).join(", ")}` : "";
+  unexpectedCalls.clear();
+  assert.equal(actual, expected, `${route.method} ${route.path} as ${who}${unexpected}`);
+}
+
+let png: Buffer;
+const uploadForm = () => {
+  const form = new FormData();
+  form.append("images", new Blob([png], { type: "image/png" }), "photo.png");
+  return form;
+};
+const catalogForm = () => {
+  const form = new FormData();
+  form.append("file", new Blob(["sku,name,price,stock\nRICE-1,Rice,12,8\n"], { type: "text/csv" }), "catalog.csv");
+  return form;
+};
+
+const allUsers: UserActor[] = ["customer", "otherCustomer", "storeOwner", "otherStoreOwner"];
+
+const guardedRoutes: GuardedRoute[] = [
+  // Signed-in users acting on their own account
+  { method: "POST", path: "/api/auth/verify-email/send", allowed: allUsers },
+  { method: "GET", path: "/api/auth/sessions", allowed: allUsers },
+  { method: "DELETE", path: "/api/auth/sessions", allowed: allUsers },
+  { method: "POST", path: "/api/auth/logout", allowed: allUsers },
+  { method: "GET", path: "/api/auth/me", allowed: allUsers },
+  { method: "GET", path: "/api/users/20", allowed: ["customer"], permission: "manage_users" },
+  { method: "PUT", path: "/api/users/20", body: () => ({ fullName: "Renamed" }), allowed: ["customer"], permission: "manage_users" },
+
+  // Stores and their catalog
+  { method: "POST", path: "/api/stores", body: () => ({ name: "New Store", address: "Side Road" }), allowed: ["storeOwner", "otherStoreOwner"] },
+  { method: "PUT", path: "/api/stores/1/settings", body: () => ({ deliveryFee: 20 }), allowed: ["storeOwner"], permission: "moderate_stores" },
+  { method: "GET", path: "/api/stores/1/products", allowed: ["storeOwner"], permission: "manage_products" },
+  { method: "GET", path: "/api/stores/1/documents", allowed: ["storeOwner"], permission: "moderate_stores" },
+  {
+    method: "POST", path: "/api/stores/1/documents",
+    body: () => ({ type: "pan_vat", documentUrl: "/uploads/documents/scan-large.webp" }),
+    allowed: ["storeOwner"], permission: "moderate_stores",
+  },
+  { method: "POST", path: "/api/uploads/images?folder=products", body: uploadForm, allowed: ["storeOwner", "otherStoreOwner"], permission: "manage_products" },
+  { method: "POST", path: "/api/products", body: () => ({ storeId: 1, name: "Dal", price: "5.00", stock: 3 }), allowed: ["storeOwner"], permission: "manage_products" },
+  { method: "PUT", path: "/api/products/1", body: () => ({ name: "Brown Rice" }), allowed: ["storeOwner"], permission: "manage_products" },
+  { method: "DELETE", path: "/api/products/1", allowed: ["storeOwner"], permission: "manage_products" },
+  {
+    method: "PUT", path: "/api/products/1/variants",
+    body: () => ({ options: [], variants: [{ id: 1, sku: "RICE-1", price: "10.00", stock: 5 }] }),
+    allowed: ["storeOwner"], permission: "manage_products",
+  },
+  { method: "POST", path: "/api/stores/1/products/import?dryRun=true", body: catalogForm, allowed: ["storeOwner"], permission: "manage_products" },
+  { method: "GET", path: "/api/stores/1/products/export", allowed: ["storeOwner"], permission: "manage_products" },
+  { method: "GET", path: "/api/stores/1/inventory", allowed: ["storeOwner"], permission: "manage_products" },
+  { method: "GET", path: "/api/stores/1/inventory/movements", allowed: ["storeOwner"], permission: "manage_products" },
+  {
+    method: "POST", path: "/api/stores/1/inventory/adjustments",
+    body: () => ({ variantId: 1, type: "restock", quantity: 2 }),
+    allowed: ["storeOwner"], permission: "manage_products", success: 201,
+  },
+  { method: "POST", path: "/api/stores/1/return-policy", body: () => ({ storeId: 1, returnDays: 7 }), allowed: ["storeOwner"], permission: "moderate_stores" },
+  { method: "PUT", path: "/api/stores/1/return-policy", body: () => ({ returnDays: 14 }), allowed: ["storeOwner"], permission: "moderate_stores" },
+
+  // Reviews
+  {
+    method: "POST", path: "/api/products/1/reviews",
+    body: () => ({ rating: 5, comment: "Fresh and well packed" }),
+    allowed: ["customer"], success: 201,
+  },
+  { method: "PUT", path: "/api/reviews/1", body: () => ({ rating: 4 }), allowed: ["customer"] },
+  { method: "DELETE", path: "/api/reviews/1", allowed: ["customer"], permission: "moderate_reviews" },
+  { method: "PUT", path: "/api/reviews/1/reply", body: () => ({ reply: "Thank you!" }), allowed: ["storeOwner"], permission: "manage_products" },
+  { method: "DELETE", path: "/api/reviews/1/reply", allowed: ["storeOwner"], permission: "manage_products" },
+
+  // Cart, wishlist and notifications belong to one customer
+  { method: "GET", path: "/api/cart/20", allowed: ["customer"], permission: "manage_users" },
+  { method: "PUT", path: "/api/cart/1", body: () => ({ quantity: 2 }), allowed: ["customer"], permission: "manage_users" },
+  { method: "DELETE", path: "/api/cart/1", allowed: ["customer"], permission: "manage_users" },
+  { method: "DELETE", path: "/api/cart/user/20", allowed: ["customer"], permission: "manage_users" },
+  { method: "GET", path: "/api/wishlist/20", allowed: ["customer"], permission: "manage_users" },
+  { method: "DELETE", path: "/api/wishlist/1", allowed: ["customer"], permission: "manage_users" },
+  { method: "GET", path: "/api/wishlist/20/check/1", allowed: ["customer"], permission: "manage_users" },
+  { method: "GET", path: "/api/notifications/user/20", allowed: ["customer"], permission: "manage_users" },
+  { method: "PUT", path: "/api/notifications/1/read", allowed: ["customer"], permission: "manage_users" },
+  { method: "PUT", path: "/api/notifications/user/20/read-all", allowed: ["customer"], permission: "manage_users" },
+
+  // Orders and returns
+  { method: "GET", path: "/api/orders/customer/20", allowed: ["customer"], permission: "manage_orders" },
+  { method: "GET", path: "/api/orders/store/1", allowed: ["storeOwner"], permission: "manage_orders" },
+  { method: "PUT", path: "/api/store-orders/1/status", body: () => ({ status: "confirmed" }), allowed: ["storeOwner"], permission: "manage_orders" },
+  {
+    method: "POST", path: "/api/store-orders/1/tracking",
+    body: () => ({ status: "confirmed", description: "Packed soon" }),
+    allowed: ["storeOwner"], permission: "manage_orders",
+  },
+  { method: "GET", path: "/api/orders/1/tracking", allowed: ["customer", "storeOwner"], permission: "manage_orders" },
+  { method: "GET", path: "/api/returns/customer/20", allowed: ["customer"], permission: "manage_orders" },
+  { method: "GET", path: "/api/returns/store/1", allowed: ["storeOwner"], permission: "manage_orders" },
+  { method: "PUT", path: "/api/returns/1/status", body: () => ({ status: "approved" }), allowed: ["storeOwner"], permission: "issue_refunds" },
+
+  // Admin panel
+  { method: "POST", path: "/api/admin/create", body: () => ({ email: "new@example.com", fullName: "New Admin", password: "long-password", role: "support" }), allowed: [], permission: "manage_admins" },
+  { method: "GET", path: "/api/admin/admins", allowed: [], permission: "manage_admins" },
+  { method: "PUT", path: "/api/admin/admins/2/role", body: () => ({ role: "support" }), allowed: [], permission: "manage_admins" },
+  { method: "GET", path: "/api/admin/users", allowed: [], permission: "manage_users" },
+  { method: "PUT", path: "/api/admin/users/20/status", body: () => ({ status: "active" }), allowed: [], permission: "manage_users" },
+  { method: "POST", path: "/api/admin/users/20/force-password-reset", allowed: [], permission: "manage_users" },
+  { method: "PUT", path: "/api/admin/users/20/role", body: () => ({ role: "store_owner" }), allowed: [], permission: "manage_users" },
+  { method: "POST", path: "/api/notifications", body: () => ({ userId: 20, title: "Hello", message: "Hello", type: "info" }), allowed: [], permission: "manage_users" },
+  { method: "GET", path: "/api/admin/stores", allowed: [], permission: "moderate_stores" },
+  { method: "PUT", path: "/api/admin/stores/1/status", body: () => ({ status: "approved" }), allowed: [], permission: "moderate_stores" },
+  { method: "PUT", path: "/api/admin/stores/1/featured", body: () => ({ featured: true }), allowed: [], permission: "moderate_stores" },
+  { method: "GET", path: "/api/admin/refunds", allowed: [], permission: "issue_refunds" },
+  { method: "GET", path: "/api/admin/reviews", allowed: [], permission: "moderate_reviews" },
+  { method: "PUT", path: "/api/admin/reviews/1/status", body: () => ({ status: "hidden", reason: "spam" }), allowed: [], permission: "moderate_reviews" },
+  { method: "DELETE", path: "/api/admin/reviews/1", body: () => ({ reason: "spam" }), allowed: [], permission: "moderate_reviews" },
+  { method: "GET", path: "/api/admin/analytics/stats", allowed: [], permission: "view_analytics" },
+  { method: "GET", path: "/api/admin/analytics/visits", allowed: [], permission: "view_analytics" },
+  { method: "POST", path: "/api/categories", body: () => ({ name: "Snacks", slug: "snacks" }), allowed: [], permission: "manage_categories" },
+  { method: "PUT", path: "/api/categories/1", body: () => ({ name: "Staples" }), allowed: [], permission: "manage_categories" },
+  { method: "DELETE", path: "/api/categories/1", allowed: [], permission: "manage_categories" },
+  { method: "PUT", path: "/api/categories/1/attributes", body: () => ({ attributes: [] }), allowed: [], permission: "manage_categories" },
+  {
+    method: "PUT", path: "/api/categories/reorder",
+    body: () => ({ categories: [{ id: 1, parentId: null, position: 0 }] }),
+    allowed: [], permission: "manage_categories",
+  },
+];
+
+describe("route authorization", () => {
+  before(async () => {
+    png = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#888" } }).png().toBuffer();
+  });
+
+  for (const route of guardedRoutes) {
+    describe(`${route.method} ${route.path}`, () => {
+      it("rejects anonymous callers with 401", async () => {
+        expectStatus(await call(route, null), 401, route, null);
+      });
+
+      it("lets the owner through and answers 403 to other users", async () => {
+        for (const user of allUsers) {
+          const caller = { user };
+          expectStatus(await call(route, caller), route.allowed.includes(user) ? route.success ?? 200 : 403, route, caller);
+        }
+      });
+
+      it("lets admins holding the permission through and answers 403 to other admins", async () => {
+        for (const role of adminRoles) {
+          const caller = { admin: role };
+          // Routes for users alone don't know admin sessions at all
+          const expected = !route.permission ? 401 : adminHasPermission(role, route.permission) ? route.success ?? 200 : 403;
+          expectStatus(await call(route, caller), expected, route, caller);
+        }
+      });
+    });
+  }
+});
@@ -1,13 +1,256 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, decodeProductCursor, InvalidStatusTransitionError, OrderNotCancellableError, ReturnAlreadyRequestedError, type CatalogImportChange, type ProductSort, type ReviewSort, type ReviewWithAuthor, type ModerationQueueFilter } from "./storage";
 import {
-  insertUserSchema, insertStoreSchema, insertProductSchema, insertOrderSchema, insertCartItemSchema,
+  authenticate, authenticateAdmin, requireAuth, requireRole, getBearerToken, hashPassword,
+  verifyPassword, issueTokens, verifyRefreshToken, createUserSession, createAdminSession, revokeAdminSession
+} from "./auth";
+import { issueVerificationCode, consumeVerificationCode, sendVerificationEmail, sendLoginSms } from "./verification";
+import { normalizePhone } from "./sms";
+import { sendMail } from "./mail";
+import { authRateLimiter, publicReadRateLimiter, getLockoutDuration, lockoutMessage } from "./rate-limit";
+import { screenReview } from "./review-moderation";
+import { categoryPath, descendantIds, hasCategoryCycle, normalizeProductAttributes } from "./categories";
+import { serveUploads, imageUpload, catalogUpload, saveImage, deleteImages, UploadError } from "./uploads";
+import {
+  readCatalogFile, writeCatalogFile, catalogFormat, catalogRows, findCategory, parseList, parsePairs,
+  CatalogFileError, type CatalogRow, type ImportRowResult
+} from "./product-import";
+import { placeOrder, resolveVariant, notifyLowStock, OrderRejectedError } from "./orders";
+import { idempotent } from "./idempotency";
+import {
+  insertUserSchema, insertStoreSchema, insertProductSchema, insertCartItemSchema,
   insertWishlistItemSchema, insertAdminSchema, insertWebsiteVisitSchema, insertNotificationSchema,
-  insertOrderTrackingSchema, insertReturnPolicySchema, insertReturnSchema, insertCategorySchema
+  insertOrderTrackingSchema, insertReturnPolicySchema, insertReturnSchema, insertCategorySchema,
+  categoryAttributesInputSchema, reorderCategoriesSchema,
+  updateUserStatusSchema, updateStoreStatusSchema, insertStoreDocumentSchema, reviewInputSchema,
+  sellerReplySchema, reportReviewSchema, moderateReviewSchema, deleteReviewSchema, productVariantsInputSchema,
+  stockAdjustmentSchema, storeSettingsSchema, updateStoreOrderStatusSchema, cancelOrderSchema, updateReturnStatusSchema, type User, type Product, type InsertProduct, type ProductVariant, type Store, type Admin
 } from "@shared/schema";
+import {
+  adminHasPermission, getAdminPermissions, isAdminRole, type AdminPermission
+} from "@shared/permissions";
+import { isUploadedImage, UPLOADS_PATH, type ImageRenditionUrls } from "@shared/images";
+import { offerPrice } from "@shared/offers";
+import { orderStatusLabel } from "@shared/orders";
+
+// Authorization helpers
+type AuthorizationCheck = (req: Request) => boolean | Promise<boolean>;
+
+function adminCan(req: Request, permission: AdminPermission): boolean {
+  return !!req.admin && adminHasPermission(req.admin.role, permission);
+}
+
+// Admin panel requests carry an admin session token rather than a user JWT
+function isAdminRequest(req: Request): boolean {
+  return !!req.admin;
+}
+
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (isAdminRequest(req)) {
+    return next();
+  }
+  if (!getBearerToken(req)) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  res.status(403).json({ error: "Admin access required" });
+}
+
+function requirePermission(permission: AdminPermission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!isAdminRequest(req)) {
+      return requireAdmin(req, res, next);
+    }
+    if (!adminCan(req, permission)) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+// Lets through admins holding `adminPermission`; everyone else must be
+// signed in and pass `check`
+function authorize(check: AuthorizationCheck, adminPermission: AdminPermission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (adminCan(req, adminPermission)) {
+      return next();
+    }
+    if (isAdminRequest(req)) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    if (!req.auth) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      if (!(await check(req))) {
+        return res.status(403).json({ error: "You do not have permission to perform this action" });
+      }
+      next();
+    } catch (error) {
+      console.error("Authorization error:", error);
+      res.status(500).json({ error: "Authorization check failed" });
+    }
+  };
+}
+
+function callerId(req: Request): number {
+  return req.auth!.userId;
+}
+
+const isSelf = (param: string, adminPermission: AdminPermission) =>
+  authorize((req) => callerId(req) === parseInt(req.params[param]), adminPermission);
+
+// A store owner demoted to customer no longer manages their stores
+async function ownsStore(userId: number, storeId: number): Promise<boolean> {
+  const [store, user] = await Promise.all([storage.getStore(storeId), storage.getUser(userId)]);
+  return !!store && store.ownerId === userId && user?.role === "store_owner";
+}
+
+async function ownsProduct(userId: number, productId: number): Promise<boolean> {
+  const product = await storage.getProduct(productId);
+  return !!product && await ownsStore(userId, product.storeId);
+}
+
+async function isReviewAuthor(userId: number, reviewId: number): Promise<boolean> {
+  const review = await storage.getReview(reviewId);
+  return !!review && review.customerId === userId;
+}
+
+async function ownsReviewedStore(userId: number, reviewId: number): Promise<boolean> {
+  const review = await storage.getReview(reviewId);
+  return !!review && await ownsStore(userId, review.storeId);
+}
+
+// A store owner may manage an order when it contains items from their store
+async function canManageOrder(userId: number, orderId: number): Promise<boolean> {
+  const items = await storage.getOrderItems(orderId);
+  const storeIds = Array.from(new Set(items.map((item) => item.storeId)));
+  for (const storeId of storeIds) {
+    if (await ownsStore(userId, storeId)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function ownsStoreOrder(userId: number, storeOrderId: number): Promise<boolean> {
+  const storeOrder = await storage.getStoreOrder(storeOrderId);
+  return !!storeOrder && await ownsStore(userId, storeOrder.storeId);
+}
+
+// Stores under review or suspended are only visible to their owner and moderators
+function canSeeStore(req: Request, store: Store): boolean {
+  if (store.status === "approved" && store.isActive) {
+    return true;
+  }
+  return adminCan(req, "moderate_stores") || req.auth?.userId === store.ownerId;
+}
+
+async function canViewOrder(userId: number, orderId: number): Promise<boolean> {
+  const order = await storage.getOrder(orderId);
+  if (!order) {
+    return false;
+  }
+  return order.customerId === userId || await canManageOrder(userId, orderId);
+}
+
+// Suspended and banned accounts can't sign in or place orders
+function accountBlockedMessage(user: User): string | null {
+  if (user.status === "suspended") {
+    return user.statusReason
+      ? `Your account has been suspended: ${user.statusReason}`
+      : "Your account has been suspended";
+  }
+  if (user.status === "banned") {
+    return user.statusReason
+      ? `Your account has been banned: ${user.statusReason}`
+      : "Your account has been banned";
+  }
+  return null;
+}
+
+async function requireActiveAccount(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await storage.getUser(callerId(req));
+    if (!user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    const blocked = accountBlockedMessage(user);
+    if (blocked) {
+      return res.status(403).json({ error: blocked, status: user.status });
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to verify account status" });
+  }
+}
+
+// Responds with 429 and returns true while an account is locked out
+function rejectIfLocked(res: Response, lockedUntil: Date | null): boolean {
+  if (!lockedUntil || lockedUntil <= new Date()) {
+    return false;
+  }
+  const locked = lockoutMessage(lockedUntil);
+  res.set("Retry-After", String(locked.retryAfter));
+  res.status(429).json(locked);
+  return true;
+}
+
+async function sendLockoutEmail(email: string, lockedUntil: Date) {
+  try {
+    await sendMail({
+      to: email,
+      subject: "Your Siraha Bazaar account has been temporarily locked",
+      text: `We locked your account after several failed sign-in attempts. You can try again after ${lockedUntil.toLocaleString()}.\n\nIf this wasn't you, reset your password once the lock expires.`,
+    });
+  } catch (error) {
+    console.error("Failed to send lockout email:", error);
+  }
+}
+
+async function recordFailedUserLogin(user: User) {
+  const updatedUser = await storage.recordFailedUserLogin(user.id);
+  const lockout = updatedUser ? getLockoutDuration(updatedUser.failedLoginAttempts) : null;
+  if (lockout === null) {
+    return;
+  }
+
+  const lockedUntil = new Date(Date.now() + lockout);
+  await storage.lockUser(user.id, lockedUntil);
+  await storage.createNotification({
+    userId: user.id,
+    title: "Account Temporarily Locked",
+    message: `Your account was locked after several failed sign-in attempts. You can try again after ${lockedUntil.toLocaleString()}.`,
+    type: "warning",
+  });
+  if (user.email) {
+    await sendLockoutEmail(user.email, lockedUntil);
+  }
+}
+
+async function recordFailedAdminLogin(admin: Admin) {
+  const updatedAdmin = await storage.recordFailedAdminLogin(admin.id);
+  const lockout = updatedAdmin ? getLockoutDuration(updatedAdmin.failedLoginAttempts) : null;
+  if (lockout === null) {
+    return;
+  }
+
+  const lockedUntil = new Date(Date.now() + lockout);
+  await storage.lockAdmin(admin.id, lockedUntil);
+  await sendLockoutEmail(admin.email, lockedUntil);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Identify the caller from the Authorization header on every request
+  app.use(authenticate);
+  app.use(authenticateAdmin);
+
+  app.use(UPLOADS_PATH, serveUploads);
+
+  // Throttle anonymous catalogue reads per IP
+  app.use(["/api/products", "/api/stores", "/api/categories"], publicReadRateLimiter);
+
   // Middleware to track website visits
   app.use(async (req, res, next) => {
     try {
@@ -17,7 +260,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         page: req.path,
         referrer: req.get('Referrer'),
         sessionId: (req as any).sessionID || 'anonymous',
-        userId: req.body?.userId || null
+        userId: req.auth?.userId || null
       };
 
       await storage.recordVisit(visitData);
@@ -28,7 +271,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Authentication routes
-  app.post("/api/auth/register", async (req, res) => {
+  app.post("/api/auth/register", authRateLimiter, async (req, res) => {
     try {
       const userData = insertUserSchema.parse(req.body);
 
@@ -43,67 +286,370 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "User already exists" });
       }
 
-      const user = await storage.createUser(userData);
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
+
+      // Registration succeeds even if the verification email can't be sent;
+      // the user can request another code from their account
+      try {
+        const verification = await issueVerificationCode(userData.email, "email_verification");
+        if (verification.issued) {
+          await sendVerificationEmail(userData.email, "email_verification", verification.code);
+        }
+      } catch (error) {
+        console.error("Failed to send verification email:", error);
+      }
 
       // Don't send password back
       const { password, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword });
+      res.json({ user: userWithoutPassword, ...(await createUserSession(user, req)) });
     } catch (error) {
       console.error("Registration error details:", error);
       res.status(400).json({ error: "Invalid user data" });
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", authRateLimiter, async (req, res) => {
     try {
       const { email, password } = req.body;
 
+      if (typeof email !== "string" || typeof password !== "string") {
+        return res.status(400).json({ error: "Email and password are required" });
+      }
+
+      // Accounts created through phone sign-in have no password yet
       const user = await storage.getUserByEmail(email);
-      if (!user || user.password !== password) {
+      if (!user || !user.password) {
         return res.status(401).json({ error: "Invalid credentials" });
       }
+      if (rejectIfLocked(res, user.lockedUntil)) {
+        return;
+      }
+
+      const { valid, needsRehash } = await verifyPassword(password, user.password);
+      if (!valid) {
+        await recordFailedUserLogin(user);
+        return res.status(401).json({ error: "Invalid credentials" });
+      }
+      if (user.failedLoginAttempts > 0) {
+        await storage.resetUserLoginFailures(user.id);
+      }
+
+      const blocked = accountBlockedMessage(user);
+      if (blocked) {
+        return res.status(403).json({ error: blocked, status: user.status });
+      }
+      if (user.passwordResetRequired) {
+        return res.status(403).json({
+          error: "You must reset your password before signing in",
+          code: "password_reset_required",
+        });
+      }
+
+      // Migrate legacy plaintext passwords on successful login
+      if (needsRehash) {
+        await storage.updateUser(user.id, { password: await hashPassword(password) });
+      }
 
       // Don't send password back
       const { password: _, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword });
+      res.json({ user: userWithoutPassword, ...(await createUserSession(user, req)) });
     } catch (error) {
       res.status(500).json({ error: "Login failed" });
     }
   });
 
-  // Store routes
-  app.get("/api/stores", async (req, res) => {
+  app.post("/api/auth/refresh", async (req, res) => {
     try {
-      const stores = await storage.getAllStores();
-      res.json(stores);
+      const { refreshToken } = req.body;
+      const principal = typeof refreshToken === "string" ? verifyRefreshToken(refreshToken) : null;
+      if (!principal) {
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      // Signed-out devices can't refresh
+      const session = await storage.getActiveUserSession(principal.sessionId);
+      if (!session || session.userId !== principal.userId) {
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      // Re-read the user so role changes and deletions take effect
+      const user = await storage.getUser(principal.userId);
+      if (!user || accountBlockedMessage(user) || user.passwordResetRequired) {
+        return res.status(401).json({ error: "Invalid refresh token" });
+      }
+
+      await storage.touchUserSession(session.id, req.ip);
+      res.json(issueTokens(user, session.id));
     } catch (error) {
-      console.error("Store fetch error:", error);
-      res.status(500).json({ error: "Failed to fetch stores" });
+      res.status(500).json({ error: "Token refresh failed" });
     }
   });
 
-  app.get("/api/stores/:id", async (req, res) => {
+  // Password reset and email verification codes
+  app.post("/api/auth/forgot-password", authRateLimiter, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const store = await storage.getStore(id);
+      const { email } = req.body;
+      if (typeof email !== "string" || !email) {
+        return res.status(400).json({ error: "Email is required" });
+      }
 
-      if (!store) {
-        return res.status(404).json({ error: "Store not found" });
+      // Respond the same way whether or not the account exists
+      const user = await storage.getUserByEmail(email);
+      if (user && user.status !== "banned") {
+        const result = await issueVerificationCode(email, "password_reset");
+        if (!result.issued) {
+          res.set("Retry-After", String(result.retryAfterSeconds));
+          return res.status(429).json({
+            error: "Too many reset requests. Please try again later.",
+            retryAfter: result.retryAfterSeconds,
+          });
+        }
+        await sendVerificationEmail(email, "password_reset", result.code);
       }
 
-      res.json(store);
+      res.json({ message: "If an account exists for that email, a reset code has been sent" });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch store" });
+      console.error("Forgot password error:", error);
+      res.status(500).json({ error: "Failed to send reset code" });
     }
   });
 
-  app.get("/api/stores/owner/:ownerId", async (req, res) => {
+  app.post("/api/auth/reset-password", authRateLimiter, async (req, res) => {
     try {
-      const ownerId = parseInt(req.params.ownerId);
-      const stores = await storage.getStoresByOwnerId(ownerId);
+      const { email, code, password } = req.body;
+      if (typeof email !== "string" || typeof code !== "string" || typeof password !== "string") {
+        return res.status(400).json({ error: "Email, code and new password are required" });
+      }
+      if (password.length < 6) {
+        return res.status(400).json({ error: "Password must be at least 6 characters" });
+      }
+
+      const user = await storage.getUserByEmail(email);
+      if (!user || !(await consumeVerificationCode(email, "password_reset", code))) {
+        return res.status(400).json({ error: "Invalid or expired code" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(password) });
+      await storage.setPasswordResetRequired(user.id, false);
+      await storage.resetUserLoginFailures(user.id);
+      await storage.revokeUserSessions(user.id);
+      // Receiving the code proves the user controls the address
+      await storage.setEmailVerified(user.id, true);
+
+      res.json({ message: "Your password has been reset" });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(500).json({ error: "Failed to reset password" });
+    }
+  });
+
+  app.post("/api/auth/verify-email/send", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(callerId(req));
+      if (!user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      if (!user.email) {
+        return res.status(400).json({ error: "Add an email address to your account first" });
+      }
+      if (user.emailVerified) {
+        return res.status(400).json({ error: "Email is already verified" });
+      }
+
+      const result = await issueVerificationCode(user.email, "email_verification");
+      if (!result.issued) {
+        res.set("Retry-After", String(result.retryAfterSeconds));
+        return res.status(429).json({
+          error: "Please wait before requesting another code",
+          retryAfter: result.retryAfterSeconds,
+        });
+      }
+      await sendVerificationEmail(user.email, "email_verification", result.code);
+
+      res.json({ message: "Verification code sent" });
+    } catch (error) {
+      console.error("Verification email error:", error);
+      res.status(500).json({ error: "Failed to send verification code" });
+    }
+  });
+
+  app.post("/api/auth/verify-email", requireAuth, async (req, res) => {
+    try {
+      const { code } = req.body;
+      if (typeof code !== "string") {
+        return res.status(400).json({ error: "Code is required" });
+      }
+
+      const user = await storage.getUser(callerId(req));
+      if (!user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      if (!user.email || !(await consumeVerificationCode(user.email, "email_verification", code))) {
+        return res.status(400).json({ error: "Invalid or expired code" });
+      }
+
+      const verifiedUser = await storage.setEmailVerified(user.id, true);
+      const { password, ...userWithoutPassword } = verifiedUser!;
+      res.json({ user: userWithoutPassword });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to verify email" });
+    }
+  });
+
+  // Passwordless sign-in with a code sent by SMS
+  app.post("/api/auth/phone/request-code", authRateLimiter, async (req, res) => {
+    try {
+      const phone = typeof req.body.phone === "string" ? normalizePhone(req.body.phone) : null;
+      if (!phone) {
+        return res.status(400).json({ error: "Please enter a valid mobile number" });
+      }
+
+      const result = await issueVerificationCode(phone, "phone_login");
+      if (!result.issued) {
+        res.set("Retry-After", String(result.retryAfterSeconds));
+        return res.status(429).json({
+          error: "Please wait before requesting another code",
+          retryAfter: result.retryAfterSeconds,
+        });
+      }
+      await sendLoginSms(phone, result.code);
+
+      res.json({ message: "Login code sent", phone });
+    } catch (error) {
+      console.error("Phone login code error:", error);
+      res.status(500).json({ error: "Failed to send login code" });
+    }
+  });
+
+  app.post("/api/auth/phone/verify", authRateLimiter, async (req, res) => {
+    try {
+      const { code, fullName } = req.body;
+      const phone = typeof req.body.phone === "string" ? normalizePhone(req.body.phone) : null;
+      if (!phone || typeof code !== "string") {
+        return res.status(400).json({ error: "Phone number and code are required" });
+      }
+      if (!(await consumeVerificationCode(phone, "phone_login", code))) {
+        return res.status(400).json({ error: "Invalid or expired code" });
+      }
+
+      // Sign into the account that verified this phone. A number saved
+      // unverified on a single account is verified by this code and signs
+      // into that account; a new account is made only for an unknown number
+      let existingUser = await storage.getUserByVerifiedPhone(phone);
+      if (!existingUser) {
+        const accounts = await storage.getUsersByPhone(phone);
+        if (accounts.length > 1) {
+          return res.status(409).json({ error: "This number is on more than one account. Please sign in with your email and password" });
+        }
+        existingUser = accounts[0];
+      }
+      let user: User;
+      if (existingUser) {
+        if (rejectIfLocked(res, existingUser.lockedUntil)) {
+          return;
+        }
+        const blocked = accountBlockedMessage(existingUser);
+        if (blocked) {
+          return res.status(403).json({ error: blocked, status: existingUser.status });
+        }
+        if (existingUser.passwordResetRequired) {
+          return res.status(403).json({
+            error: "You must reset your password before signing in",
+            code: "password_reset_required",
+          });
+        }
+        user = existingUser.phoneVerified
+          ? existingUser
+          : (await storage.setPhoneVerified(existingUser.id, true))!;
+      } else {
+        const name = typeof fullName === "string" && fullName.trim() ? fullName.trim() : "Customer";
+        user = await storage.createPhoneUser(name, phone);
+      }
+
+      const { password, ...userWithoutPassword } = user;
+      res.json({ user: userWithoutPassword, isNewUser: !existingUser, ...(await createUserSession(user, req)) });
+    } catch (error) {
+      console.error("Phone login error:", error);
+      res.status(500).json({ error: "Phone login failed" });
+    }
+  });
+
+  // Signed-in devices
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const sessions = await storage.getActiveUserSessions(callerId(req));
+      res.json(sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        lastSeenAt: session.lastSeenAt,
+        createdAt: session.createdAt,
+        current: session.id === req.auth!.sessionId,
+      })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getActiveUserSession(parseInt(req.params.id));
+      if (!session || session.userId !== callerId(req)) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      await storage.revokeUserSession(session.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke session" });
+    }
+  });
+
+  // Signs out every device except the one making the request
+  app.delete("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const revoked = await storage.revokeUserSessions(callerId(req), req.auth!.sessionId);
+      res.json({ revoked });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke sessions" });
+    }
+  });
+
+  app.post("/api/auth/logout", requireAuth, async (req, res) => {
+    try {
+      await storage.revokeUserSession(req.auth!.sessionId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Logout failed" });
+    }
+  });
+
+  app.get("/api/auth/me", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.auth!.userId);
+      if (!user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      // Don't send password back
+      const { password, ...userWithoutPassword } = user;
+      res.json({ user: userWithoutPassword });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch user" });
+    }
+  });
+
+  // Store routes
+  app.get("/api/stores", async (req, res) => {
+    try {
+      const stores = await storage.getVisibleStores();
       res.json(stores);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch stores for owner" });
+      console.error("Store fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch stores" });
     }
   });
 
@@ -130,9 +676,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/stores", async (req, res) => {
+  app.get("/api/stores/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const store = await storage.getStore(id);
+
+      if (!store || !canSeeStore(req, store)) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      res.json(store);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch store" });
+    }
+  });
+
+  app.get("/api/stores/owner/:ownerId", async (req, res) => {
+    try {
+      const ownerId = parseInt(req.params.ownerId);
+      const stores = await storage.getStoresByOwnerId(ownerId);
+      res.json(stores.filter((store) => canSeeStore(req, store)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stores for owner" });
+    }
+  });
+
+  app.post("/api/stores", requireRole("store_owner"), async (req, res) => {
     try {
-      const storeData = insertStoreSchema.parse(req.body);
+      const storeData = insertStoreSchema.parse({ ...req.body, ownerId: callerId(req) });
 
       // Check if user already has a store
       const existingStores = await storage.getStoresByOwnerId(storeData.ownerId);
@@ -153,96 +724,831 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const store = await storage.createStore(storeData);
-      res.json(store);
+      const store = await storage.createStore(storeData);
+
+      await storage.createNotification({
+        userId: store.ownerId,
+        title: "Store Submitted for Review",
+        message: `${store.name} will be listed once an administrator approves it. Upload your PAN/VAT registration and citizenship ID to speed up verification.`,
+        type: "info"
+      });
+
+      res.json(store);
+    } catch (error) {
+      console.error("Store creation error:", error);
+      res.status(400).json({
+        error: "Invalid store data",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.put("/api/stores/:id/settings", authorize((req) => ownsStore(callerId(req), parseInt(req.params.id)), "moderate_stores"), async (req, res) => {
+    try {
+      const parsed = storeSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const store = await storage.updateStore(parseInt(req.params.id), parsed.data);
+      if (!store) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+      res.json(store);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update store settings" });
+    }
+  });
+
+  app.get("/api/stores/:id/products", authorize((req) => ownsStore(callerId(req), parseInt(req.params.id)), "manage_products"), async (req, res) => {
+    try {
+      const products = await storage.getProductsByStoreId(parseInt(req.params.id));
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch store products" });
+    }
+  });
+
+  // Store verification documents
+  app.get("/api/stores/:id/documents", authorize((req) => ownsStore(callerId(req), parseInt(req.params.id)), "moderate_stores"), async (req, res) => {
+    try {
+      const documents = await storage.getStoreDocuments(parseInt(req.params.id));
+      res.json(documents);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch store documents" });
+    }
+  });
+
+  app.post("/api/stores/:id/documents", authorize((req) => ownsStore(callerId(req), parseInt(req.params.id)), "moderate_stores"), async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.id);
+      const documentData = insertStoreDocumentSchema.parse({ ...req.body, storeId });
+      const document = await storage.createStoreDocument(documentData);
+
+      // Resubmitting documents puts a rejected store back in the review queue
+      const store = await storage.getStore(storeId);
+      if (store?.status === "rejected") {
+        await storage.updateStoreStatus(storeId, "pending_review");
+      }
+
+      res.json(document);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid document data" });
+    }
+  });
+
+  // Image uploads. Files are resized into thumbnail, medium and large
+  // renditions; clients store the large URL on the product or store
+  const uploadFolders = ["products", "stores", "documents"];
+
+  app.post("/api/uploads/images", authorize((req) => req.auth!.role === "store_owner", "manage_products"), imageUpload, async (req, res) => {
+    try {
+      const folder = uploadFolders.includes(req.query.folder as string) ? req.query.folder as string : "products";
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length === 0) {
+        return res.status(400).json({ error: "No images uploaded" });
+      }
+
+      const images: ImageRenditionUrls[] = [];
+      for (const file of files) {
+        images.push(await saveImage(folder, file.buffer));
+      }
+      res.json({ images });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Image upload error:", error);
+      res.status(500).json({ error: "Failed to upload images" });
+    }
+  });
+
+  // Deletes uploaded files behind the given URLs once nothing shows them any more
+  async function removeUnusedImages(urls: string[]) {
+    try {
+      const unused = await storage.getUnusedImages(Array.from(new Set(urls.filter(isUploadedImage))));
+      await deleteImages(unused);
+    } catch (error) {
+      console.error("Image cleanup error:", error);
+    }
+  }
+
+  // Product routes
+  const productSorts: ProductSort[] = ["relevance", "popularity", "price-low", "price-high", "rating", "newest"];
+
+  const numberParam = (value: unknown) => {
+    const number = parseFloat(value as string);
+    return Number.isFinite(number) ? number : undefined;
+  };
+
+  app.get("/api/products", async (req, res) => {
+    try {
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 24, 1), 100);
+      // A category also matches the products of its subcategories
+      let categoryIds = String(req.query.categories ?? req.query.category ?? "")
+        .split(",")
+        .map((id) => parseInt(id))
+        .filter((id) => !isNaN(id));
+      if (categoryIds.length > 0) {
+        categoryIds = descendantIds(await storage.getAllCategories(), categoryIds);
+      }
+
+      let after;
+      if (req.query.cursor) {
+        after = decodeProductCursor(req.query.cursor as string);
+        if (!after) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+      }
+
+      // Owners and moderators can list the products of a store that is not live yet
+      let storeId: number | undefined;
+      let includeHiddenStore = false;
+      if (req.query.storeId) {
+        const store = await storage.getStore(parseInt(req.query.storeId as string));
+        if (!store || !canSeeStore(req, store)) {
+          return res.status(404).json({ error: "Store not found" });
+        }
+        storeId = store.id;
+        includeHiddenStore = true;
+      }
+
+      const search = (req.query.search as string)?.trim() || undefined;
+      const result = await storage.listProducts({
+        search,
+        categoryIds,
+        storeId,
+        includeHiddenStore,
+        minPrice: numberParam(req.query.minPrice),
+        maxPrice: numberParam(req.query.maxPrice),
+        inStock: req.query.inStock === "true",
+        onOffer: req.query.onOffer === "true",
+        minRating: numberParam(req.query.minRating),
+        sort: productSorts.find((option) => option === req.query.sort) ?? (search ? "relevance" : "popularity"),
+        page,
+        limit,
+        after,
+      });
+
+      res.json({
+        ...result,
+        page,
+        limit,
+        totalPages: Math.ceil(result.total / limit),
+      });
+    } catch (error) {
+      console.error("Product listing error:", error);
+      res.status(500).json({ error: "Failed to fetch products" });
+    }
+  });
+
+  // Autocomplete for the search box, called as the shopper types
+  app.get("/api/products/suggestions", async (req, res) => {
+    try {
+      const query = String(req.query.q ?? "").trim();
+      if (query.length < 2) {
+        return res.json({ products: [], categories: [] });
+      }
+      res.json(await storage.getSearchSuggestions(query.slice(0, 100), 6));
+    } catch (error) {
+      console.error("Search suggestions error:", error);
+      res.status(500).json({ error: "Failed to fetch suggestions" });
+    }
+  });
+
+  app.get("/api/products/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const product = await storage.getProduct(id);
+      const store = product ? await storage.getStore(product.storeId) : undefined;
+
+      if (!product?.isActive || !store || !canSeeStore(req, store)) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      res.json(product);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch product" });
+    }
+  });
+
+  // Checks attribute values against the category's definitions, including inherited ones
+  async function checkProductAttributes(categoryId: number | null | undefined, values: Record<string, string>) {
+    const definitions = categoryId ? await storage.getCategoryAttributes(categoryId) : [];
+    return normalizeProductAttributes(definitions, values);
+  }
+
+  const offerWindowError = (startsAt?: Date | null, endsAt?: Date | null) =>
+    startsAt && endsAt && endsAt <= startsAt ? "The offer must end after it starts" : undefined;
+
+  app.post("/api/products", authorize((req) => ownsStore(callerId(req), Number(req.body?.storeId)), "manage_products"), async (req, res) => {
+    try {
+      const productData = insertProductSchema.parse(req.body);
+      const { attributes, error } = await checkProductAttributes(productData.categoryId, productData.attributes);
+      const offerError = offerWindowError(productData.offerStartsAt, productData.offerEndsAt);
+      if (error || offerError) {
+        return res.status(400).json({ error: error || offerError });
+      }
+
+      const created = await storage.createProduct({ ...productData, attributes });
+      await storage.syncOfferStatuses([created.id]);
+      const product = await storage.getProduct(created.id);
+      res.json(product);
+    } catch (error) {
+      console.error("Product creation error:", error);
+      res.status(400).json({
+        error: "Invalid product data",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.put("/api/products/:id", authorize((req) => ownsProduct(callerId(req), parseInt(req.params.id)), "manage_products"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // Products can't be moved between stores
+      const { storeId, ...updates } = insertProductSchema.partial().parse(req.body);
+
+      const existing = await storage.getProduct(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      const offerError = offerWindowError(
+        updates.offerStartsAt === undefined ? existing.offerStartsAt : updates.offerStartsAt,
+        updates.offerEndsAt === undefined ? existing.offerEndsAt : updates.offerEndsAt,
+      );
+      if (offerError) {
+        return res.status(400).json({ error: offerError });
+      }
+      if (updates.attributes !== undefined || updates.categoryId !== undefined) {
+        const { attributes, error } = await checkProductAttributes(
+          updates.categoryId ?? existing.categoryId,
+          updates.attributes ?? existing.attributes,
+        );
+        if (error) {
+          return res.status(400).json({ error });
+        }
+        updates.attributes = attributes;
+      }
+
+      const updated = await storage.updateProduct(id, updates);
+
+      if (!updated) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      await storage.syncOfferStatuses([id]);
+      const product = (await storage.getProduct(id))!;
+
+      const keptImages = product.images ?? [];
+      await removeUnusedImages((existing.images ?? []).filter((url) => !keptImages.includes(url)));
+
+      res.json(product);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update product" });
+    }
+  });
+
+  app.delete("/api/products/:id", authorize((req) => ownsProduct(callerId(req), parseInt(req.params.id)), "manage_products"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const [product, variants] = await Promise.all([storage.getProduct(id), storage.getProductVariants(id)]);
+      const deleted = await storage.deleteProduct(id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      await removeUnusedImages([
+        ...(product?.images ?? []),
+        ...variants.flatMap((variant) => variant.images ?? []),
+      ]);
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete product" });
+    }
+  });
+
+  app.get("/api/products/:id/variants", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const product = await storage.getProduct(id);
+      const store = product ? await storage.getStore(product.storeId) : undefined;
+
+      if (!product?.isActive || !store || !canSeeStore(req, store)) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      const [options, variants] = await Promise.all([
+        storage.getProductOptions(id),
+        storage.getProductVariants(id),
+      ]);
+      res.json({ options, variants });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch product variants" });
+    }
+  });
+
+  app.put("/api/products/:id/variants", authorize((req) => ownsProduct(callerId(req), parseInt(req.params.id)), "manage_products"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const input = productVariantsInputSchema.parse(req.body);
+      const previous = await storage.getProductVariants(id);
+      const result = await storage.saveProductVariants(id, input);
+      await removeUnusedImages(previous.flatMap((variant) => variant.images ?? []));
+      res.json(result);
+    } catch (error) {
+      console.error("Variant update error:", error);
+      res.status(400).json({
+        error: "Invalid variant data",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Bulk product import and export. Rows are matched to existing variants by
+  // SKU; unknown SKUs create single-variant products
+  interface PlannedImportRow {
+    result: ImportRowResult;
+    product?: Product; // set when updating
+    variant?: ProductVariant;
+    productData: Partial<InsertProduct>;
+  }
+
+  const nonNegativeNumber = (value: string) => value !== "" && Number.isFinite(Number(value)) && Number(value) >= 0;
+
+  // Validates every row without writing anything. When updating, blank cells
+  // keep the product's current value
+  async function planCatalogImport(storeId: number, rows: CatalogRow[]): Promise<PlannedImportRow[]> {
+    const [categories, storeProducts, existingVariants] = await Promise.all([
+      storage.getAllCategories(),
+      storage.getProductsByStoreId(storeId),
+      storage.getVariantsBySkus(rows.map((row) => row.sku).filter(Boolean)),
+    ]);
+    const productsById = new Map(storeProducts.map((product) => [product.id, product]));
+    const variantsBySku = new Map(existingVariants.map((variant) => [variant.sku, variant]));
+    const seenSkus = new Set<string>();
+
+    const plan: PlannedImportRow[] = [];
+    for (const row of rows) {
+      const errors: string[] = [];
+      const variant = variantsBySku.get(row.sku);
+      const product = variant && variant.storeId === storeId ? productsById.get(variant.productId) : undefined;
+
+      if (!row.sku) {
+        errors.push("SKU is required");
+      } else if (seenSkus.has(row.sku)) {
+        errors.push("SKU appears more than once in the file");
+      } else if (variant && variant.storeId !== storeId) {
+        errors.push("SKU is already used by another store");
+      } else if (variant && (!variant.isActive || !product)) {
+        errors.push("SKU belongs to a discontinued variant");
+      } else if (!variant && row.options) {
+        errors.push("Products with options must be created in the dashboard before importing their variants");
+      }
+      seenSkus.add(row.sku);
+
+      if (!row.name && !product) {
+        errors.push("Name is required");
+      }
+      if (!row.price && !product) {
+        errors.push("Price is required");
+      } else if (row.price && !nonNegativeNumber(row.price)) {
+        errors.push("Price must be a number of 0 or more");
+      }
+      if (row.original_price && !nonNegativeNumber(row.original_price)) {
+        errors.push("Original price must be a number of 0 or more");
+      }
+      if (row.stock && !(Number.isInteger(Number(row.stock)) && Number(row.stock) >= 0)) {
+        errors.push("Stock must be a whole number of 0 or more");
+      }
+      const category = row.category ? findCategory(categories, row.category) : undefined;
+      if (row.category && !category) {
+        errors.push(`Unknown category "${row.category}"`);
+      }
+
+      const cells: Partial<InsertProduct> = {
+        name: row.name || undefined,
+        description: row.description || undefined,
+        categoryId: category?.id,
+        price: row.price || undefined,
+        originalPrice: row.original_price || undefined,
+        stock: row.stock ? Number(row.stock) : undefined,
+        images: row.images ? parseList(row.images) : undefined,
+        attributes: row.attributes ? parsePairs(row.attributes) : undefined,
+      };
+      const productData = Object.fromEntries(
+        Object.entries(cells).filter(([, value]) => value !== undefined)
+      ) as Partial<InsertProduct>;
+
+      const parsed = product
+        ? insertProductSchema.partial().safeParse(productData)
+        : insertProductSchema.safeParse({ ...productData, storeId });
+      if (!parsed.success) {
+        errors.push(...parsed.error.issues.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`));
+      } else if (errors.length === 0) {
+        const { attributes, error } = await checkProductAttributes(
+          productData.categoryId ?? product?.categoryId,
+          productData.attributes ?? product?.attributes ?? {},
+        );
+        if (error) {
+          errors.push(error);
+        }
+        productData.attributes = attributes;
+      }
+
+      plan.push({
+        result: {
+          rowNumber: row.rowNumber,
+          sku: row.sku,
+          name: row.name || product?.name || "",
+          action: errors.length > 0 ? "error" : product ? "update" : "create",
+          errors,
+        },
+        product,
+        variant,
+        productData,
+      });
+    }
+    return plan;
+  }
+
+  // All rows are written in one transaction, so a failure part way through
+  // leaves the catalog as it was
+  async function applyCatalogImport(storeId: number, plan: PlannedImportRow[]) {
+    const changes: CatalogImportChange[] = [];
+    const replacedImages: string[] = [];
+    for (const { result, product, variant, productData } of plan) {
+      if (result.action === "create") {
+        changes.push({ type: "create", product: { ...productData, storeId } as InsertProduct, sku: result.sku });
+      } else if (result.action === "update" && product && variant) {
+        // Price and stock belong to the matched variant; the rest to its product
+        const { price, originalPrice, stock, ...productUpdates } = productData;
+        changes.push({
+          type: "update",
+          productId: product.id,
+          variantId: variant.id,
+          product: productUpdates,
+          variant: {
+            price: price ?? variant.price,
+            originalPrice: originalPrice ?? variant.originalPrice,
+            stock: stock ?? variant.stock,
+          },
+        });
+        if (productUpdates.images) {
+          replacedImages.push(...(product.images ?? []).filter((url) => !productUpdates.images!.includes(url)));
+        }
+      }
+    }
+
+    await storage.importCatalog(changes);
+    await removeUnusedImages(replacedImages);
+  }
+
+  app.post("/api/stores/:id/products/import", authorize((req) => ownsStore(callerId(req), parseInt(req.params.id)), "manage_products"), catalogUpload, async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.id);
+      const dryRun = req.query.dryRun !== "false";
+      const format = req.file ? catalogFormat(req.file.originalname) : null;
+      if (!req.file || !format) {
+        return res.status(400).json({ error: "Upload a .csv or .xlsx file" });
+      }
+
+      const rows = await readCatalogFile(req.file.buffer, format);
+      const plan = await planCatalogImport(storeId, rows);
+      const results = plan.map((row) => row.result);
+      const summary = {
+        dryRun,
+        total: results.length,
+        created: results.filter((row) => row.action === "create").length,
+        updated: results.filter((row) => row.action === "update").length,
+        failed: results.filter((row) => row.action === "error").length,
+        rows: results,
+      };
+
+      if (dryRun) {
+        return res.json(summary);
+      }
+      if (summary.failed > 0) {
+        return res.status(400).json({ error: "Fix the rows with errors and import again", ...summary });
+      }
+
+      await applyCatalogImport(storeId, plan);
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof CatalogFileError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Product import error:", error);
+      res.status(500).json({ error: "Failed to import products" });
+    }
+  });
+
+  app.get("/api/stores/:id/products/export", authorize((req) => ownsStore(callerId(req), parseInt(req.params.id)), "manage_products"), async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.id);
+      const format = req.query.format === "xlsx" ? "xlsx" : "csv";
+      const [products, variants, categories] = await Promise.all([
+        storage.getProductsByStoreId(storeId),
+        storage.getStoreVariants(storeId),
+        storage.getAllCategories(),
+      ]);
+
+      const file = await writeCatalogFile(catalogRows(products, variants, categories), format);
+      res.setHeader("Content-Type", format === "xlsx"
+        ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        : "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="store-${storeId}-products.${format}"`);
+      res.send(file);
+    } catch (error) {
+      console.error("Product export error:", error);
+      res.status(500).json({ error: "Failed to export products" });
+    }
+  });
+
+  // Inventory routes. Thresholds are set per product through PUT /api/products/:id
+  app.get("/api/stores/:id/inventory", authorize((req) => ownsStore(callerId(req), parseInt(req.params.id)), "manage_products"), async (req, res) => {
+    try {
+      const inventory = await storage.getStoreInventory(parseInt(req.params.id));
+      res.json(inventory);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch inventory" });
+    }
+  });
+
+  app.get("/api/stores/:id/inventory/movements", authorize((req) => ownsStore(callerId(req), parseInt(req.params.id)), "manage_products"), async (req, res) => {
+    try {
+      const productId = req.query.productId ? parseInt(req.query.productId as string) : undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const movements = await storage.getInventoryMovements(parseInt(req.params.id), productId, limit);
+      res.json(movements);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stock movements" });
+    }
+  });
+
+  app.post("/api/stores/:id/inventory/adjustments", authorize((req) => ownsStore(callerId(req), parseInt(req.params.id)), "manage_products"), async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.id);
+      const parsed = stockAdjustmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+
+      const variant = await storage.getProductVariant(parsed.data.variantId);
+      const product = variant ? await storage.getProduct(variant.productId) : undefined;
+      if (!product || product.storeId !== storeId) {
+        return res.status(404).json({ error: "Product variant not found" });
+      }
+
+      const movement = await storage.adjustStock(parsed.data, req.auth?.userId ?? null);
+      if (!movement) {
+        return res.status(409).json({ error: `Only ${variant!.stock} in stock; stock can't go below zero` });
+      }
+      await notifyLowStock([movement]);
+
+      res.status(201).json(movement);
+    } catch (error) {
+      console.error("Stock adjustment error:", error);
+      res.status(500).json({ error: "Failed to adjust stock" });
+    }
+  });
+
+  // Review routes
+  const reviewSorts: ReviewSort[] = ["recent", "helpful", "highest", "lowest"];
+
+  // Flags the reviews the signed-in caller has already marked helpful
+  async function withVotes(req: Request, reviews: ReviewWithAuthor[]) {
+    const votedIds = req.auth
+      ? await storage.getVotedReviewIds(callerId(req), reviews.map((review) => review.id))
+      : [];
+    return reviews.map((review) => ({ ...review, votedByMe: votedIds.includes(review.id) }));
+  }
+
+  app.get("/api/products/:id/reviews", async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const product = await storage.getProduct(productId);
+      const store = product ? await storage.getStore(product.storeId) : undefined;
+
+      if (!product || !store || !canSeeStore(req, store)) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      const sort = reviewSorts.find((option) => option === req.query.sort) ?? "recent";
+      const reviews = await storage.getProductReviews(productId, sort, req.auth?.userId);
+      res.json(await withVotes(req, reviews));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  app.get("/api/stores/:id/reviews", async (req, res) => {
+    try {
+      const store = await storage.getStore(parseInt(req.params.id));
+
+      if (!store || !canSeeStore(req, store)) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const reviews = await storage.getStoreReviews(store.id, req.auth?.userId);
+      res.json(await withVotes(req, reviews));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  // Tells the product page whether to offer the review form
+  app.get("/api/products/:id/reviews/eligibility", requireAuth, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const existing = await storage.getCustomerProductReview(callerId(req), productId);
+      if (existing) {
+        return res.json({ canReview: false, reason: "already_reviewed", reviewId: existing.id });
+      }
+
+      const orderItem = await storage.getDeliveredOrderItem(callerId(req), productId);
+      res.json(orderItem ? { canReview: true } : { canReview: false, reason: "not_purchased" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to check review eligibility" });
+    }
+  });
+
+  app.post("/api/products/:id/reviews", requireAuth, requireActiveAccount, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      const input = reviewInputSchema.parse(req.body);
+
+      // Only customers who received the product can review it
+      const orderItem = await storage.getDeliveredOrderItem(callerId(req), productId);
+      if (!orderItem) {
+        return res.status(403).json({ error: "You can only review products from your delivered orders" });
+      }
+      if (await storage.getCustomerProductReview(callerId(req), productId)) {
+        return res.status(409).json({ error: "You have already reviewed this product" });
+      }
+
+      // Reviews with banned words or links wait for a moderator
+      const holdReason = screenReview(input.title, input.comment);
+      const review = await storage.createReview({
+        ...input,
+        productId,
+        storeId: product.storeId,
+        customerId: callerId(req),
+        orderItemId: orderItem.id,
+        status: holdReason ? "held" : "published",
+        moderationReason: holdReason,
+      });
+
+      const store = await storage.getStore(product.storeId);
+      if (store && review.status === "published") {
+        await storage.createNotification({
+          userId: store.ownerId,
+          title: "New Review",
+          message: `${product.name} received a ${review.rating}-star review`,
+          type: "info",
+          productId,
+        });
+      }
+
+      res.status(201).json(review);
+    } catch (error) {
+      console.error("Review creation error:", error);
+      res.status(400).json({ error: "Invalid review data" });
+    }
+  });
+
+  app.put("/api/reviews/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getReview(id);
+      if (!existing || existing.customerId !== callerId(req)) {
+        return res.status(403).json({ error: "You do not have permission to perform this action" });
+      }
+
+      const updates = reviewInputSchema.partial().parse(req.body);
+
+      // Edits are screened again; reviews hidden by a moderator stay hidden
+      const holdReason = screenReview(updates.title ?? existing.title, updates.comment ?? existing.comment);
+      const review = await storage.updateReview(id, existing.status === "hidden"
+        ? updates
+        : { ...updates, status: holdReason ? "held" : "published", moderationReason: holdReason });
+      res.json(review);
     } catch (error) {
-      console.error("Store creation error:", error);
-      res.status(400).json({
-        error: "Invalid store data",
-        details: error instanceof Error ? error.message : "Unknown error"
-      });
+      res.status(400).json({ error: "Failed to update review" });
     }
   });
 
-  // Product routes
-  app.get("/api/products", async (req, res) => {
+  app.delete("/api/reviews/:id", authorize((req) => isReviewAuthor(callerId(req), parseInt(req.params.id)), "moderate_reviews"), async (req, res) => {
     try {
-      const { search, category, storeId } = req.query;
+      const deleted = await storage.deleteReview(parseInt(req.params.id));
 
-      let products;
-      if (search) {
-        products = await storage.searchProducts(search as string);
-      } else if (category) {
-        products = await storage.getProductsByCategory(parseInt(category as string));
-      } else if (storeId) {
-        products = await storage.getProductsByStoreId(parseInt(storeId as string));
-      } else {
-        products = await storage.getAllProducts();
+      if (!deleted) {
+        return res.status(404).json({ error: "Review not found" });
       }
 
-      res.json(products);
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch products" });
+      res.status(500).json({ error: "Failed to delete review" });
     }
   });
 
-  app.get("/api/products/:id", async (req, res) => {
+  app.post("/api/reviews/:id/helpful", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const product = await storage.getProduct(id);
-
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+      const review = await storage.getReview(id);
+      if (!review || review.status !== "published") {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      if (review.customerId === callerId(req)) {
+        return res.status(400).json({ error: "You can't vote on your own review" });
       }
 
-      res.json(product);
+      const updated = await storage.addReviewVote(id, callerId(req));
+      res.json({ ...updated, votedByMe: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch product" });
+      res.status(500).json({ error: "Failed to record vote" });
     }
   });
 
-  app.post("/api/products", async (req, res) => {
+  app.delete("/api/reviews/:id/helpful", requireAuth, async (req, res) => {
     try {
-      const productData = insertProductSchema.parse(req.body);
-      const product = await storage.createProduct(productData);
-      res.json(product);
+      const updated = await storage.removeReviewVote(parseInt(req.params.id), callerId(req));
+
+      if (!updated) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+
+      res.json({ ...updated, votedByMe: false });
     } catch (error) {
-      console.error("Product creation error:", error);
-      res.status(400).json({
-        error: "Invalid product data",
-        details: error instanceof Error ? error.message : "Unknown error"
-      });
+      res.status(500).json({ error: "Failed to remove vote" });
     }
   });
 
-  app.put("/api/products/:id", async (req, res) => {
+  app.post("/api/reviews/:id/report", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      const product = await storage.updateProduct(id, updates);
+      const { reason, details } = reportReviewSchema.parse(req.body);
 
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+      const review = await storage.getReview(id);
+      if (!review || review.status !== "published") {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      if (review.customerId === callerId(req)) {
+        return res.status(400).json({ error: "You can't report your own review" });
       }
 
-      res.json(product);
+      const report = await storage.createReviewReport(id, callerId(req), reason, details);
+      if (!report) {
+        return res.status(409).json({ error: "You have already reported this review" });
+      }
+
+      res.status(201).json({ success: true });
     } catch (error) {
-      res.status(400).json({ error: "Failed to update product" });
+      res.status(400).json({ error: "Invalid report" });
     }
   });
 
-  app.delete("/api/products/:id", async (req, res) => {
+  app.put("/api/reviews/:id/reply", authorize((req) => ownsReviewedStore(callerId(req), parseInt(req.params.id)), "manage_products"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteProduct(id);
+      const { reply } = sellerReplySchema.parse(req.body);
 
-      if (!deleted) {
-        return res.status(404).json({ error: "Product not found" });
+      const review = await storage.setSellerReply(id, reply);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
       }
 
-      res.json({ success: true });
+      await storage.createNotification({
+        userId: review.customerId,
+        title: "The seller replied to your review",
+        message: reply.length > 120 ? `${reply.slice(0, 117)}...` : reply,
+        type: "info",
+        productId: review.productId,
+      });
+
+      res.json(review);
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete product" });
+      res.status(400).json({ error: "Failed to save reply" });
+    }
+  });
+
+  app.delete("/api/reviews/:id/reply", authorize((req) => ownsReviewedStore(callerId(req), parseInt(req.params.id)), "manage_products"), async (req, res) => {
+    try {
+      const review = await storage.setSellerReply(parseInt(req.params.id), null);
+
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+
+      res.json(review);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove reply" });
     }
   });
 
@@ -280,9 +1586,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/categories", async (req, res) => {
+  // A category with its breadcrumb trail, direct subcategories and the
+  // attributes its products fill in
+  app.get("/api/categories/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const allCategories = await storage.getAllCategories();
+      const path = categoryPath(allCategories, id);
+      const category = path[path.length - 1];
+
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+
+      res.json({
+        ...category,
+        path,
+        children: allCategories.filter((child) => child.parentId === id),
+        attributes: await storage.getCategoryAttributes(id),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch category" });
+    }
+  });
+
+  // Attributes defined on this category itself, for the admin editor
+  app.get("/api/categories/:id/attributes", async (req, res) => {
+    try {
+      res.json(await storage.getOwnCategoryAttributes(parseInt(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch category attributes" });
+    }
+  });
+
+  app.put("/api/categories/:id/attributes", requirePermission("manage_categories"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const input = categoryAttributesInputSchema.parse(req.body);
+
+      if (!(await storage.getCategory(id))) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+
+      res.json(await storage.setCategoryAttributes(id, input));
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid attribute definitions",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Drag-and-drop in the admin tree sends the new parent and position of
+  // every category it moved
+  app.put("/api/categories/reorder", requirePermission("manage_categories"), async (req, res) => {
+    try {
+      const input = reorderCategoriesSchema.parse(req.body);
+      const allCategories = await storage.getAllCategories();
+      const moves = new Map(input.categories.map((move) => [move.id, move]));
+      const result = allCategories.map((category) => ({ ...category, ...moves.get(category.id) }));
+
+      if (input.categories.some((move) => !allCategories.some((category) => category.id === move.id))) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      if (hasCategoryCycle(result)) {
+        return res.status(400).json({ error: "A category can't be moved under one of its own subcategories" });
+      }
+
+      await storage.reorderCategories(input);
+      res.json(await storage.getAllCategories());
+    } catch (error) {
+      res.status(400).json({ error: "Invalid category order" });
+    }
+  });
+
+  app.post("/api/categories", requirePermission("manage_categories"), async (req, res) => {
     try {
       const categoryData = insertCategorySchema.parse(req.body);
+      if (categoryData.parentId && !(await storage.getCategory(categoryData.parentId))) {
+        return res.status(400).json({ error: "Parent category not found" });
+      }
+
       const category = await storage.createCategory(categoryData);
       res.json(category);
     } catch (error) {
@@ -294,10 +1678,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/categories/:id", async (req, res) => {
+  app.put("/api/categories/:id", requirePermission("manage_categories"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
+      const updates = insertCategorySchema.partial().parse(req.body);
+
+      if (updates.parentId) {
+        const allCategories = await storage.getAllCategories();
+        const moved = allCategories.map((category) => category.id === id ? { ...category, parentId: updates.parentId ?? null } : category);
+        if (hasCategoryCycle(moved)) {
+          return res.status(400).json({ error: "A category can't be moved under one of its own subcategories" });
+        }
+      }
+
       const category = await storage.updateCategory(id, updates);
 
       if (!category) {
@@ -310,9 +1703,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/categories/:id", async (req, res) => {
+  app.delete("/api/categories/:id", requirePermission("manage_categories"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const usage = await storage.getCategoryUsage(id);
+      if (usage.subcategories > 0) {
+        return res.status(409).json({ error: "Move or delete its subcategories first" });
+      }
+      if (usage.products > 0) {
+        return res.status(409).json({ error: `${usage.products} products still use this category` });
+      }
+
       const deleted = await storage.deleteCategory(id);
 
       if (!deleted) {
@@ -326,16 +1727,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Cart routes
-  app.get("/api/cart/:userId", async (req, res) => {
+  app.get("/api/cart/:userId", isSelf("userId", "manage_users"), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const cartItems = await storage.getCartItems(userId);
 
-      // Get product details for each cart item
+      // Get product and variant details for each cart item
       const cartWithProducts = await Promise.all(
         cartItems.map(async (item) => {
           const product = await storage.getProduct(item.productId);
-          return { ...item, product };
+          const variant = await storage.getProductVariant(item.variantId);
+          const store = product && await storage.getStore(product.storeId);
+          // What checkout will charge, including any running offer
+          const unitPrice = product && variant ? offerPrice(variant.price, product).toFixed(2) : null;
+          return {
+            ...item,
+            product,
+            variant,
+            unitPrice,
+            store: store ? { id: store.id, name: store.name, deliveryFee: store.deliveryFee } : undefined,
+          };
         })
       );
 
@@ -345,9 +1756,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/cart", async (req, res) => {
+  app.post("/api/cart", requireAuth, async (req, res) => {
     try {
-      const cartItemData = insertCartItemSchema.parse(req.body);
+      const variant = await resolveVariant(Number(req.body?.productId), req.body?.variantId);
+      if (!variant) {
+        return res.status(400).json({ error: "This option is no longer available" });
+      }
+
+      const cartItemData = insertCartItemSchema.parse({ ...req.body, variantId: variant.id, userId: callerId(req) });
       const cartItem = await storage.addToCart(cartItemData);
       res.json(cartItem);
     } catch (error) {
@@ -355,324 +1771,642 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/cart/:id", async (req, res) => {
+  app.put("/api/cart/:id", authorize(async (req) => {
+    const item = await storage.getCartItem(parseInt(req.params.id));
+    return !!item && item.userId === callerId(req);
+  }, "manage_users"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const { quantity } = req.body;
       const cartItem = await storage.updateCartItem(id, quantity);
 
-      if (!cartItem) {
-        return res.status(404).json({ error: "Cart item not found" });
+      if (!cartItem) {
+        return res.status(404).json({ error: "Cart item not found" });
+      }
+
+      res.json(cartItem);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update cart item" });
+    }
+  });
+
+  app.delete("/api/cart/:id", authorize(async (req) => {
+    const item = await storage.getCartItem(parseInt(req.params.id));
+    return !!item && item.userId === callerId(req);
+  }, "manage_users"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.removeFromCart(id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Cart item not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove cart item" });
+    }
+  });
+
+  app.delete("/api/cart/user/:userId", isSelf("userId", "manage_users"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const cleared = await storage.clearCart(userId);
+
+      if (!cleared) {
+        return res.status(404).json({ error: "Failed to clear cart" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to clear cart" });
+    }
+  });
+
+  // Wishlist routes
+  app.get("/api/wishlist/:userId", isSelf("userId", "manage_users"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const wishlistItems = await storage.getWishlistItems(userId);
+      res.json(wishlistItems);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch wishlist items" });
+    }
+  });
+
+  app.post("/api/wishlist", requireAuth, async (req, res) => {
+    try {
+      const validatedData = insertWishlistItemSchema.parse({ ...req.body, userId: callerId(req) });
+      const wishlistItem = await storage.addToWishlist(validatedData);
+      res.status(201).json(wishlistItem);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid wishlist item data" });
+    }
+  });
+
+  app.delete("/api/wishlist/:id", authorize(async (req) => {
+    const item = await storage.getWishlistItem(parseInt(req.params.id));
+    return !!item && item.userId === callerId(req);
+  }, "manage_users"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.removeFromWishlist(id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Wishlist item not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove wishlist item" });
+    }
+  });
+
+  app.get("/api/wishlist/:userId/check/:productId", isSelf("userId", "manage_users"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const productId = parseInt(req.params.productId);
+      const isInWishlist = await storage.isInWishlist(userId, productId);
+      res.json({ isInWishlist });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to check wishlist status" });
+    }
+  });
+
+  // Order routes
+  app.get("/api/orders/customer/:customerId", isSelf("customerId", "manage_orders"), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+      const orders = await storage.getOrdersByCustomerId(customerId);
+
+      // Each order with its store orders, and all of its items for the order summary
+      const ordersWithItems = await Promise.all(
+        orders.map(async (order) => {
+          const items = await Promise.all(
+            (await storage.getOrderItems(order.id)).map(async (item) => ({
+              ...item,
+              productName: (await storage.getProduct(item.productId))?.name ?? "Product",
+            }))
+          );
+          const storeOrders = await Promise.all(
+            (await storage.getStoreOrders(order.id)).map(async (storeOrder) => {
+              const store = await storage.getStore(storeOrder.storeId);
+              return {
+                ...storeOrder,
+                storeName: store?.name ?? "Store",
+                cancellationWindow: store?.cancellationWindow ?? "pending",
+                items: items.filter((item) => item.storeOrderId === storeOrder.id),
+              };
+            })
+          );
+          return { ...order, storeOrders, items };
+        })
+      );
+
+      res.json(ordersWithItems);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  app.get("/api/orders/store/:storeId", authorize((req) => ownsStore(callerId(req), parseInt(req.params.storeId)), "manage_orders"), async (req, res) => {
+    try {
+      const storeId = parseInt(req.params.storeId);
+      const storeOrders = await storage.getStoreOrdersByStore(storeId);
+
+      // Only this store's part of each order
+      const storeOrdersWithItems = await Promise.all(
+        storeOrders.map(async (storeOrder) => {
+          const items = await storage.getStoreOrderItems(storeOrder.id);
+          return { ...storeOrder, items };
+        })
+      );
+
+      res.json(storeOrdersWithItems);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  // Checkout sends an Idempotency-Key so double submits and retries place one order
+  app.post("/api/orders", requireAuth, requireActiveAccount, idempotent, async (req, res) => {
+    try {
+      const { order, items } = req.body;
+      const placed = await placeOrder(callerId(req), order, items);
+      res.status(201).json(placed);
+    } catch (error) {
+      if (error instanceof OrderRejectedError) {
+        return res.status(409).json({ error: error.message, items: error.lines });
+      }
+      console.error("Order creation error:", error);
+      res.status(400).json({ error: "Failed to create order" });
+    }
+  });
+
+  // Customers cancel the whole order while every store is still within its
+  // cancellation window
+  app.post("/api/orders/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const parsed = cancelOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+      const cancelled = await storage.cancelOrder(parseInt(req.params.id), callerId(req), parsed.data.reason);
+      if (!cancelled) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(cancelled);
+    } catch (error) {
+      if (error instanceof OrderNotCancellableError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Order cancellation error:", error);
+      res.status(500).json({ error: "Failed to cancel order" });
+    }
+  });
+
+  // Each store moves its own part of an order along. The change is
+  // recorded in the order's tracking history and the customer is notified
+  app.put("/api/store-orders/:id/status", authorize((req) => ownsStoreOrder(callerId(req), parseInt(req.params.id)), "manage_orders"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = updateStoreOrderStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid order status" });
+      }
+      const storeOrder = await storage.updateStoreOrderStatus(id, {
+        ...parsed.data,
+        actor: isAdminRequest(req) ? "admin" : "store",
+        changedBy: req.auth?.userId ?? null,
+      });
+
+      if (!storeOrder) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      res.json(storeOrder);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to update order status" });
+    }
+  });
+
+  // User profile routes
+  app.get("/api/users/:id", isSelf("id", "manage_users"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
       }
 
-      res.json(cartItem);
+      // Don't send password back
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
     } catch (error) {
-      res.status(400).json({ error: "Failed to update cart item" });
+      res.status(500).json({ error: "Failed to fetch user" });
     }
   });
 
-  app.delete("/api/cart/:id", async (req, res) => {
+  app.put("/api/users/:id", isSelf("id", "manage_users"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.removeFromCart(id);
+      // Roles and account status can't be changed through the profile endpoint
+      const updates = insertUserSchema.omit({ role: true }).partial().parse(req.body);
+      if (updates.password) {
+        updates.password = await hashPassword(updates.password);
+      }
+      const existingUser = await storage.getUser(id);
+      // A new phone number has to be verified again before it signs in by
+      // SMS. Cleared first so the number never counts as verified twice
+      if (existingUser && updates.phone !== undefined && updates.phone !== existingUser.phone) {
+        await storage.setPhoneVerified(id, false);
+      }
+      let user = await storage.updateUser(id, updates);
 
-      if (!deleted) {
-        return res.status(404).json({ error: "Cart item not found" });
+      // A new email address has to be verified again
+      if (user && updates.email && updates.email !== existingUser?.email) {
+        user = await storage.setEmailVerified(id, false);
       }
 
-      res.json({ success: true });
+      // Changing the password signs out every other device
+      if (user && updates.password) {
+        await storage.revokeUserSessions(id, req.auth?.userId === id ? req.auth.sessionId : undefined);
+      }
+
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // Don't send password back
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
     } catch (error) {
-      res.status(500).json({ error: "Failed to remove cart item" });
+      res.status(400).json({ error: "Failed to update user" });
     }
   });
 
-  app.delete("/api/cart/user/:userId", async (req, res) => {
+  // Admin authentication routes
+  app.post("/api/admin/login", authRateLimiter, async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const cleared = await storage.clearCart(userId);
+      const { email, password } = req.body;
+      if (typeof email !== "string" || typeof password !== "string") {
+        return res.status(400).json({ error: "Email and password are required" });
+      }
 
-      if (!cleared) {
-        return res.status(404).json({ error: "Failed to clear cart" });
+      const admin = await storage.getAdminByEmail(email);
+      if (!admin) {
+        return res.status(401).json({ error: "Invalid admin credentials" });
+      }
+      if (rejectIfLocked(res, admin.lockedUntil)) {
+        return;
       }
 
-      res.json({ success: true });
+      const { valid, needsRehash } = await verifyPassword(password, admin.password);
+      if (!valid) {
+        await recordFailedAdminLogin(admin);
+        return res.status(401).json({ error: "Invalid admin credentials" });
+      }
+      if (admin.failedLoginAttempts > 0) {
+        await storage.resetAdminLoginFailures(admin.id);
+      }
+
+      if (needsRehash) {
+        await storage.updateAdmin(admin.id, { password: await hashPassword(password) });
+      }
+
+      const { token, expiresAt } = await createAdminSession(admin.id);
+      const { password: _, ...adminWithoutPassword } = admin;
+      res.json({
+        admin: { ...adminWithoutPassword, permissions: getAdminPermissions(admin.role) },
+        token,
+        expiresAt,
+      });
     } catch (error) {
-      res.status(500).json({ error: "Failed to clear cart" });
+      res.status(500).json({ error: "Admin login failed" });
     }
   });
 
-  // Wishlist routes
-  app.get("/api/wishlist/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const wishlistItems = await storage.getWishlistItems(userId);
-      res.json(wishlistItems);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch wishlist items" });
+  app.get("/api/admin/verify", async (req, res) => {
+    if (!req.admin) {
+      return res.status(401).json({ error: "Invalid token" });
     }
+    res.json({ ...req.admin, permissions: getAdminPermissions(req.admin.role) });
   });
 
-  app.post("/api/wishlist", async (req, res) => {
+  app.post("/api/admin/logout", requireAdmin, async (req, res) => {
     try {
-      const validatedData = insertWishlistItemSchema.parse(req.body);
-      const wishlistItem = await storage.addToWishlist(validatedData);
-      res.status(201).json(wishlistItem);
+      await revokeAdminSession(getBearerToken(req)!);
+      res.json({ success: true });
     } catch (error) {
-      res.status(400).json({ error: "Invalid wishlist item data" });
+      res.status(500).json({ error: "Admin logout failed" });
     }
   });
 
-  app.delete("/api/wishlist/:id", async (req, res) => {
+  app.post("/api/admin/create", requirePermission("manage_admins"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.removeFromWishlist(id);
+      const adminData = insertAdminSchema.parse(req.body);
+      if (!isAdminRole(adminData.role ?? "")) {
+        return res.status(400).json({ error: "Invalid admin role" });
+      }
 
-      if (!deleted) {
-        return res.status(404).json({ error: "Wishlist item not found" });
+      const existingAdmin = await storage.getAdminByEmail(adminData.email);
+      if (existingAdmin) {
+        return res.status(400).json({ error: "Admin already exists" });
       }
 
-      res.json({ success: true });
+      const admin = await storage.createAdmin({
+        ...adminData,
+        password: await hashPassword(adminData.password),
+      });
+
+      const { password, ...adminWithoutPassword } = admin;
+      res.json({ admin: adminWithoutPassword });
     } catch (error) {
-      res.status(500).json({ error: "Failed to remove wishlist item" });
+      res.status(400).json({ error: "Failed to create admin" });
     }
   });
 
-  app.get("/api/wishlist/:userId/check/:productId", async (req, res) => {
+  app.get("/api/admin/admins", requirePermission("manage_admins"), async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const productId = parseInt(req.params.productId);
-      const isInWishlist = await storage.isInWishlist(userId, productId);
-      res.json({ isInWishlist });
+      const admins = await storage.getAllAdmins();
+      res.json(admins.map(({ password, ...admin }) => ({
+        ...admin,
+        permissions: getAdminPermissions(admin.role),
+      })));
     } catch (error) {
-      res.status(500).json({ error: "Failed to check wishlist status" });
+      res.status(500).json({ error: "Failed to fetch admins" });
     }
   });
 
-  // Order routes
-  app.get("/api/orders/customer/:customerId", async (req, res) => {
+  app.put("/api/admin/admins/:id/role", requirePermission("manage_admins"), async (req, res) => {
     try {
-      const customerId = parseInt(req.params.customerId);
-      const orders = await storage.getOrdersByCustomerId(customerId);
+      const id = parseInt(req.params.id);
+      const { role } = req.body;
+      if (typeof role !== "string" || !isAdminRole(role)) {
+        return res.status(400).json({ error: "Invalid admin role" });
+      }
+      // Prevent admins from locking themselves out of admin management
+      if (id === req.admin!.id && !adminHasPermission(role, "manage_admins")) {
+        return res.status(400).json({ error: "You cannot remove your own admin management access" });
+      }
 
-      // Get order items for each order
-      const ordersWithItems = await Promise.all(
-        orders.map(async (order) => {
-          const items = await storage.getOrderItems(order.id);
-          return { ...order, items };
-        })
-      );
+      const admin = await storage.updateAdmin(id, { role });
+      if (!admin) {
+        return res.status(404).json({ error: "Admin not found" });
+      }
 
-      res.json(ordersWithItems);
+      const { password, ...adminWithoutPassword } = admin;
+      res.json({ ...adminWithoutPassword, permissions: getAdminPermissions(admin.role) });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch orders" });
+      res.status(400).json({ error: "Failed to update admin role" });
     }
   });
 
-  app.get("/api/orders/store/:storeId", async (req, res) => {
+  // Admin user management routes
+  app.get("/api/admin/users", requirePermission("manage_users"), async (req, res) => {
     try {
-      const storeId = parseInt(req.params.storeId);
-      const orders = await storage.getOrdersByStoreId(storeId);
-
-      // Get order items for each order
-      const ordersWithItems = await Promise.all(
-        orders.map(async (order) => {
-          const items = await storage.getOrderItems(order.id);
-          return { ...order, items };
-        })
-      );
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const { users, total } = await storage.searchUsers({
+        search: (req.query.search as string) || undefined,
+        status: (req.query.status as string) || undefined,
+        role: (req.query.role as string) || undefined,
+        page,
+        limit,
+      });
 
-      res.json(ordersWithItems);
+      res.json({
+        users: users.map(({ password, ...user }) => user),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch orders" });
+      console.error("Admin user search error:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
     }
   });
 
-  app.post("/api/orders", async (req, res) => {
+  app.put("/api/admin/users/:id/status", requirePermission("manage_users"), async (req, res) => {
     try {
-      const { order, items } = req.body;
-      console.log("Order request:", { order, items });
-
-      // Create order with location data
-      const orderData = insertOrderSchema.parse(order);
-      const createdOrder = await storage.createOrder(orderData);
-
-      // Create order items and collect store owners for notifications
-      const storeOwners = new Set<number>();
-      const orderItems = await Promise.all(
-        items.map(async (item: any) => {
-          const orderItem = await storage.createOrderItem({
-            ...item,
-            orderId: createdOrder.id
-          });
-
-          // Get store info for notifications
-          const store = await storage.getStore(item.storeId);
-          if (store) {
-            storeOwners.add(store.ownerId);
-          }
-
-          return orderItem;
-        })
-      );
-
-      // Create order tracking
-      await storage.createOrderTracking({
-        orderId: createdOrder.id,
-        status: "pending",
-        description: "Order placed successfully"
-      });
-
-      // Send notifications to store owners with customer location details
-      for (const ownerId of Array.from(storeOwners)) {
-        const locationInfo = orderData.latitude && orderData.longitude
-          ? `Customer Location: ${orderData.latitude}, ${orderData.longitude}`
-          : "Location not provided";
+      const id = parseInt(req.params.id);
+      const { status, reason } = updateUserStatusSchema.parse(req.body);
 
-        await storage.createNotification({
-          userId: ownerId,
-          title: "New Order Received",
-          message: `New order #${createdOrder.id} from ${orderData.customerName}. Address: ${orderData.shippingAddress}. ${locationInfo}. Phone: ${orderData.phone}`,
-          type: "success"
-        });
+      const user = await storage.updateUserStatus(id, status, reason);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (status !== "active") {
+        await storage.revokeUserSessions(user.id);
       }
 
-      // Send confirmation notification to customer
       await storage.createNotification({
-        userId: orderData.customerId,
-        title: "Order Confirmed",
-        message: `Your order #${createdOrder.id} has been confirmed and is being processed`,
-        type: "success"
+        userId: user.id,
+        title: status === "active" ? "Account Reactivated" : "Account Restricted",
+        message: status === "active"
+          ? "Your account has been reactivated"
+          : `Your account has been ${status}. Reason: ${reason}`,
+        type: status === "active" ? "success" : "warning",
       });
 
-      // Clear user's cart
-      await storage.clearCart(order.customerId);
-
-      res.json({ order: createdOrder, items: orderItems });
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
     } catch (error) {
-      console.error("Order creation error:", error);
-      res.status(400).json({ error: "Failed to create order" });
+      res.status(400).json({ error: "Failed to update user status" });
     }
   });
 
-  app.put("/api/orders/:id/status", async (req, res) => {
+  app.post("/api/admin/users/:id/force-password-reset", requirePermission("manage_users"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { status } = req.body;
-      const order = await storage.updateOrderStatus(id, status);
-
-      if (!order) {
-        return res.status(404).json({ error: "Order not found" });
+      const user = await storage.setPasswordResetRequired(id, true);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
       }
+      await storage.revokeUserSessions(user.id);
+
+      await storage.createNotification({
+        userId: user.id,
+        title: "Password Reset Required",
+        message: "An administrator has required you to reset your password before signing in again",
+        type: "warning",
+      });
 
-      res.json(order);
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
     } catch (error) {
-      res.status(400).json({ error: "Failed to update order status" });
+      res.status(500).json({ error: "Failed to force password reset" });
     }
   });
 
-  // User profile routes
-  app.get("/api/users/:id", async (req, res) => {
+  app.put("/api/admin/users/:id/role", requirePermission("manage_users"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const user = await storage.getUser(id);
+      const { role } = req.body;
+      if (role !== "customer" && role !== "store_owner") {
+        return res.status(400).json({ error: "Role must be customer or store_owner" });
+      }
 
+      const existingUser = await storage.getUser(id);
+      const user = await storage.updateUser(id, { role });
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
+      // Tokens carry the role, so the user signs in again to pick up the new one
+      if (existingUser && existingUser.role !== role) {
+        await storage.revokeUserSessions(id);
+      }
 
-      // Don't send password back
       const { password, ...userWithoutPassword } = user;
       res.json(userWithoutPassword);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch user" });
+      res.status(400).json({ error: "Failed to update user role" });
+    }
+  });
+
+  // Admin store moderation routes
+  app.get("/api/admin/stores", requirePermission("moderate_stores"), async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const stores = await storage.getStoresByStatus(status && status !== "all" ? status : undefined);
+      res.json(stores);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stores" });
     }
   });
 
-  app.put("/api/users/:id", async (req, res) => {
+  app.put("/api/admin/stores/:id/status", requirePermission("moderate_stores"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      const user = await storage.updateUser(id, updates);
+      const { status, reason } = updateStoreStatusSchema.parse(req.body);
 
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const store = await storage.updateStoreStatus(id, status, reason);
+      if (!store) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+      if (status === "approved") {
+        await storage.verifyPendingStoreDocuments(id);
       }
 
-      // Don't send password back
-      const { password, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      const messages: Record<string, string> = {
+        approved: `${store.name} has been approved and is now visible to customers`,
+        rejected: `${store.name} was not approved. Reason: ${reason}`,
+        suspended: `${store.name} has been suspended. Reason: ${reason}`,
+        pending_review: `${store.name} has been returned to the review queue`,
+      };
+      await storage.createNotification({
+        userId: store.ownerId,
+        title: "Store Status Updated",
+        message: messages[status],
+        type: status === "approved" ? "success" : "warning"
+      });
+
+      res.json(store);
     } catch (error) {
-      res.status(400).json({ error: "Failed to update user" });
+      res.status(400).json({ error: "Failed to update store status" });
     }
   });
 
-  // Admin authentication routes
-  app.post("/api/admin/login", async (req, res) => {
+  app.put("/api/admin/stores/:id/featured", requirePermission("moderate_stores"), async (req, res) => {
     try {
-      const { email, password } = req.body;
-
-      // Allow direct access with specified credentials
-      if (email === "admin@sirahbazaar.com" && password === "admin123") {
-        const adminData = {
-          id: "1",
-          email: "admin@sirahbazaar.com",
-          fullName: "Admin User",
-          role: "super_admin",
-          permissions: ["all"],
-          lastLogin: new Date().toISOString()
-        };
-        return res.json({ admin: adminData, token: "admin-token-123" });
+      const id = parseInt(req.params.id);
+      const { featured } = req.body;
+      if (typeof featured !== "boolean") {
+        return res.status(400).json({ error: "featured must be a boolean" });
       }
 
-      // Fallback to database check for other credentials
-      const admin = await storage.getAdminByEmail(email);
-      if (!admin || admin.password !== password) {
-        return res.status(401).json({ error: "Invalid admin credentials" });
+      const store = await storage.setStoreFeatured(id, featured);
+      if (!store) {
+        return res.status(404).json({ error: "Store not found" });
       }
 
-      const { password: _, ...adminWithoutPassword } = admin;
-      res.json({ admin: adminWithoutPassword, token: "admin-token-123" });
+      res.json(store);
     } catch (error) {
-      res.status(500).json({ error: "Admin login failed" });
+      res.status(500).json({ error: "Failed to update store" });
     }
   });
 
-  app.get("/api/admin/verify", async (req, res) => {
+  // Refunds of cancelled prepaid orders, for finance to settle
+  app.get("/api/admin/refunds", requirePermission("issue_refunds"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const refunds = await storage.getRefunds(status);
+      res.json(refunds);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch refunds" });
+    }
+  });
+
+  // Review moderation
+  const moderationQueueFilters: ModerationQueueFilter[] = ["reported", "held", "hidden", "published"];
+
+  app.get("/api/admin/reviews", requirePermission("moderate_reviews"), async (req, res) => {
+    try {
+      const filter = moderationQueueFilters.find((option) => option === req.query.status) ?? "reported";
+      const queue = await storage.getModerationQueue(filter);
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  app.put("/api/admin/reviews/:id/status", requirePermission("moderate_reviews"), async (req, res) => {
     try {
-      const token = req.headers.authorization?.split(" ")[1];
-      if (!token || token !== "admin-token-123") {
-        return res.status(401).json({ error: "Invalid token" });
+      const id = parseInt(req.params.id);
+      const { status, reason } = moderateReviewSchema.parse(req.body);
+
+      const review = await storage.setReviewStatus(id, status, status === "hidden" ? reason! : null);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
       }
 
-      // Return admin data for the hardcoded admin
-      const adminData = {
-        id: "1",
-        email: "admin@sirahbazaar.com",
-        fullName: "Admin User",
-        role: "super_admin",
-        permissions: ["all"],
-        lastLogin: new Date().toISOString()
-      };
-      res.json(adminData);
+      await storage.createNotification({
+        userId: review.customerId,
+        title: status === "published" ? "Review Published" : "Review Hidden",
+        message: status === "published"
+          ? "Your review is now visible to other customers"
+          : `Your review was hidden by a moderator. Reason: ${reason!.replace(/_/g, " ")}`,
+        type: status === "published" ? "success" : "warning",
+        productId: review.productId,
+      });
+
+      res.json(review);
     } catch (error) {
-      res.status(500).json({ error: "Admin verification failed" });
+      res.status(400).json({ error: "Failed to update review status" });
     }
   });
 
-  app.post("/api/admin/create", async (req, res) => {
+  app.delete("/api/admin/reviews/:id", requirePermission("moderate_reviews"), async (req, res) => {
     try {
-      const adminData = insertAdminSchema.parse(req.body);
-      const admin = await storage.createAdmin(adminData);
+      const id = parseInt(req.params.id);
+      const { reason } = deleteReviewSchema.parse(req.body);
 
-      const { password, ...adminWithoutPassword } = admin;
-      res.json({ admin: adminWithoutPassword });
+      const review = await storage.getReview(id);
+      if (!review || !(await storage.deleteReview(id))) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+
+      await storage.createNotification({
+        userId: review.customerId,
+        title: "Review Removed",
+        message: `Your review was removed by a moderator. Reason: ${reason.replace(/_/g, " ")}`,
+        type: "warning",
+        productId: review.productId,
+      });
+
+      res.json({ success: true });
     } catch (error) {
-      res.status(400).json({ error: "Failed to create admin" });
+      res.status(400).json({ error: "Failed to delete review" });
     }
   });
 
   // Admin analytics routes
-  app.get("/api/admin/analytics/stats", async (req, res) => {
+  app.get("/api/admin/analytics/stats", requirePermission("view_analytics"), async (req, res) => {
     try {
       const stats = await storage.getVisitStats();
       res.json(stats);
@@ -682,7 +2416,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/analytics/visits", async (req, res) => {
+  app.get("/api/admin/analytics/visits", requirePermission("view_analytics"), async (req, res) => {
     try {
       const visits = await storage.getPageViews();
       res.json(visits);
@@ -693,7 +2427,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Notifications routes
-  app.post("/api/notifications", async (req, res) => {
+  app.post("/api/notifications", requirePermission("manage_users"), async (req, res) => {
     try {
       const notificationData = insertNotificationSchema.parse(req.body);
       const notification = await storage.createNotification(notificationData);
@@ -703,7 +2437,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/notifications/user/:userId", async (req, res) => {
+  app.get("/api/notifications/user/:userId", isSelf("userId", "manage_users"), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const notifications = await storage.getUserNotifications(userId);
@@ -713,7 +2447,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/notifications/:id/read", async (req, res) => {
+  app.put("/api/notifications/:id/read", authorize(async (req) => {
+    const notification = await storage.getNotification(parseInt(req.params.id));
+    return !!notification && notification.userId === callerId(req);
+  }, "manage_users"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const success = await storage.markNotificationAsRead(id);
@@ -723,7 +2460,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/notifications/user/:userId/read-all", async (req, res) => {
+  app.put("/api/notifications/user/:userId/read-all", isSelf("userId", "manage_users"), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const success = await storage.markAllNotificationsAsRead(userId);
@@ -734,22 +2471,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Order tracking routes
-  app.post("/api/orders/:orderId/tracking", async (req, res) => {
+  app.post("/api/store-orders/:id/tracking", authorize((req) => ownsStoreOrder(callerId(req), parseInt(req.params.id)), "manage_orders"), async (req, res) => {
     try {
-      const orderId = parseInt(req.params.orderId);
-      const { status, description, location } = req.body;
-
-      const tracking = await storage.updateOrderTracking(orderId, status, description, location);
+      const storeOrder = await storage.getStoreOrder(parseInt(req.params.id));
+      if (!storeOrder) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      const { description, location } = req.body;
+
+      // A delivery update such as the courier's location; status changes
+      // go through the status route
+      const tracking = await storage.createOrderTracking({
+        orderId: storeOrder.orderId,
+        storeOrderId: storeOrder.id,
+        status: storeOrder.status,
+        description,
+        location
+      });
 
       // Create notification for customer
-      const order = await storage.getOrder(orderId);
+      const order = await storage.getOrder(storeOrder.orderId);
       if (order) {
         await storage.createNotification({
           userId: order.customerId,
-          title: "Order Status Updated",
-          message: `Your order #${orderId} status has been updated to: ${status}`,
+          title: "Order Update",
+          message: `Your order #${order.id}: ${description || location || orderStatusLabel(storeOrder.status)}`,
           type: "info",
-          orderId: orderId
+          orderId: order.id
         });
       }
 
@@ -759,7 +2507,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/orders/:orderId/tracking", async (req, res) => {
+  app.get("/api/orders/:orderId/tracking", authorize((req) => canViewOrder(callerId(req), parseInt(req.params.orderId)), "manage_orders"), async (req, res) => {
     try {
       const orderId = parseInt(req.params.orderId);
       const tracking = await storage.getOrderTracking(orderId);
@@ -770,7 +2518,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Return policy routes
-  app.post("/api/stores/:storeId/return-policy", async (req, res) => {
+  app.post("/api/stores/:storeId/return-policy", authorize((req) => ownsStore(callerId(req), parseInt(req.params.storeId)), "moderate_stores"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       const policyData = { ...insertReturnPolicySchema.parse(req.body), storeId };
@@ -791,7 +2539,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/stores/:storeId/return-policy", async (req, res) => {
+  app.put("/api/stores/:storeId/return-policy", authorize((req) => ownsStore(callerId(req), parseInt(req.params.storeId)), "moderate_stores"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       const updates = req.body;
@@ -803,33 +2551,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Returns routes
-  app.post("/api/returns", async (req, res) => {
+  app.post("/api/returns", requireAuth, async (req, res) => {
     try {
-      const returnData = insertReturnSchema.parse(req.body);
+      const returnData = insertReturnSchema.parse({ ...req.body, customerId: callerId(req) });
+
+      // Only the customer who placed the order can return its items
+      const order = await storage.getOrder(returnData.orderId);
+      const items = order ? await storage.getOrderItems(order.id) : [];
+      const orderItem = items.find((item) => item.id === returnData.orderItemId);
+      if (!order || order.customerId !== returnData.customerId || !orderItem) {
+        return res.status(403).json({ error: "You do not have permission to perform this action" });
+      }
+      // Returns are handled by each store once its part has been delivered
+      const storeOrder = await storage.getStoreOrder(orderItem.storeOrderId);
+      if (storeOrder?.status !== "delivered") {
+        return res.status(400).json({ error: "Items can only be returned once they have been delivered" });
+      }
       const returnItem = await storage.createReturn(returnData);
 
-      // Create notification for store owner
-      const orderItem = await storage.getOrderItems(returnData.orderId);
-      if (orderItem.length > 0) {
-        const store = await storage.getStore(orderItem[0].storeId);
-        if (store) {
-          await storage.createNotification({
-            userId: store.ownerId,
-            title: "New Return Request",
-            message: `A return request has been submitted for order #${returnData.orderId}`,
-            type: "warning",
-            orderId: returnData.orderId
-          });
-        }
+      // Create notification for the store the item came from
+      const store = await storage.getStore(orderItem.storeId);
+      if (store) {
+        await storage.createNotification({
+          userId: store.ownerId,
+          title: "New Return Request",
+          message: `A return request has been submitted for order #${returnData.orderId}`,
+          type: "warning",
+          orderId: returnData.orderId
+        });
       }
 
       res.json(returnItem);
     } catch (error) {
+      if (error instanceof ReturnAlreadyRequestedError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(400).json({ error: "Failed to create return request" });
     }
   });
 
-  app.get("/api/returns/customer/:customerId", async (req, res) => {
+  app.get("/api/returns/customer/:customerId", isSelf("customerId", "manage_orders"), async (req, res) => {
     try {
       const customerId = parseInt(req.params.customerId);
       const returns = await storage.getReturnsByCustomer(customerId);
@@ -839,7 +2600,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/returns/store/:storeId", async (req, res) => {
+  app.get("/api/returns/store/:storeId", authorize((req) => ownsStore(callerId(req), parseInt(req.params.storeId)), "manage_orders"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       const returns = await storage.getReturnsByStore(storeId);
@@ -849,10 +2610,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/returns/:id/status", async (req, res) => {
+  app.put("/api/returns/:id/status", authorize(async (req) => {
+    const returnItem = await storage.getReturn(parseInt(req.params.id));
+    if (!returnItem) {
+      return false;
+    }
+    const items = await storage.getOrderItems(returnItem.orderId);
+    const item = items.find((orderItem) => orderItem.id === returnItem.orderItemId);
+    return !!item && await ownsStore(callerId(req), item.storeId);
+  }, "issue_refunds"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { status } = req.body;
+      const parsed = updateReturnStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid return status" });
+      }
+      const { status } = parsed.data;
       const returnItem = await storage.updateReturnStatus(id, status);
 
       if (returnItem) {
@@ -872,88 +2645,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Store distance calculation routes
-  app.get("/api/stores/nearby", async (req, res) => {
-    try {
-      const { lat, lon } = req.query;
-      if (!lat || !lon) {
-        return res.status(400).json({ error: "Latitude and longitude are required" });
-      }
-
-      const userLat = parseFloat(lat as string);
-      const userLon = parseFloat(lon as string);
-      const storesWithDistance = await storage.getStoresWithDistance(userLat, userLon);
-
-      res.json(storesWithDistance);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch nearby stores" });
-    }
-  });
-
-  // Enhanced order creation with notifications
-  app.post("/api/orders/enhanced", async (req, res) => {
-    try {
-      const { order, items } = req.body;
-      const orderData = insertOrderSchema.parse(order);
-
-      // Create the order
-      const createdOrder = await storage.createOrder(orderData);
-
-      // Create order items and notify store owners
-      const storeOwners = new Set<number>();
-      for (const item of items) {
-        await storage.createOrderItem({
-          orderId: createdOrder.id,
-          productId: item.productId,
-          quantity: item.quantity,
-          price: item.price,
-          storeId: item.storeId
-        });
-
-        // Track store owners for notifications
-        const store = await storage.getStore(item.storeId);
-        if (store) {
-          storeOwners.add(store.ownerId);
-        }
-      }
-
-      // Clear customer's cart
-      await storage.clearCart(orderData.customerId);
-
-      // Create order tracking
-      await storage.createOrderTracking({
-        orderId: createdOrder.id,
-        status: "pending",
-        description: "Order placed successfully"
-      });
-
-      // Send notifications to store owners
-      for (const ownerId of Array.from(storeOwners)) {
-        await storage.createNotification({
-          userId: ownerId,
-          title: "New Order Received",
-          message: `New order #${createdOrder.id} received from ${orderData.customerName}`,
-          type: "success",
-          orderId: createdOrder.id
-        });
-      }
-
-      // Send confirmation notification to customer
-      await storage.createNotification({
-        userId: orderData.customerId,
-        title: "Order Confirmed",
-        message: `Your order #${createdOrder.id} has been confirmed and is being processed`,
-        type: "success",
-        orderId: createdOrder.id
-      });
-
-      res.json({ order: createdOrder, success: true });
-    } catch (error) {
-      console.error("Enhanced order creation error:", error);
-      res.status(400).json({ error: "Failed to create order" });
-    }
-  });
-
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,67 @@
+import fs from "fs/promises";
+
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+// Anything that can deliver a text message; real gateways implement this
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<void>;
+}
+
+// Development provider that appends each message to a log file instead of sending it
+export class LogSmsProvider implements SmsProvider {
+  constructor(private readonly logFile: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const line = `${new Date().toISOString()} to=${message.to} ${JSON.stringify(message.text)}\n`;
+    await fs.appendFile(this.logFile, line);
+    console.log(`[sms] To: ${message.to} ${message.text}`);
+  }
+}
+
+// Refuses every message. Production uses it until a real gateway is
+// added, since the log provider would leave login codes in the logs
+export class DisabledSmsProvider implements SmsProvider {
+  async send(): Promise<void> {
+    throw new Error("No SMS provider is configured");
+  }
+}
+
+function createProviderFromEnv(): SmsProvider {
+  if (process.env.NODE_ENV === "production") {
+    console.warn("[sms] No SMS provider is configured for production; messages will not be sent");
+    return new DisabledSmsProvider();
+  }
+  switch (process.env.SMS_PROVIDER) {
+    case "log":
+    case undefined:
+    case "":
+      return new LogSmsProvider(process.env.SMS_LOG_FILE || "sms.log");
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${process.env.SMS_PROVIDER}"`);
+  }
+}
+
+let provider: SmsProvider = createProviderFromEnv();
+
+export function setSmsProvider(smsProvider: SmsProvider) {
+  provider = smsProvider;
+}
+
+export async function sendSms(message: SmsMessage): Promise<void> {
+  await provider.send(message);
+}
+
+// Normalises Nepali mobile numbers to +977XXXXXXXXXX so the same phone
+// typed in different ways maps to one account. Returns null when the
+// input isn't a valid mobile number.
+export function normalizePhone(input: string): string | null {
+  const digits = input.replace(/\D/g, "");
+  const local = digits.startsWith("977") && digits.length === 13 ? digits.slice(3) : digits;
+  if (!/^9\d{9}$/.test(local)) {
+    return null;
+  }
+  return `+977${local}`;
+}
@@ -1,30 +1,489 @@
 import {
-  users, stores, categories, products, orders, orderItems, cartItems, wishlistItems,
-  admins, websiteVisits, notifications, orderTracking, returnPolicies, returns,
-  type User, type InsertUser, type Store, type InsertStore,
-  type Category, type InsertCategory, type Product, type InsertProduct,
-  type Order, type InsertOrder, type OrderItem, type InsertOrderItem,
+  users, stores, categories, products, orders, storeOrders, orderItems, cartItems, wishlistItems,
+  storeDocuments, admins, adminSessions, userSessions, verificationCodes, websiteVisits, notifications, orderTracking, returnPolicies, returns,
+  refunds, reviews, reviewVotes, reviewReports, productOptions, productVariants, productSearch, categoryAttributes, inventoryMovements, idempotencyKeys,
+  type User, type InsertUser, type UserStatus, type Store, type InsertStore,
+  type StoreStatus, type StoreDocument, type InsertStoreDocument,
+  type Category, type InsertCategory, type CategoryAttribute, type CategoryAttributesInput, type ReorderCategoriesInput,
+  type Product, type InsertProduct,
+  type Order, type InsertOrder, type StoreOrder, type InsertStoreOrder, type StoreOrderStatus, type OrderItem, type InsertOrderItem,
   type CartItem, type InsertCartItem, type WishlistItem, type InsertWishlistItem,
-  type Admin, type InsertAdmin, type WebsiteVisit, type InsertWebsiteVisit,
+  type Admin, type InsertAdmin, type AdminSession, type InsertAdminSession,
+  type UserSession, type InsertUserSession, type VerificationCode, type InsertVerificationCode, type WebsiteVisit, type InsertWebsiteVisit,
   type Notification, type InsertNotification, type OrderTracking, type InsertOrderTracking,
-  type ReturnPolicy, type InsertReturnPolicy, type Return, type InsertReturn
+  type ReturnPolicy, type InsertReturnPolicy, type Return, type InsertReturn, type ReturnStatus, type Refund,
+  type Review, type InsertReview, type ReviewStatus, type ReviewReport,
+  type ProductOption, type ProductVariant, type InsertProductVariant, type ProductVariantsInput,
+  type InventoryMovement, type InsertInventoryMovement, type StockAdjustment,
+  type IdempotencyKey, type InsertIdempotencyKey
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, ilike, or, desc, count, sql, gte } from "drizzle-orm";
+import { categoryPath } from "./categories";
+import { parentOrderStatus, canTransition, canCustomerCancel, isPrepaid, orderStatusLabel, type OrderActor } from "@shared/orders";
+import { isFlashSale } from "@shared/offers";
+import { eq, ne, and, ilike, or, asc, desc, count, sql, gte, gt, lte, isNull, inArray, notInArray, arrayOverlaps, getTableColumns, type SQL } from "drizzle-orm";
+
+// Only approved, active stores (and their products) are shown to shoppers
+const visibleStore = and(eq(stores.status, "approved"), eq(stores.isActive, true));
+const visibleStoreIds = db.select({ id: stores.id }).from(stores).where(visibleStore);
+
+// Phones are stored however users typed them, so compare the last ten digits
+const samePhone = (phone: string) =>
+  sql`right(regexp_replace(${users.phone}, '[^0-9]', '', 'g'), 10) = ${phone.replace(/\D/g, "").slice(-10)}`;
+
+// Products deleted after they were ordered are kept, inactive, for the order
+// history; shoppers and store owners no longer see them
+const activeProduct = eq(products.isActive, true);
+
+// Mirrors isOfferActive in shared/offers.ts
+const offerActive = sql<boolean>`(
+  coalesce(${products.offerPercentage}, 0) > 0
+  and (${products.offerStartsAt} is null or ${products.offerStartsAt} <= now())
+  and (${products.offerEndsAt} is null or ${products.offerEndsAt} > now())
+  and not (coalesce(${products.isFastSell}, false) and ${products.flashSaleQuantity} is not null
+    and ${products.flashSaleSold} >= ${products.flashSaleQuantity})
+)`;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Applies a signed change to a variant's stock and records it in the ledger.
+// Changes nothing and returns undefined when the variant has too little stock
+async function moveStock(
+  tx: Transaction,
+  variantId: number,
+  quantity: number,
+  movement: Pick<InsertInventoryMovement, "type" | "orderId" | "note" | "createdBy">,
+): Promise<InventoryMovement | undefined> {
+  const [variant] = await tx.update(productVariants)
+    .set({ stock: sql`${productVariants.stock} + ${quantity}` })
+    .where(and(eq(productVariants.id, variantId), sql`${productVariants.stock} + ${quantity} >= 0`))
+    .returning({ productId: productVariants.productId, stock: productVariants.stock });
+  if (!variant) {
+    return undefined;
+  }
+  const [recorded] = await tx.insert(inventoryMovements)
+    .values({ ...movement, productId: variant.productId, variantId, quantity, stockAfter: variant.stock })
+    .returning();
+  return recorded;
+}
+
+// Records stock set directly (product form, variant editor, catalog import):
+// a new variant opens with a restock, later edits are adjustments
+async function recordStockEdit(tx: Transaction, variant: Pick<ProductVariant, "id" | "productId">, previous: number | null, stock: number) {
+  const quantity = stock - (previous ?? 0);
+  if (quantity === 0) {
+    return;
+  }
+  await tx.insert(inventoryMovements).values({
+    productId: variant.productId,
+    variantId: variant.id,
+    type: previous === null ? "restock" : "adjustment",
+    quantity,
+    stockAfter: stock,
+  });
+}
+
+// New products start with a single variant carrying the product's price and stock
+async function insertProduct(tx: Transaction, product: InsertProduct, sku?: string): Promise<Product> {
+  const [created] = await tx.insert(products).values(product).returning();
+  const [variant] = await tx.insert(productVariants).values({
+    productId: created.id,
+    sku: sku ?? `P${created.id}`,
+    price: created.price,
+    originalPrice: created.originalPrice,
+    stock: created.stock ?? 0,
+  }).returning();
+  await recordStockEdit(tx, variant, null, variant.stock);
+  return created;
+}
+
+// Takes units from a flash sale's cap; false when not enough are left
+async function claimFlashSale(tx: Transaction, productId: number, quantity: number): Promise<boolean> {
+  const claimed = await tx.update(products)
+    .set({ flashSaleSold: sql`${products.flashSaleSold} + ${quantity}` })
+    .where(and(
+      eq(products.id, productId),
+      or(isNull(products.flashSaleQuantity), sql`${products.flashSaleSold} + ${quantity} <= ${products.flashSaleQuantity}`),
+    ))
+    .returning({ id: products.id });
+  return claimed.length > 0;
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(public readonly from: string, public readonly to: string) {
+    super(`A ${orderStatusLabel(from).toLowerCase()} order can't be marked ${orderStatusLabel(to).toLowerCase()}`);
+  }
+}
+
+export interface StatusChange {
+  status: StoreOrderStatus;
+  actor: OrderActor;
+  changedBy: number | null;
+  note?: string;
+}
+
+// Where the time a store order reached each stage is kept
+const stageTimestamps: Partial<Record<StoreOrderStatus,
+  "confirmedAt" | "packedAt" | "outForDeliveryAt" | "deliveredAt" | "failedDeliveryAt" | "cancelledAt" | "returnedAt">> = {
+  confirmed: "confirmedAt",
+  packed: "packedAt",
+  out_for_delivery: "outForDeliveryAt",
+  delivered: "deliveredAt",
+  failed_delivery: "failedDeliveryAt",
+  cancelled: "cancelledAt",
+  returned: "returnedAt",
+};
+
+const statusNotices: Record<StoreOrderStatus, string> = {
+  pending: "has been placed",
+  confirmed: "has been confirmed",
+  packed: "has been packed",
+  out_for_delivery: "is out for delivery",
+  delivered: "has been delivered",
+  cancelled: "has been cancelled",
+  failed_delivery: "could not be delivered",
+  returned: "has been returned",
+};
+
+// Moves a store order, locked by the caller, to a new status. Throws
+// InvalidStatusTransitionError unless the actor may make the change. Stamps
+// the stage, puts a cancelled order's stock back and refunds it when it was
+// prepaid, adds the change to the tracking history, tells the customer and
+// updates the order's own status. Returns the items whose stock was put back
+// and the refund, if any
+async function transitionStoreOrder(tx: Transaction, current: StoreOrder, change: StatusChange): Promise<{ storeOrder: StoreOrder; order: Order; released: OrderItem[]; refund?: Refund }> {
+  if (!canTransition(change.actor, current.status, change.status)) {
+    throw new InvalidStatusTransitionError(current.status, change.status);
+  }
+  const now = new Date();
+  const values: Partial<typeof storeOrders.$inferInsert> = { status: change.status, updatedAt: now };
+  const stage = stageTimestamps[change.status];
+  if (stage) {
+    values[stage] = now;
+  }
+  const [storeOrder] = await tx.update(storeOrders).set(values).where(eq(storeOrders.id, current.id)).returning();
+
+  const released = change.status === "cancelled"
+    ? await tx.select().from(orderItems).where(eq(orderItems.storeOrderId, current.id)).orderBy(asc(orderItems.variantId))
+    : [];
+  for (const item of released) {
+    await moveStock(tx, item.variantId, item.quantity, { type: "cancellation", orderId: current.orderId });
+  }
+
+  await tx.insert(orderTracking).values({
+    orderId: current.orderId,
+    storeOrderId: current.id,
+    status: change.status,
+    previousStatus: current.status,
+    changedBy: change.changedBy,
+    description: change.note,
+  });
+
+  const siblings = await tx.select({ status: storeOrders.status }).from(storeOrders)
+    .where(eq(storeOrders.orderId, current.orderId));
+  const [order] = await tx.update(orders)
+    .set({ status: parentOrderStatus(siblings.map((sibling) => sibling.status)) })
+    .where(eq(orders.id, current.orderId))
+    .returning();
+  const [store] = await tx.select({ name: stores.name }).from(stores).where(eq(stores.id, current.storeId));
+  await tx.insert(notifications).values({
+    userId: order.customerId,
+    title: "Order Update",
+    message: `Your order #${order.id} from ${store.name} ${statusNotices[change.status]}.${change.note ? ` ${change.note}` : ""}`,
+    type: change.status === "cancelled" || change.status === "failed_delivery" ? "warning"
+      : change.status === "delivered" ? "success" : "info",
+    orderId: order.id,
+  });
+
+  let refund: Refund | undefined;
+  if (change.status === "cancelled" && isPrepaid(order.paymentMethod)) {
+    [refund] = await tx.insert(refunds).values({
+      orderId: order.id,
+      storeOrderId: current.id,
+      customerId: order.customerId,
+      amount: current.totalAmount,
+      paymentMethod: order.paymentMethod,
+      reason: change.note ?? "Order cancelled",
+    }).returning();
+    await tx.insert(notifications).values({
+      userId: order.customerId,
+      title: "Refund Initiated",
+      message: `A refund of ₹${Number(refund.amount).toFixed(2)} for your order #${order.id} from ${store.name} has been initiated to your ${order.paymentMethod.toUpperCase()}`,
+      type: "info",
+      orderId: order.id,
+    });
+  }
+
+  return { storeOrder, order, released, refund };
+}
+
+export class OrderNotCancellableError extends Error {}
+
+export class ReturnAlreadyRequestedError extends Error {}
+
+export class OutOfStockError extends Error {
+  constructor(public readonly productId: number, public readonly variantId: number) {
+    super(`Variant ${variantId} does not have enough stock`);
+  }
+}
+
+export class FlashSaleSoldOutError extends Error {
+  constructor(public readonly productId: number) {
+    super(`The flash sale of product ${productId} has sold out`);
+  }
+}
+
+// One row of a catalog import: a new single-variant product, or new values
+// for an existing variant and its product
+export type CatalogImportChange =
+  | { type: "create"; product: InsertProduct; sku: string }
+  | {
+    type: "update";
+    productId: number;
+    variantId: number;
+    product: Partial<InsertProduct>;
+    variant: Partial<Pick<InsertProductVariant, "price" | "originalPrice" | "stock">>;
+  };
+
+// Everything written when an order is placed, with one store order per
+// store. Prices, fees and totals are already computed; notifications are
+// built once the order has its id
+export interface OrderDraft {
+  order: InsertOrder;
+  storeOrders: (Omit<InsertStoreOrder, "orderId"> & { items: Omit<InsertOrderItem, "orderId" | "storeOrderId">[] })[];
+  flashSales: { productId: number; quantity: number }[];
+  notifications: (order: Order) => InsertNotification[];
+}
+
+// Shoppers see published reviews; authors also see their own held or hidden ones
+const visibleReviewTo = (viewerId?: number) => viewerId
+  ? or(eq(reviews.status, "published"), eq(reviews.customerId, viewerId))
+  : eq(reviews.status, "published");
+
+export interface UserSearchFilters {
+  search?: string;
+  status?: string;
+  role?: string;
+  page: number;
+  limit: number;
+}
+
+export type ReviewSort = "recent" | "helpful" | "highest" | "lowest";
+
+export type ReviewWithAuthor = Review & { customerName: string };
+
+export type ModerationQueueFilter = ReviewStatus | "reported";
+
+export type ModeratedReview = ReviewWithAuthor & {
+  productName: string;
+  openReports: Pick<ReviewReport, "reason" | "details" | "createdAt">[];
+};
+
+// A variant on the stock-adjustment screen
+export type InventoryItem = ProductVariant & { productName: string; lowStockThreshold: number };
+
+export type InventoryMovementEntry = InventoryMovement & { productName: string; sku: string };
+
+// A store order with the customer's delivery details, for the store's order list
+export type StoreOrderEntry = StoreOrder & Pick<Order,
+  "customerId" | "customerName" | "phone" | "shippingAddress" | "paymentMethod" | "latitude" | "longitude">;
+
+export interface CancelledOrder {
+  order: Order;
+  storeOrders: StoreOrder[];
+  refunds: Refund[];
+}
+
+export interface PlacedOrder {
+  order: Order;
+  storeOrders: StoreOrder[];
+  items: OrderItem[];
+  movements: InventoryMovement[];
+}
+
+export type ProductSort = "relevance" | "popularity" | "price-low" | "price-high" | "rating" | "newest";
+
+// Shopper-facing product listing. Paging is by page number or, for infinite
+// scroll, by the cursor returned with the previous page
+export interface ProductListFilters {
+  search?: string;
+  categoryIds?: number[];
+  storeId?: number;
+  includeHiddenStore?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  onOffer?: boolean;
+  minRating?: number;
+  sort: ProductSort;
+  page: number;
+  limit: number;
+  after?: ProductCursor;
+}
+
+export interface ProductCursor {
+  value: string;
+  id: number;
+}
+
+// Counts for the filter sidebar. Each facet ignores its own filter so the
+// shopper can see what widening it would return
+export interface ProductFacets {
+  categories: { categoryId: number; count: number }[];
+  price: { min: number; max: number };
+  inStock: number;
+  onOffer: number;
+}
+
+// Search results carry a description excerpt with matches wrapped in [[ ]]
+export type ProductListItem = Product & { snippet: string | null };
+
+export interface ProductListPage {
+  products: ProductListItem[];
+  total: number;
+  nextCursor: string | null;
+  facets: ProductFacets;
+}
+
+// Full-text match, with trigram similarity as a fallback so that a misspelt
+// "chamal" still finds "Chawal"
+const TYPO_SIMILARITY = 0.3;
+
+const searchTsQuery = (search: string) => sql`websearch_to_tsquery('simple', ${search})`;
+
+// Every word as a prefix, for matching while the shopper is still typing
+const prefixTsQuery = (search: string) => {
+  const words = search.toLowerCase().split(/\s+/)
+    .map((word) => word.replace(/[&|!():*<>'"\\]/g, "")) // tsquery operators
+    .filter(Boolean);
+  return sql`to_tsquery('simple', ${words.map((word) => `${word}:*`).join(" & ")})`;
+};
+
+const searchMatch = (search: string, tsQuery: SQL) => or(
+  sql`${productSearch.document} @@ ${tsQuery}`,
+  sql`word_similarity(${search}, ${productSearch.content}) >= ${TYPO_SIMILARITY}`
+)!;
+
+const matchingProductIds = (search: string) => db.select({ id: productSearch.productId })
+  .from(productSearch)
+  .where(searchMatch(search, searchTsQuery(search)));
+
+// Text relevance, boosted for products that are in stock and well rated
+const searchRank = (search: string, tsQuery: SQL) => sql`coalesce(
+  (ts_rank(${productSearch.document}, ${tsQuery}) + word_similarity(${search}, ${productSearch.content}))
+    * (case when ${products.stock} > 0 then 1.5 else 1 end)
+    * (1 + coalesce(${products.rating}, 0) / 10),
+  0)`;
+
+interface ProductSortOrder {
+  column: SQL;
+  cast: string;
+  direction: "asc" | "desc";
+}
+
+// Sort expression for each listing order; ties break on id in the same direction
+const productSortOrders: Record<Exclude<ProductSort, "relevance">, ProductSortOrder> = {
+  popularity: { column: sql`coalesce(${products.totalReviews}, 0)`, cast: "integer", direction: "desc" },
+  "price-low": { column: sql`${products.price}`, cast: "numeric", direction: "asc" },
+  "price-high": { column: sql`${products.price}`, cast: "numeric", direction: "desc" },
+  rating: { column: sql`coalesce(${products.rating}, 0)`, cast: "numeric", direction: "desc" },
+  newest: { column: sql`${products.createdAt}`, cast: "timestamp", direction: "desc" },
+};
+
+// Relevance only means something for a search; otherwise fall back to popularity
+function productSortOrder(filters: ProductListFilters): ProductSortOrder {
+  if (filters.sort === "relevance") {
+    return filters.search
+      ? { column: searchRank(filters.search, searchTsQuery(filters.search)), cast: "double precision", direction: "desc" }
+      : productSortOrders.popularity;
+  }
+  return productSortOrders[filters.sort];
+}
+
+export interface SearchSuggestions {
+  products: { id: number; name: string; image: string | null; price: string }[];
+  categories: { id: number; name: string }[];
+}
+
+export function encodeProductCursor(cursor: ProductCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString("base64url");
+}
+
+export function decodeProductCursor(cursor: string): ProductCursor | null {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return typeof value === "string" && Number.isInteger(id) ? { value, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+type ProductFilterKey = "categoryIds" | "price" | "availability";
+
+// WHERE conditions for a listing, leaving out the filters a facet is counting
+function productListConditions(filters: ProductListFilters, ignore?: ProductFilterKey): SQL[] {
+  const conditions: SQL[] = [activeProduct];
+  if (filters.storeId !== undefined) {
+    conditions.push(eq(products.storeId, filters.storeId));
+  }
+  if (!filters.includeHiddenStore) {
+    conditions.push(inArray(products.storeId, visibleStoreIds));
+  }
+  if (filters.search) {
+    conditions.push(inArray(products.id, matchingProductIds(filters.search)));
+  }
+  if (filters.categoryIds?.length && ignore !== "categoryIds") {
+    conditions.push(inArray(products.categoryId, filters.categoryIds));
+  }
+  if (filters.minPrice !== undefined && ignore !== "price") {
+    conditions.push(gte(products.price, String(filters.minPrice)));
+  }
+  if (filters.maxPrice !== undefined && ignore !== "price") {
+    conditions.push(lte(products.price, String(filters.maxPrice)));
+  }
+  if (filters.inStock && ignore !== "availability") {
+    conditions.push(gt(products.stock, 0));
+  }
+  if (filters.onOffer && ignore !== "availability") {
+    conditions.push(eq(products.isOnOffer, true));
+  }
+  if (filters.minRating !== undefined) {
+    conditions.push(gte(products.rating, String(filters.minRating)));
+  }
+  return conditions;
+}
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByVerifiedPhone(phone: string): Promise<User | undefined>;
+  getUsersByPhone(phone: string): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  createPhoneUser(fullName: string, phone: string): Promise<User>;
+  recordFailedUserLogin(id: number): Promise<User | undefined>;
+  lockUser(id: number, until: Date): Promise<void>;
+  resetUserLoginFailures(id: number): Promise<void>;
   updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined>;
+  searchUsers(filters: UserSearchFilters): Promise<{ users: User[]; total: number }>;
+  updateUserStatus(id: number, status: UserStatus, reason?: string): Promise<User | undefined>;
+  setPasswordResetRequired(id: number, required: boolean): Promise<User | undefined>;
 
   // Store operations
   getStore(id: number): Promise<Store | undefined>;
   getStoresByOwnerId(ownerId: number): Promise<Store[]>;
   getAllStores(): Promise<Store[]>;
+  getVisibleStores(): Promise<Store[]>;
+  getStoresByStatus(status?: string): Promise<Store[]>;
   createStore(store: InsertStore): Promise<Store>;
   updateStore(id: number, updates: Partial<InsertStore>): Promise<Store | undefined>;
+  updateStoreStatus(id: number, status: StoreStatus, reason?: string): Promise<Store | undefined>;
+  setStoreFeatured(id: number, featured: boolean): Promise<Store | undefined>;
+
+  // Store document operations
+  getStoreDocuments(storeId: number): Promise<StoreDocument[]>;
+  createStoreDocument(document: InsertStoreDocument): Promise<StoreDocument>;
+  verifyPendingStoreDocuments(storeId: number): Promise<void>;
 
   // Category operations
   getAllCategories(): Promise<Category[]>;
@@ -32,29 +491,68 @@ export interface IStorage {
   createCategory(category: InsertCategory): Promise<Category>;
   updateCategory(id: number, updates: Partial<InsertCategory>): Promise<Category | undefined>;
   deleteCategory(id: number): Promise<boolean>;
+  getCategoryUsage(id: number): Promise<{ subcategories: number; products: number }>;
+  reorderCategories(input: ReorderCategoriesInput): Promise<void>;
+
+  // Category attribute operations
+  getCategoryAttributes(categoryId: number): Promise<CategoryAttribute[]>;
+  getOwnCategoryAttributes(categoryId: number): Promise<CategoryAttribute[]>;
+  setCategoryAttributes(categoryId: number, input: CategoryAttributesInput): Promise<CategoryAttribute[]>;
 
   // Product operations
   getProduct(id: number): Promise<Product | undefined>;
   getProductsByStoreId(storeId: number): Promise<Product[]>;
-  getAllProducts(): Promise<Product[]>;
-  getProductsByCategory(categoryId: number): Promise<Product[]>;
-  searchProducts(query: string): Promise<Product[]>;
-  createProduct(product: InsertProduct): Promise<Product>;
+  listProducts(filters: ProductListFilters): Promise<ProductListPage>;
+  getSearchSuggestions(query: string, limit: number): Promise<SearchSuggestions>;
+  createProduct(product: InsertProduct, sku?: string): Promise<Product>;
   updateProduct(id: number, updates: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: number): Promise<boolean>;
+  getUnusedImages(urls: string[]): Promise<string[]>;
+
+  // Product variant operations
+  getProductOptions(productId: number): Promise<ProductOption[]>;
+  getProductVariants(productId: number): Promise<ProductVariant[]>;
+  getProductVariant(id: number): Promise<ProductVariant | undefined>;
+  getDefaultVariant(productId: number): Promise<ProductVariant | undefined>;
+  saveProductVariants(productId: number, input: ProductVariantsInput): Promise<{ options: ProductOption[]; variants: ProductVariant[] }>;
+  updateProductVariant(id: number, updates: Partial<Pick<InsertProductVariant, "price" | "originalPrice" | "stock">>): Promise<ProductVariant | undefined>;
+  importCatalog(changes: CatalogImportChange[]): Promise<void>;
+  getVariantsBySkus(skus: string[]): Promise<(ProductVariant & { storeId: number })[]>;
+  getStoreVariants(storeId: number): Promise<ProductVariant[]>;
+
+  // Offer operations
+  syncOfferStatuses(productIds?: number[]): Promise<number[]>;
+  releaseFlashSaleUnits(productId: number, quantity: number): Promise<void>;
+  getOrderedQuantity(customerId: number, productId: number, since: Date | null): Promise<number>;
+
+  // Inventory operations
+  getStoreInventory(storeId: number): Promise<InventoryItem[]>;
+  getInventoryMovements(storeId: number, productId?: number, limit?: number): Promise<InventoryMovementEntry[]>;
+  adjustStock(adjustment: StockAdjustment, createdBy: number | null): Promise<InventoryMovement | undefined>;
 
   // Order operations
   getOrder(id: number): Promise<Order | undefined>;
   getOrdersByCustomerId(customerId: number): Promise<Order[]>;
-  getOrdersByStoreId(storeId: number): Promise<Order[]>;
-  createOrder(order: InsertOrder): Promise<Order>;
-  updateOrderStatus(id: number, status: string): Promise<Order | undefined>;
+  placeOrder(draft: OrderDraft): Promise<PlacedOrder>;
+
+  // Store order operations
+  getStoreOrder(id: number): Promise<StoreOrder | undefined>;
+  getStoreOrders(orderId: number): Promise<StoreOrder[]>;
+  getStoreOrdersByStore(storeId: number): Promise<StoreOrderEntry[]>;
+  updateStoreOrderStatus(id: number, change: StatusChange): Promise<StoreOrder | undefined>;
+  cancelOrder(orderId: number, customerId: number, reason: string): Promise<CancelledOrder | undefined>;
 
   // Order item operations
   getOrderItems(orderId: number): Promise<OrderItem[]>;
-  createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem>;
+  getStoreOrderItems(storeOrderId: number): Promise<OrderItem[]>;
+
+  // Idempotency keys
+  claimIdempotencyKey(entry: InsertIdempotencyKey, expiredBefore: Date, abandonedBefore: Date): Promise<{ key: IdempotencyKey; claimed: boolean } | undefined>;
+  completeIdempotencyKey(id: number, responseStatus: number, responseBody: unknown): Promise<void>;
+  releaseIdempotencyKey(id: number): Promise<void>;
 
   // Cart operations
+  getCartItem(id: number): Promise<CartItem | undefined>;
   getCartItems(userId: number): Promise<CartItem[]>;
   addToCart(cartItem: InsertCartItem): Promise<CartItem>;
   updateCartItem(id: number, quantity: number): Promise<CartItem | undefined>;
@@ -62,6 +560,7 @@ export interface IStorage {
   clearCart(userId: number): Promise<boolean>;
 
   // Wishlist operations
+  getWishlistItem(id: number): Promise<WishlistItem | undefined>;
   getWishlistItems(userId: number): Promise<WishlistItem[]>;
   addToWishlist(wishlistItem: InsertWishlistItem): Promise<WishlistItem>;
   removeFromWishlist(id: number): Promise<boolean>;
@@ -70,7 +569,35 @@ export interface IStorage {
   // Admin operations
   getAdmin(id: number): Promise<Admin | undefined>;
   getAdminByEmail(email: string): Promise<Admin | undefined>;
+  getAllAdmins(): Promise<Admin[]>;
   createAdmin(admin: InsertAdmin): Promise<Admin>;
+  updateAdmin(id: number, updates: Partial<InsertAdmin>): Promise<Admin | undefined>;
+  recordFailedAdminLogin(id: number): Promise<Admin | undefined>;
+  lockAdmin(id: number, until: Date): Promise<void>;
+  resetAdminLoginFailures(id: number): Promise<void>;
+
+  // Admin sessions
+  createAdminSession(session: InsertAdminSession): Promise<AdminSession>;
+  getActiveAdminSession(tokenHash: string): Promise<AdminSession | undefined>;
+  revokeAdminSession(tokenHash: string): Promise<boolean>;
+
+  // User sessions
+  createUserSession(session: InsertUserSession): Promise<UserSession>;
+  getActiveUserSession(id: number): Promise<UserSession | undefined>;
+  getActiveUserSessions(userId: number): Promise<UserSession[]>;
+  touchUserSession(id: number, ipAddress?: string): Promise<void>;
+  revokeUserSession(id: number): Promise<boolean>;
+  revokeUserSessions(userId: number, exceptSessionId?: number): Promise<number>;
+
+  // One-time verification codes
+  createVerificationCode(code: InsertVerificationCode): Promise<VerificationCode>;
+  countVerificationCodesSince(identifier: string, purpose: string, since: Date): Promise<number>;
+  getLatestVerificationCode(identifier: string, purpose: string): Promise<VerificationCode | undefined>;
+  getActiveVerificationCode(identifier: string, purpose: string): Promise<VerificationCode | undefined>;
+  incrementVerificationAttempts(id: number): Promise<void>;
+  consumeVerificationCode(id: number): Promise<boolean>;
+  setEmailVerified(userId: number, verified: boolean): Promise<User | undefined>;
+  setPhoneVerified(userId: number, verified: boolean): Promise<User | undefined>;
 
   // Website visit tracking
   recordVisit(visit: InsertWebsiteVisit): Promise<WebsiteVisit>;
@@ -79,6 +606,7 @@ export interface IStorage {
 
   // Notifications
   createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotification(id: number): Promise<Notification | undefined>;
   getUserNotifications(userId: number): Promise<Notification[]>;
   markNotificationAsRead(id: number): Promise<boolean>;
   markAllNotificationsAsRead(userId: number): Promise<boolean>;
@@ -86,7 +614,6 @@ export interface IStorage {
   // Order tracking
   createOrderTracking(tracking: InsertOrderTracking): Promise<OrderTracking>;
   getOrderTracking(orderId: number): Promise<OrderTracking[]>;
-  updateOrderTracking(orderId: number, status: string, description?: string, location?: string): Promise<OrderTracking>;
 
   // Return policy
   createReturnPolicy(policy: InsertReturnPolicy): Promise<ReturnPolicy>;
@@ -98,7 +625,30 @@ export interface IStorage {
   getReturn(id: number): Promise<Return | undefined>;
   getReturnsByCustomer(customerId: number): Promise<Return[]>;
   getReturnsByStore(storeId: number): Promise<Return[]>;
-  updateReturnStatus(id: number, status: string): Promise<Return | undefined>;
+  updateReturnStatus(id: number, status: ReturnStatus): Promise<Return | undefined>;
+
+  // Refunds
+  getRefunds(status?: string): Promise<Refund[]>;
+
+  // Reviews
+  getReview(id: number): Promise<Review | undefined>;
+  getProductReviews(productId: number, sort: ReviewSort, viewerId?: number): Promise<ReviewWithAuthor[]>;
+  getStoreReviews(storeId: number, viewerId?: number): Promise<ReviewWithAuthor[]>;
+  getCustomerProductReview(customerId: number, productId: number): Promise<Review | undefined>;
+  getDeliveredOrderItem(customerId: number, productId: number): Promise<OrderItem | undefined>;
+  createReview(review: InsertReview): Promise<Review>;
+  updateReview(id: number, updates: Partial<InsertReview>): Promise<Review | undefined>;
+  deleteReview(id: number): Promise<boolean>;
+  setSellerReply(id: number, reply: string | null): Promise<Review | undefined>;
+  addReviewVote(reviewId: number, userId: number): Promise<Review | undefined>;
+  removeReviewVote(reviewId: number, userId: number): Promise<Review | undefined>;
+  getVotedReviewIds(userId: number, reviewIds: number[]): Promise<number[]>;
+  recomputeReviewAggregates(productId: number, storeId: number): Promise<void>;
+
+  // Review moderation
+  createReviewReport(reviewId: number, reporterId: number, reason: string, details?: string): Promise<ReviewReport | undefined>;
+  getModerationQueue(filter: ModerationQueueFilter): Promise<ModeratedReview[]>;
+  setReviewStatus(id: number, status: ReviewStatus, reason: string | null): Promise<Review | undefined>;
 
   // Distance calculation between stores and user location
   calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number;
@@ -118,16 +668,98 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Only one account can have a number verified
+  async getUserByVerifiedPhone(phone: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users)
+      .where(and(eq(users.phoneVerified, true), samePhone(phone)));
+    return user;
+  }
+
+  // Every account with the number, verified or not, oldest first
+  async getUsersByPhone(phone: string): Promise<User[]> {
+    return await db.select().from(users)
+      .where(samePhone(phone))
+      .orderBy(asc(users.createdAt), asc(users.id));
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const [newUser] = await db.insert(users).values(user).returning();
     return newUser;
   }
 
+  async createPhoneUser(fullName: string, phone: string): Promise<User> {
+    const [newUser] = await db.insert(users)
+      .values({ fullName, phone, role: "customer", phoneVerified: true })
+      .returning();
+    return newUser;
+  }
+
+  async recordFailedUserLogin(id: number): Promise<User | undefined> {
+    const [updatedUser] = await db.update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  async lockUser(id: number, until: Date): Promise<void> {
+    await db.update(users).set({ lockedUntil: until }).where(eq(users.id, id));
+  }
+
+  async resetUserLoginFailures(id: number): Promise<void> {
+    await db.update(users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, id));
+  }
+
   async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
     const [updatedUser] = await db.update(users).set(updates).where(eq(users.id, id)).returning();
     return updatedUser;
   }
 
+  async searchUsers(filters: UserSearchFilters): Promise<{ users: User[]; total: number }> {
+    const conditions = [];
+    if (filters.search) {
+      conditions.push(or(
+        ilike(users.fullName, `%${filters.search}%`),
+        ilike(users.email, `%${filters.search}%`),
+        ilike(users.phone, `%${filters.search}%`)
+      ));
+    }
+    if (filters.status) {
+      conditions.push(eq(users.status, filters.status));
+    }
+    if (filters.role) {
+      conditions.push(eq(users.role, filters.role));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: count() }).from(users).where(where);
+    const results = await db.select().from(users)
+      .where(where)
+      .orderBy(desc(users.createdAt))
+      .limit(filters.limit)
+      .offset((filters.page - 1) * filters.limit);
+
+    return { users: results, total };
+  }
+
+  async updateUserStatus(id: number, status: UserStatus, reason?: string): Promise<User | undefined> {
+    const [updatedUser] = await db.update(users)
+      .set({ status, statusReason: status === "active" ? null : reason ?? null })
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  async setPasswordResetRequired(id: number, required: boolean): Promise<User | undefined> {
+    const [updatedUser] = await db.update(users)
+      .set({ passwordResetRequired: required })
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
   // Store operations
   async getStore(id: number): Promise<Store | undefined> {
     const [store] = await db.select().from(stores).where(eq(stores.id, id));
@@ -142,6 +774,16 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(stores);
   }
 
+  async getVisibleStores(): Promise<Store[]> {
+    return await db.select().from(stores).where(visibleStore);
+  }
+
+  async getStoresByStatus(status?: string): Promise<Store[]> {
+    return await db.select().from(stores)
+      .where(status ? eq(stores.status, status) : undefined)
+      .orderBy(desc(stores.createdAt));
+  }
+
   async createStore(store: InsertStore): Promise<Store> {
     const [newStore] = await db.insert(stores).values(store).returning();
     return newStore;
@@ -149,12 +791,46 @@ export class DatabaseStorage implements IStorage {
 
   async updateStore(id: number, updates: Partial<InsertStore>): Promise<Store | undefined> {
     const [updatedStore] = await db.update(stores).set(updates).where(eq(stores.id, id)).returning();
+    if (updatedStore && updates.name !== undefined) {
+      await this.refreshProductSearch(eq(products.storeId, id));
+    }
+    return updatedStore;
+  }
+
+  async updateStoreStatus(id: number, status: StoreStatus, reason?: string): Promise<Store | undefined> {
+    const [updatedStore] = await db.update(stores)
+      .set({ status, statusReason: reason ?? null, reviewedAt: new Date() })
+      .where(eq(stores.id, id))
+      .returning();
     return updatedStore;
   }
 
+  async setStoreFeatured(id: number, featured: boolean): Promise<Store | undefined> {
+    const [updatedStore] = await db.update(stores).set({ featured }).where(eq(stores.id, id)).returning();
+    return updatedStore;
+  }
+
+  // Store document operations
+  async getStoreDocuments(storeId: number): Promise<StoreDocument[]> {
+    return await db.select().from(storeDocuments)
+      .where(eq(storeDocuments.storeId, storeId))
+      .orderBy(desc(storeDocuments.createdAt));
+  }
+
+  async createStoreDocument(document: InsertStoreDocument): Promise<StoreDocument> {
+    const [newDocument] = await db.insert(storeDocuments).values(document).returning();
+    return newDocument;
+  }
+
+  async verifyPendingStoreDocuments(storeId: number): Promise<void> {
+    await db.update(storeDocuments)
+      .set({ status: "verified" })
+      .where(and(eq(storeDocuments.storeId, storeId), eq(storeDocuments.status, "pending")));
+  }
+
   // Category operations
   async getAllCategories(): Promise<Category[]> {
-    return await db.select().from(categories);
+    return await db.select().from(categories).orderBy(asc(categories.position), asc(categories.name));
   }
 
   async getCategory(id: number): Promise<Category | undefined> {
@@ -173,14 +849,79 @@ export class DatabaseStorage implements IStorage {
       .set(updates)
       .where(eq(categories.id, id))
       .returning();
+    if (updatedCategory && updates.name !== undefined) {
+      await this.refreshProductSearch(eq(products.categoryId, id));
+    }
     return updatedCategory;
   }
 
   async deleteCategory(id: number): Promise<boolean> {
+    await db.delete(categoryAttributes).where(eq(categoryAttributes.categoryId, id));
     const result = await db.delete(categories).where(eq(categories.id, id));
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getCategoryUsage(id: number): Promise<{ subcategories: number; products: number }> {
+    const [{ subcategories }] = await db.select({ subcategories: count() }).from(categories).where(eq(categories.parentId, id));
+    const [{ productCount }] = await db.select({ productCount: count() }).from(products).where(eq(products.categoryId, id));
+    return { subcategories, products: productCount };
+  }
+
+  async reorderCategories(input: ReorderCategoriesInput): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const category of input.categories) {
+        await tx.update(categories)
+          .set({ parentId: category.parentId, position: category.position })
+          .where(eq(categories.id, category.id));
+      }
+    });
+  }
+
+  // Category attribute operations
+  async getCategoryAttributes(categoryId: number): Promise<CategoryAttribute[]> {
+    const path = categoryPath(await this.getAllCategories(), categoryId);
+    if (path.length === 0) {
+      return [];
+    }
+    const attributes = await db.select().from(categoryAttributes)
+      .where(inArray(categoryAttributes.categoryId, path.map((category) => category.id)))
+      .orderBy(asc(categoryAttributes.position));
+
+    // Ancestors' attributes first; a subcategory can redefine an inherited key
+    const byKey = new Map<string, CategoryAttribute>();
+    for (const category of path) {
+      attributes
+        .filter((attribute) => attribute.categoryId === category.id)
+        .forEach((attribute) => byKey.set(attribute.key, attribute));
+    }
+    return Array.from(byKey.values());
+  }
+
+  async getOwnCategoryAttributes(categoryId: number): Promise<CategoryAttribute[]> {
+    return await db.select().from(categoryAttributes)
+      .where(eq(categoryAttributes.categoryId, categoryId))
+      .orderBy(asc(categoryAttributes.position));
+  }
+
+  async setCategoryAttributes(categoryId: number, input: CategoryAttributesInput): Promise<CategoryAttribute[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(categoryAttributes).where(eq(categoryAttributes.categoryId, categoryId));
+      if (input.attributes.length === 0) {
+        return [];
+      }
+      return await tx.insert(categoryAttributes).values(input.attributes.map((attribute, position) => ({
+        categoryId,
+        key: attribute.key,
+        label: attribute.label,
+        type: attribute.type,
+        unit: attribute.unit ?? null,
+        options: attribute.type === "select" ? attribute.options : [],
+        required: attribute.required,
+        position,
+      }))).returning();
+    });
+  }
+
   // Product operations
   async getProduct(id: number): Promise<Product | undefined> {
     const [product] = await db.select().from(products).where(eq(products.id, id));
@@ -188,39 +929,440 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getProductsByStoreId(storeId: number): Promise<Product[]> {
-    return await db.select().from(products).where(eq(products.storeId, storeId));
+    return await db.select().from(products).where(and(eq(products.storeId, storeId), activeProduct));
   }
 
-  async getAllProducts(): Promise<Product[]> {
-    return await db.select().from(products);
+  async listProducts(filters: ProductListFilters): Promise<ProductListPage> {
+    const conditions = productListConditions(filters);
+    const where = and(...conditions);
+    const order = productSortOrder(filters);
+    const orderBy = order.direction === "asc"
+      ? [asc(order.column), asc(products.id)]
+      : [desc(order.column), desc(products.id)];
+
+    // Keyset paging: rows strictly after the last one of the previous page
+    const pageConditions = filters.after
+      ? [...conditions, sql`(${order.column}, ${products.id}) ${sql.raw(order.direction === "asc" ? ">" : "<")} (${filters.after.value}::${sql.raw(order.cast)}, ${filters.after.id})`]
+      : conditions;
+
+    // One extra row tells us whether there is a next page
+    const snippet = filters.search
+      ? sql<string | null>`ts_headline('simple', coalesce(${products.description}, ${products.name}), ${searchTsQuery(filters.search)}, 'StartSel=[[, StopSel=]], MaxWords=25, MinWords=10')`
+      : sql<string | null>`null`;
+    const rows = await db.select({
+      ...getTableColumns(products),
+      snippet,
+      sortValue: sql<string>`(${order.column})::text`,
+    })
+      .from(products)
+      .leftJoin(productSearch, eq(productSearch.productId, products.id))
+      .where(and(...pageConditions))
+      .orderBy(...orderBy)
+      .limit(filters.limit + 1)
+      .offset(filters.after ? 0 : (filters.page - 1) * filters.limit);
+
+    const hasMore = rows.length > filters.limit;
+    const pageRows = rows.slice(0, filters.limit);
+    const last = pageRows[pageRows.length - 1];
+
+    const [[{ total }], categoryCounts, [priceRange], [availability]] = await Promise.all([
+      db.select({ total: count() }).from(products).where(where),
+      db.select({ categoryId: products.categoryId, count: count() })
+        .from(products)
+        .where(and(...productListConditions(filters, "categoryIds")))
+        .groupBy(products.categoryId),
+      db.select({
+        min: sql<string | null>`min(${products.price})`,
+        max: sql<string | null>`max(${products.price})`,
+      }).from(products).where(and(...productListConditions(filters, "price"))),
+      db.select({
+        inStock: sql<number>`count(*) filter (where ${products.stock} > 0)`.mapWith(Number),
+        onOffer: sql<number>`count(*) filter (where ${products.isOnOffer})`.mapWith(Number),
+      }).from(products).where(and(...productListConditions(filters, "availability"))),
+    ]);
+
+    return {
+      products: pageRows.map(({ sortValue, ...product }) => product),
+      total,
+      nextCursor: hasMore && last ? encodeProductCursor({ value: last.sortValue, id: last.id }) : null,
+      facets: {
+        categories: categoryCounts
+          .filter((row): row is { categoryId: number; count: number } => row.categoryId !== null)
+          .sort((a, b) => b.count - a.count),
+        price: { min: Number(priceRange?.min ?? 0), max: Number(priceRange?.max ?? 0) },
+        inStock: availability?.inStock ?? 0,
+        onOffer: availability?.onOffer ?? 0,
+      },
+    };
   }
 
-  async getProductsByCategory(categoryId: number): Promise<Product[]> {
-    return await db.select().from(products).where(eq(products.categoryId, categoryId));
+  async getSearchSuggestions(query: string, limit: number): Promise<SearchSuggestions> {
+    const tsQuery = prefixTsQuery(query);
+    const productMatches = await db.select({
+      id: products.id,
+      name: products.name,
+      image: sql<string | null>`${products.images}[1]`,
+      price: products.price,
+    })
+      .from(products)
+      .innerJoin(productSearch, eq(productSearch.productId, products.id))
+      .where(and(searchMatch(query, tsQuery), inArray(products.storeId, visibleStoreIds), activeProduct))
+      .orderBy(desc(searchRank(query, tsQuery)))
+      .limit(limit);
+
+    const categoryMatches = await db.select({ id: categories.id, name: categories.name })
+      .from(categories)
+      .where(or(
+        ilike(categories.name, `%${query}%`),
+        sql`word_similarity(${query}, ${categories.name}) >= ${TYPO_SIMILARITY}`
+      ))
+      .orderBy(desc(sql`word_similarity(${query}, ${categories.name})`))
+      .limit(3);
+
+    return { products: productMatches, categories: categoryMatches };
   }
 
-  async searchProducts(query: string): Promise<Product[]> {
-    return await db.select().from(products).where(
-      or(
-        ilike(products.name, `%${query}%`),
-        ilike(products.description, `%${query}%`)
-      )
-    );
+  // Rebuilds the search documents of the matching products from their
+  // current name, description, category and store
+  private async refreshProductSearch(where: SQL) {
+    await db.insert(productSearch).select(
+      db.select({
+        productId: products.id,
+        document: sql<string>`setweight(to_tsvector('simple', ${products.name}), 'A')
+          || setweight(to_tsvector('simple', coalesce(${categories.name}, '')), 'B')
+          || setweight(to_tsvector('simple', ${stores.name}), 'C')
+          || setweight(to_tsvector('simple', coalesce(${products.description}, '')), 'D')`.as("document"),
+        content: sql<string>`concat_ws(' ', ${products.name}, ${categories.name}, ${stores.name})`.as("content"),
+        updatedAt: sql<Date>`now()`.as("updated_at"),
+      })
+        .from(products)
+        .innerJoin(stores, eq(stores.id, products.storeId))
+        .leftJoin(categories, eq(categories.id, products.categoryId))
+        .where(and(where, activeProduct))
+    ).onConflictDoUpdate({
+      target: productSearch.productId,
+      set: {
+        document: sql`excluded.document`,
+        content: sql`excluded.content`,
+        updatedAt: sql`excluded.updated_at`,
+      },
+    });
   }
 
-  async createProduct(product: InsertProduct): Promise<Product> {
-    const [newProduct] = await db.insert(products).values(product).returning();
+  async createProduct(product: InsertProduct, sku?: string): Promise<Product> {
+    const newProduct = await db.transaction((tx) => insertProduct(tx, product, sku));
+    await this.refreshProductSearch(eq(products.id, newProduct.id));
     return newProduct;
   }
 
   async updateProduct(id: number, updates: Partial<InsertProduct>): Promise<Product | undefined> {
     const [updatedProduct] = await db.update(products).set(updates).where(eq(products.id, id)).returning();
+    if (!updatedProduct) {
+      return undefined;
+    }
+
+    await this.refreshProductSearch(eq(products.id, id));
+
+    // Without options the product form edits the single variant directly;
+    // otherwise price and stock are derived from the variants
+    const options = await this.getProductOptions(id);
+    if (options.length > 0) {
+      return await this.syncProductSummary(id);
+    }
+    await db.transaction(async (tx) => {
+      const variants = await tx.select().from(productVariants)
+        .where(and(eq(productVariants.productId, id), eq(productVariants.isActive, true)))
+        .for("update");
+      for (const variant of variants) {
+        await tx.update(productVariants).set({
+          price: updatedProduct.price,
+          originalPrice: updatedProduct.originalPrice,
+          stock: updatedProduct.stock ?? 0,
+        }).where(eq(productVariants.id, variant.id));
+        await recordStockEdit(tx, variant, variant.stock, updatedProduct.stock ?? 0);
+      }
+    });
     return updatedProduct;
   }
 
+  // Products with order or stock history are retired rather than deleted, so
+  // past orders and the inventory ledger keep pointing at them. A retired
+  // product is hidden and shows no stock
   async deleteProduct(id: number): Promise<boolean> {
-    const result = await db.delete(products).where(eq(products.id, id));
-    return (result.rowCount || 0) > 0;
+    return await db.transaction(async (tx) => {
+      const [product] = await tx.select({ id: products.id }).from(products).where(and(eq(products.id, id), activeProduct)).for("update");
+      if (!product) {
+        return false;
+      }
+
+      await tx.delete(cartItems).where(eq(cartItems.productId, id));
+      await tx.delete(wishlistItems).where(eq(wishlistItems.productId, id));
+      await tx.delete(productSearch).where(eq(productSearch.productId, id));
+
+      const [ordered] = await tx.select({ id: orderItems.id }).from(orderItems).where(eq(orderItems.productId, id)).limit(1);
+      const [moved] = await tx.select({ id: inventoryMovements.id }).from(inventoryMovements).where(eq(inventoryMovements.productId, id)).limit(1);
+      if (ordered || moved) {
+        await tx.update(productVariants).set({ isActive: false }).where(eq(productVariants.productId, id));
+        await tx.update(products).set({ isActive: false, stock: 0 }).where(eq(products.id, id));
+        return true;
+      }
+
+      await tx.update(notifications).set({ productId: null }).where(eq(notifications.productId, id));
+      await tx.delete(productOptions).where(eq(productOptions.productId, id));
+      await tx.delete(productVariants).where(eq(productVariants.productId, id));
+      await tx.delete(products).where(eq(products.id, id));
+      return true;
+    });
+  }
+
+  // The given image URLs that no product, variant, store, category or store
+  // document still uses
+  async getUnusedImages(urls: string[]): Promise<string[]> {
+    if (urls.length === 0) {
+      return [];
+    }
+    const [productRows, variantRows, storeRows, categoryRows, documentRows] = await Promise.all([
+      db.select({ images: products.images }).from(products).where(arrayOverlaps(products.images, urls)),
+      db.select({ images: productVariants.images }).from(productVariants).where(arrayOverlaps(productVariants.images, urls)),
+      db.select({ logo: stores.logo, coverImage: stores.coverImage }).from(stores)
+        .where(or(inArray(stores.logo, urls), inArray(stores.coverImage, urls))),
+      db.select({ image: categories.image }).from(categories).where(inArray(categories.image, urls)),
+      db.select({ documentUrl: storeDocuments.documentUrl }).from(storeDocuments).where(inArray(storeDocuments.documentUrl, urls)),
+    ]);
+    const used = new Set<string | null>([
+      ...productRows.flatMap((row) => row.images ?? []),
+      ...variantRows.flatMap((row) => row.images ?? []),
+      ...storeRows.flatMap((row) => [row.logo, row.coverImage]),
+      ...categoryRows.map((row) => row.image),
+      ...documentRows.map((row) => row.documentUrl),
+    ]);
+    return urls.filter((url) => !used.has(url));
+  }
+
+  // Product variant operations
+  async getProductOptions(productId: number): Promise<ProductOption[]> {
+    return await db.select().from(productOptions)
+      .where(eq(productOptions.productId, productId))
+      .orderBy(asc(productOptions.position));
+  }
+
+  async getProductVariants(productId: number): Promise<ProductVariant[]> {
+    return await db.select().from(productVariants)
+      .where(and(eq(productVariants.productId, productId), eq(productVariants.isActive, true)))
+      .orderBy(asc(productVariants.position), asc(productVariants.id));
+  }
+
+  async getProductVariant(id: number): Promise<ProductVariant | undefined> {
+    const [variant] = await db.select().from(productVariants).where(eq(productVariants.id, id));
+    return variant;
+  }
+
+  async getDefaultVariant(productId: number): Promise<ProductVariant | undefined> {
+    const [variant] = await this.getProductVariants(productId);
+    return variant;
+  }
+
+  async saveProductVariants(productId: number, input: ProductVariantsInput): Promise<{ options: ProductOption[]; variants: ProductVariant[] }> {
+    await db.transaction(async (tx) => {
+      await tx.delete(productOptions).where(eq(productOptions.productId, productId));
+      if (input.options.length > 0) {
+        await tx.insert(productOptions).values(
+          input.options.map((option, position) => ({ productId, name: option.name, values: option.values, position }))
+        );
+      }
+
+      const existing = await tx.select().from(productVariants).where(eq(productVariants.productId, productId)).for("update");
+      const keptIds: number[] = [];
+      for (const [position, { id, ...variant }] of Array.from(input.variants.entries())) {
+        // Match on id, or on SKU so a removed variant can be brought back
+        const match = existing.find((row) => row.id === id) ?? existing.find((row) => row.sku === variant.sku);
+        if (match) {
+          await tx.update(productVariants)
+            .set({ ...variant, position, isActive: true })
+            .where(eq(productVariants.id, match.id));
+          await recordStockEdit(tx, match, match.stock, variant.stock);
+          keptIds.push(match.id);
+        } else {
+          const [created] = await tx.insert(productVariants)
+            .values({ ...variant, productId, position })
+            .returning();
+          await recordStockEdit(tx, created, null, created.stock);
+          keptIds.push(created.id);
+        }
+      }
+
+      // Order items keep pointing at removed variants, so they are retired
+      // rather than deleted; cart lines for them are dropped
+      await tx.update(productVariants)
+        .set({ isActive: false })
+        .where(and(eq(productVariants.productId, productId), notInArray(productVariants.id, keptIds)));
+      await tx.delete(cartItems)
+        .where(and(eq(cartItems.productId, productId), notInArray(cartItems.variantId, keptIds)));
+    });
+
+    await this.syncProductSummary(productId);
+    return {
+      options: await this.getProductOptions(productId),
+      variants: await this.getProductVariants(productId),
+    };
+  }
+
+  async updateProductVariant(id: number, updates: Partial<Pick<InsertProductVariant, "price" | "originalPrice" | "stock">>): Promise<ProductVariant | undefined> {
+    const variant = await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(productVariants).where(eq(productVariants.id, id)).for("update");
+      if (!previous) {
+        return undefined;
+      }
+      const [updated] = await tx.update(productVariants).set(updates).where(eq(productVariants.id, id)).returning();
+      await recordStockEdit(tx, updated, previous.stock, updated.stock);
+      return updated;
+    });
+    if (variant) {
+      await this.syncProductSummary(variant.productId);
+    }
+    return variant;
+  }
+
+  // Writes every row or, when any write fails, none of them. Listing
+  // summaries and search documents are refreshed once the import is in
+  async importCatalog(changes: CatalogImportChange[]): Promise<void> {
+    const productIds = await db.transaction(async (tx) => {
+      const touched: number[] = [];
+      for (const change of changes) {
+        if (change.type === "create") {
+          touched.push((await insertProduct(tx, change.product, change.sku)).id);
+          continue;
+        }
+        if (Object.keys(change.product).length > 0) {
+          await tx.update(products).set(change.product).where(eq(products.id, change.productId));
+        }
+        const [previous] = await tx.select().from(productVariants).where(eq(productVariants.id, change.variantId)).for("update");
+        const [updated] = await tx.update(productVariants).set(change.variant).where(eq(productVariants.id, change.variantId)).returning();
+        await recordStockEdit(tx, updated, previous.stock, updated.stock);
+        touched.push(change.productId);
+      }
+      return Array.from(new Set(touched));
+    });
+
+    for (const productId of productIds) {
+      await this.syncProductSummary(productId);
+    }
+    if (productIds.length > 0) {
+      await this.refreshProductSearch(inArray(products.id, productIds));
+    }
+  }
+
+  // Includes discontinued variants, whose SKUs stay reserved
+  async getVariantsBySkus(skus: string[]): Promise<(ProductVariant & { storeId: number })[]> {
+    if (skus.length === 0) {
+      return [];
+    }
+    return await db.select({ ...getTableColumns(productVariants), storeId: products.storeId })
+      .from(productVariants)
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .where(inArray(productVariants.sku, skus));
+  }
+
+  async getStoreVariants(storeId: number): Promise<ProductVariant[]> {
+    return await db.select(getTableColumns(productVariants))
+      .from(productVariants)
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .where(and(eq(products.storeId, storeId), eq(productVariants.isActive, true)))
+      .orderBy(asc(productVariants.productId), asc(productVariants.position), asc(productVariants.id));
+  }
+
+  // Offer operations
+  // Starts and ends offers whose window opened or closed; returns the changed products
+  async syncOfferStatuses(productIds?: number[]): Promise<number[]> {
+    const changed = await db.update(products)
+      .set({ isOnOffer: offerActive })
+      .where(and(
+        sql`${products.isOnOffer} is distinct from ${offerActive}`,
+        productIds ? inArray(products.id, productIds) : undefined,
+      ))
+      .returning({ id: products.id });
+    return changed.map((row) => row.id);
+  }
+
+  async releaseFlashSaleUnits(productId: number, quantity: number): Promise<void> {
+    await db.update(products)
+      .set({ flashSaleSold: sql`greatest(${products.flashSaleSold} - ${quantity}, 0)` })
+      .where(eq(products.id, productId));
+  }
+
+  // Units of a product a customer has ordered (cancelled orders excluded)
+  async getOrderedQuantity(customerId: number, productId: number, since: Date | null): Promise<number> {
+    const [row] = await db.select({ quantity: sql<number>`coalesce(sum(${orderItems.quantity}), 0)`.mapWith(Number) })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(storeOrders, eq(orderItems.storeOrderId, storeOrders.id))
+      .where(and(
+        eq(orders.customerId, customerId),
+        eq(orderItems.productId, productId),
+        ne(storeOrders.status, "cancelled"),
+        since ? gte(orders.createdAt, since) : undefined,
+      ));
+    return row?.quantity ?? 0;
+  }
+
+  // Inventory operations
+  async getStoreInventory(storeId: number): Promise<InventoryItem[]> {
+    return await db.select({
+      ...getTableColumns(productVariants),
+      productName: products.name,
+      lowStockThreshold: products.lowStockThreshold,
+    })
+      .from(productVariants)
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .where(and(eq(products.storeId, storeId), eq(productVariants.isActive, true)))
+      .orderBy(asc(products.name), asc(productVariants.position), asc(productVariants.id));
+  }
+
+  // Newest first
+  async getInventoryMovements(storeId: number, productId?: number, limit = 100): Promise<InventoryMovementEntry[]> {
+    return await db.select({
+      ...getTableColumns(inventoryMovements),
+      productName: products.name,
+      sku: productVariants.sku,
+    })
+      .from(inventoryMovements)
+      .innerJoin(products, eq(inventoryMovements.productId, products.id))
+      .innerJoin(productVariants, eq(inventoryMovements.variantId, productVariants.id))
+      .where(and(
+        eq(products.storeId, storeId),
+        productId !== undefined ? eq(inventoryMovements.productId, productId) : undefined,
+      ))
+      .orderBy(desc(inventoryMovements.createdAt), desc(inventoryMovements.id))
+      .limit(limit);
+  }
+
+  // Undefined when the change would take the stock below zero
+  async adjustStock(adjustment: StockAdjustment, createdBy: number | null): Promise<InventoryMovement | undefined> {
+    const movement = await db.transaction((tx) => moveStock(tx, adjustment.variantId, adjustment.quantity, {
+      type: adjustment.type,
+      note: adjustment.note,
+      createdBy,
+    }));
+    if (movement) {
+      await this.syncProductSummary(movement.productId);
+    }
+    return movement;
+  }
+
+  // Listings show the cheapest variant's price and the combined stock
+  private async syncProductSummary(productId: number): Promise<Product | undefined> {
+    const variants = await this.getProductVariants(productId);
+    if (variants.length === 0) {
+      return await this.getProduct(productId);
+    }
+
+    const cheapest = variants.reduce((min, variant) => Number(variant.price) < Number(min.price) ? variant : min);
+    const [updatedProduct] = await db.update(products).set({
+      price: cheapest.price,
+      originalPrice: cheapest.originalPrice,
+      stock: variants.reduce((sum, variant) => sum + variant.stock, 0),
+    }).where(eq(products.id, productId)).returning();
+    return updatedProduct;
   }
 
   // Order operations
@@ -233,32 +1375,192 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(orders).where(eq(orders.customerId, customerId)).orderBy(desc(orders.createdAt));
   }
 
-  async getOrdersByStoreId(storeId: number): Promise<Order[]> {
-    // Use a simple approach - get all orders and filter on the backend for now
-    const allOrders = await db.select().from(orders).orderBy(desc(orders.createdAt));
-
-    // Filter orders that have items from this store
-    const storeOrders = [];
-    for (const order of allOrders) {
-      const orderItemsForStore = await db.select().from(orderItems)
-        .where(and(eq(orderItems.orderId, order.id), eq(orderItems.storeId, storeId)));
+  // Writes the order, its store orders and items with a first tracking
+  // entry for each store, the stock it reserves, the flash sale units it
+  // claims and its notifications, and empties the customer's cart, all in
+  // one transaction. Throws OutOfStockError or FlashSaleSoldOutError,
+  // writing nothing, when stock or a flash sale ran out after the order
+  // was priced
+  async placeOrder(draft: OrderDraft): Promise<PlacedOrder> {
+    const draftItems = draft.storeOrders.flatMap((storeOrder) => storeOrder.items);
+    const placed = await db.transaction(async (tx) => {
+      const [newOrder] = await tx.insert(orders).values(draft.order).returning();
+      const newStoreOrders: StoreOrder[] = [];
+      const newItems: OrderItem[] = [];
+      for (const { items, ...storeOrder } of draft.storeOrders) {
+        const [newStoreOrder] = await tx.insert(storeOrders).values({ ...storeOrder, orderId: newOrder.id }).returning();
+        newStoreOrders.push(newStoreOrder);
+        newItems.push(...await tx.insert(orderItems)
+          .values(items.map((item) => ({ ...item, orderId: newOrder.id, storeOrderId: newStoreOrder.id })))
+          .returning());
+      }
+      await tx.insert(orderTracking).values(newStoreOrders.map((storeOrder) => ({
+        orderId: newOrder.id,
+        storeOrderId: storeOrder.id,
+        status: storeOrder.status,
+        description: "Order placed successfully",
+      })));
+
+      // Rows are locked in id order so concurrent orders cannot deadlock
+      for (const sale of [...draft.flashSales].sort((a, b) => a.productId - b.productId)) {
+        if (!(await claimFlashSale(tx, sale.productId, sale.quantity))) {
+          throw new FlashSaleSoldOutError(sale.productId);
+        }
+      }
+      const movements: InventoryMovement[] = [];
+      for (const item of [...draftItems].sort((a, b) => a.variantId - b.variantId)) {
+        const movement = await moveStock(tx, item.variantId, -item.quantity, { type: "sale", orderId: newOrder.id });
+        if (!movement) {
+          throw new OutOfStockError(item.productId, item.variantId);
+        }
+        movements.push(movement);
+      }
 
-      if (orderItemsForStore.length > 0) {
-        storeOrders.push(order);
+      const orderNotifications = draft.notifications(newOrder);
+      if (orderNotifications.length > 0) {
+        await tx.insert(notifications).values(orderNotifications);
       }
+      await tx.delete(cartItems).where(eq(cartItems.userId, newOrder.customerId));
+      return { order: newOrder, storeOrders: newStoreOrders, items: newItems, movements };
+    });
+
+    for (const productId of Array.from(new Set(draftItems.map((item) => item.productId)))) {
+      await this.syncProductSummary(productId);
+    }
+    // Flash sales that just sold out end now rather than at the next scheduler run
+    if (draft.flashSales.length > 0) {
+      await this.syncOfferStatuses(draft.flashSales.map((sale) => sale.productId));
     }
+    return placed;
+  }
+
+  // Store order operations
+  async getStoreOrder(id: number): Promise<StoreOrder | undefined> {
+    const [storeOrder] = await db.select().from(storeOrders).where(eq(storeOrders.id, id));
+    return storeOrder;
+  }
 
-    return storeOrders;
+  async getStoreOrders(orderId: number): Promise<StoreOrder[]> {
+    return await db.select().from(storeOrders).where(eq(storeOrders.orderId, orderId)).orderBy(asc(storeOrders.id));
   }
 
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db.insert(orders).values(order).returning();
-    return newOrder;
+  async getStoreOrdersByStore(storeId: number): Promise<StoreOrderEntry[]> {
+    return await db.select({
+      ...getTableColumns(storeOrders),
+      customerId: orders.customerId,
+      customerName: orders.customerName,
+      phone: orders.phone,
+      shippingAddress: orders.shippingAddress,
+      paymentMethod: orders.paymentMethod,
+      latitude: orders.latitude,
+      longitude: orders.longitude,
+    })
+      .from(storeOrders)
+      .innerJoin(orders, eq(storeOrders.orderId, orders.id))
+      .where(eq(storeOrders.storeId, storeId))
+      .orderBy(desc(storeOrders.createdAt));
+  }
+
+  // Applies one status change; see transitionStoreOrder
+  async updateStoreOrderStatus(id: number, change: StatusChange): Promise<StoreOrder | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(storeOrders).where(eq(storeOrders.id, id)).for("update");
+      return current ? await transitionStoreOrder(tx, current, change) : undefined;
+    });
+    if (!updated) {
+      return undefined;
+    }
+
+    await this.restoreCancelledItems(updated.released, updated.order.createdAt);
+    return updated.storeOrder;
+  }
+
+  // Cancels every store order of the customer's order that is still going,
+  // all or nothing: throws OrderNotCancellableError when a store has moved
+  // past its cancellation window. Prepaid store orders get a refund, and
+  // each store owner is told
+  async cancelOrder(orderId: number, customerId: number, reason: string): Promise<CancelledOrder | undefined> {
+    const cancelled = await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders)
+        .where(and(eq(orders.id, orderId), eq(orders.customerId, customerId)))
+        .for("update");
+      if (!order) {
+        return undefined;
+      }
+      const current = await tx.select({ storeOrder: storeOrders, store: stores }).from(storeOrders)
+        .innerJoin(stores, eq(storeOrders.storeId, stores.id))
+        .where(and(eq(storeOrders.orderId, orderId), ne(storeOrders.status, "cancelled")))
+        .orderBy(asc(storeOrders.id))
+        .for("update", { of: storeOrders });
+      if (current.length === 0) {
+        throw new OrderNotCancellableError("This order has already been cancelled");
+      }
+      const late = current.find(({ storeOrder, store }) => !canCustomerCancel(storeOrder.status, store.cancellationWindow));
+      if (late) {
+        throw new OrderNotCancellableError(
+          `Your items from ${late.store.name} are already ${orderStatusLabel(late.storeOrder.status).toLowerCase()}, so this order can no longer be cancelled`
+        );
+      }
+
+      const cancelledStoreOrders: StoreOrder[] = [];
+      const released: OrderItem[] = [];
+      const newRefunds: Refund[] = [];
+      for (const { storeOrder } of current) {
+        const transitioned = await transitionStoreOrder(tx, storeOrder, {
+          status: "cancelled",
+          actor: "customer",
+          changedBy: customerId,
+          note: reason,
+        });
+        cancelledStoreOrders.push(transitioned.storeOrder);
+        released.push(...transitioned.released);
+        if (transitioned.refund) {
+          newRefunds.push(transitioned.refund);
+        }
+      }
+
+      const [updatedOrder] = await tx.update(orders)
+        .set({ cancellationReason: reason })
+        .where(eq(orders.id, orderId))
+        .returning();
+      await tx.insert(notifications).values(current.map(({ store }) => ({
+        userId: store.ownerId,
+        title: "Order Cancelled",
+        message: `Order #${orderId} was cancelled by the customer. Reason: ${reason}`,
+        type: "warning",
+        orderId,
+      })));
+      return { order: updatedOrder, storeOrders: cancelledStoreOrders, refunds: newRefunds, released };
+    });
+    if (!cancelled) {
+      return undefined;
+    }
+
+    await this.restoreCancelledItems(cancelled.released, cancelled.order.createdAt);
+    return { order: cancelled.order, storeOrders: cancelled.storeOrders, refunds: cancelled.refunds };
   }
 
-  async updateOrderStatus(id: number, status: string): Promise<Order | undefined> {
-    const [updatedOrder] = await db.update(orders).set({ status }).where(eq(orders.id, id)).returning();
-    return updatedOrder;
+  // Follows up on stock put back by a cancellation: product summaries, and
+  // flash sale units when the order was placed during the sale
+  private async restoreCancelledItems(items: OrderItem[], placedAt: Date) {
+    const flashSaleIds: number[] = [];
+    for (const productId of Array.from(new Set(items.map((item) => item.productId)))) {
+      const product = await this.syncProductSummary(productId);
+      const placedDuringSale = !!product && isFlashSale(product) &&
+        (!product.offerStartsAt || product.offerStartsAt <= placedAt) &&
+        (!product.offerEndsAt || placedAt < product.offerEndsAt);
+      if (placedDuringSale) {
+        const quantity = items
+          .filter((item) => item.productId === productId)
+          .reduce((sum, item) => sum + item.quantity, 0);
+        await this.releaseFlashSaleUnits(productId, quantity);
+        flashSaleIds.push(productId);
+      }
+    }
+    // A sold-out flash sale with units back is running again
+    if (flashSaleIds.length > 0) {
+      await this.syncOfferStatuses(flashSaleIds);
+    }
   }
 
   // Order item operations
@@ -266,12 +1568,57 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
   }
 
-  async createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem> {
-    const [newOrderItem] = await db.insert(orderItems).values(orderItem).returning();
-    return newOrderItem;
+  async getStoreOrderItems(storeOrderId: number): Promise<OrderItem[]> {
+    return await db.select().from(orderItems).where(eq(orderItems.storeOrderId, storeOrderId));
+  }
+
+  // Idempotency keys
+  // Claims the key for a new request, or returns the request already holding
+  // it. The user's expired keys, and keys of requests that never finished,
+  // are given up first. Undefined when the key kept changing hands
+  async claimIdempotencyKey(entry: InsertIdempotencyKey, expiredBefore: Date, abandonedBefore: Date): Promise<{ key: IdempotencyKey; claimed: boolean } | undefined> {
+    await db.delete(idempotencyKeys).where(and(
+      eq(idempotencyKeys.userId, entry.userId),
+      or(
+        lte(idempotencyKeys.createdAt, expiredBefore),
+        and(isNull(idempotencyKeys.responseStatus), lte(idempotencyKeys.createdAt, abandonedBefore)),
+      ),
+    ));
+
+    // The holder may release its key between our insert and select; the
+    // key is then free to claim again
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const [claimed] = await db.insert(idempotencyKeys).values(entry).onConflictDoNothing().returning();
+      if (claimed) {
+        return { key: claimed, claimed: true };
+      }
+      const [existing] = await db.select().from(idempotencyKeys).where(and(
+        eq(idempotencyKeys.userId, entry.userId),
+        eq(idempotencyKeys.scope, entry.scope),
+        eq(idempotencyKeys.key, entry.key),
+      ));
+      if (existing) {
+        return { key: existing, claimed: false };
+      }
+    }
+    return undefined;
+  }
+
+  async completeIdempotencyKey(id: number, responseStatus: number, responseBody: unknown): Promise<void> {
+    await db.update(idempotencyKeys).set({ responseStatus, responseBody }).where(eq(idempotencyKeys.id, id));
+  }
+
+  // Frees the key of a failed request so it can be retried
+  async releaseIdempotencyKey(id: number): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
   }
 
   // Cart operations
+  async getCartItem(id: number): Promise<CartItem | undefined> {
+    const [item] = await db.select().from(cartItems).where(eq(cartItems.id, id));
+    return item;
+  }
+
   async getCartItems(userId: number): Promise<CartItem[]> {
     return await db.select().from(cartItems).where(eq(cartItems.userId, userId));
   }
@@ -279,7 +1626,7 @@ export class DatabaseStorage implements IStorage {
   async addToCart(cartItem: InsertCartItem): Promise<CartItem> {
     // Check if item already exists in cart
     const existingItem = await db.select().from(cartItems)
-      .where(and(eq(cartItems.userId, cartItem.userId), eq(cartItems.productId, cartItem.productId)));
+      .where(and(eq(cartItems.userId, cartItem.userId), eq(cartItems.variantId, cartItem.variantId)));
 
     if (existingItem.length > 0) {
       // Update quantity
@@ -311,6 +1658,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Wishlist operations
+  async getWishlistItem(id: number): Promise<WishlistItem | undefined> {
+    const [item] = await db.select().from(wishlistItems).where(eq(wishlistItems.id, id));
+    return item;
+  }
+
   async getWishlistItems(userId: number): Promise<WishlistItem[]> {
     return await db.select().from(wishlistItems).where(eq(wishlistItems.userId, userId));
   }
@@ -351,11 +1703,177 @@ export class DatabaseStorage implements IStorage {
     return admin;
   }
 
+  async getAllAdmins(): Promise<Admin[]> {
+    return await db.select().from(admins).orderBy(admins.createdAt);
+  }
+
   async createAdmin(admin: InsertAdmin): Promise<Admin> {
     const [newAdmin] = await db.insert(admins).values(admin).returning();
     return newAdmin;
   }
 
+  async updateAdmin(id: number, updates: Partial<InsertAdmin>): Promise<Admin | undefined> {
+    const [updatedAdmin] = await db.update(admins).set(updates).where(eq(admins.id, id)).returning();
+    return updatedAdmin;
+  }
+
+  async recordFailedAdminLogin(id: number): Promise<Admin | undefined> {
+    const [updatedAdmin] = await db.update(admins)
+      .set({ failedLoginAttempts: sql`${admins.failedLoginAttempts} + 1` })
+      .where(eq(admins.id, id))
+      .returning();
+    return updatedAdmin;
+  }
+
+  async lockAdmin(id: number, until: Date): Promise<void> {
+    await db.update(admins).set({ lockedUntil: until }).where(eq(admins.id, id));
+  }
+
+  async resetAdminLoginFailures(id: number): Promise<void> {
+    await db.update(admins)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(admins.id, id));
+  }
+
+  // Admin sessions
+  async createAdminSession(session: InsertAdminSession): Promise<AdminSession> {
+    const [newSession] = await db.insert(adminSessions).values(session).returning();
+    return newSession;
+  }
+
+  async getActiveAdminSession(tokenHash: string): Promise<AdminSession | undefined> {
+    const [session] = await db.select().from(adminSessions)
+      .where(and(
+        eq(adminSessions.tokenHash, tokenHash),
+        isNull(adminSessions.revokedAt),
+        gt(adminSessions.expiresAt, new Date())
+      ));
+    return session;
+  }
+
+  async revokeAdminSession(tokenHash: string): Promise<boolean> {
+    const result = await db.update(adminSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(adminSessions.tokenHash, tokenHash), isNull(adminSessions.revokedAt)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // User sessions
+  async createUserSession(session: InsertUserSession): Promise<UserSession> {
+    const [newSession] = await db.insert(userSessions).values(session).returning();
+    return newSession;
+  }
+
+  async getActiveUserSession(id: number): Promise<UserSession | undefined> {
+    const [session] = await db.select().from(userSessions)
+      .where(and(
+        eq(userSessions.id, id),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, new Date())
+      ));
+    return session;
+  }
+
+  async getActiveUserSessions(userId: number): Promise<UserSession[]> {
+    return await db.select().from(userSessions)
+      .where(and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(userSessions.lastSeenAt));
+  }
+
+  async touchUserSession(id: number, ipAddress?: string): Promise<void> {
+    await db.update(userSessions)
+      .set({ lastSeenAt: new Date(), ...(ipAddress ? { ipAddress } : {}) })
+      .where(eq(userSessions.id, id));
+  }
+
+  async revokeUserSession(id: number): Promise<boolean> {
+    const result = await db.update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(userSessions.id, id), isNull(userSessions.revokedAt)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async revokeUserSessions(userId: number, exceptSessionId?: number): Promise<number> {
+    const conditions = [eq(userSessions.userId, userId), isNull(userSessions.revokedAt)];
+    if (exceptSessionId !== undefined) {
+      conditions.push(ne(userSessions.id, exceptSessionId));
+    }
+    const result = await db.update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(...conditions));
+    return result.rowCount || 0;
+  }
+
+  // One-time verification codes
+  async createVerificationCode(code: InsertVerificationCode): Promise<VerificationCode> {
+    const [newCode] = await db.insert(verificationCodes).values(code).returning();
+    return newCode;
+  }
+
+  async countVerificationCodesSince(identifier: string, purpose: string, since: Date): Promise<number> {
+    const [{ total }] = await db.select({ total: count() }).from(verificationCodes)
+      .where(and(
+        eq(verificationCodes.identifier, identifier),
+        eq(verificationCodes.purpose, purpose),
+        gte(verificationCodes.createdAt, since)
+      ));
+    return total;
+  }
+
+  async getLatestVerificationCode(identifier: string, purpose: string): Promise<VerificationCode | undefined> {
+    const [code] = await db.select().from(verificationCodes)
+      .where(and(eq(verificationCodes.identifier, identifier), eq(verificationCodes.purpose, purpose)))
+      .orderBy(desc(verificationCodes.createdAt))
+      .limit(1);
+    return code;
+  }
+
+  async getActiveVerificationCode(identifier: string, purpose: string): Promise<VerificationCode | undefined> {
+    const [code] = await db.select().from(verificationCodes)
+      .where(and(
+        eq(verificationCodes.identifier, identifier),
+        eq(verificationCodes.purpose, purpose),
+        isNull(verificationCodes.consumedAt),
+        gt(verificationCodes.expiresAt, new Date())
+      ))
+      .orderBy(desc(verificationCodes.createdAt))
+      .limit(1);
+    return code;
+  }
+
+  async incrementVerificationAttempts(id: number): Promise<void> {
+    await db.update(verificationCodes)
+      .set({ attempts: sql`${verificationCodes.attempts} + 1` })
+      .where(eq(verificationCodes.id, id));
+  }
+
+  async consumeVerificationCode(id: number): Promise<boolean> {
+    const result = await db.update(verificationCodes)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(verificationCodes.id, id), isNull(verificationCodes.consumedAt)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async setEmailVerified(userId: number, verified: boolean): Promise<User | undefined> {
+    const [updatedUser] = await db.update(users)
+      .set({ emailVerified: verified })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  async setPhoneVerified(userId: number, verified: boolean): Promise<User | undefined> {
+    const [updatedUser] = await db.update(users)
+      .set({ phoneVerified: verified })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
   // Website visit tracking
   async recordVisit(visit: InsertWebsiteVisit): Promise<WebsiteVisit> {
     const [newVisit] = await db.insert(websiteVisits).values(visit).returning();
@@ -412,6 +1930,11 @@ export class DatabaseStorage implements IStorage {
     return newNotification;
   }
 
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
   async getUserNotifications(userId: number): Promise<Notification[]> {
     return await db.select().from(notifications)
       .where(eq(notifications.userId, userId))
@@ -440,17 +1963,6 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(orderTracking.updatedAt));
   }
 
-  async updateOrderTracking(orderId: number, status: string, description?: string, location?: string): Promise<OrderTracking> {
-    const trackingData: InsertOrderTracking = {
-      orderId,
-      status,
-      description,
-      location
-    };
-    const [newTracking] = await db.insert(orderTracking).values(trackingData).returning();
-    return newTracking;
-  }
-
   // Return policy
   async createReturnPolicy(policy: InsertReturnPolicy): Promise<ReturnPolicy> {
     const [newPolicy] = await db.insert(returnPolicies).values(policy).returning();
@@ -468,9 +1980,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Returns
+  // An item can only have one open or completed return; a rejected return
+  // can be followed by a new request
   async createReturn(returnItem: InsertReturn): Promise<Return> {
-    const [newReturn] = await db.insert(returns).values(returnItem).returning();
-    return newReturn;
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: orderItems.id }).from(orderItems).where(eq(orderItems.id, returnItem.orderItemId)).for("update");
+      const [existing] = await tx.select({ id: returns.id }).from(returns)
+        .where(and(eq(returns.orderItemId, returnItem.orderItemId), ne(returns.status, "rejected")))
+        .limit(1);
+      if (existing) {
+        throw new ReturnAlreadyRequestedError("A return has already been requested for this item");
+      }
+      const [newReturn] = await tx.insert(returns).values(returnItem).returning();
+      return newReturn;
+    });
   }
 
   async getReturn(id: number): Promise<Return | undefined> {
@@ -491,9 +2014,249 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(returns.createdAt));
   }
 
-  async updateReturnStatus(id: number, status: string): Promise<Return | undefined> {
-    const [updatedReturn] = await db.update(returns).set({ status }).where(eq(returns.id, id)).returning();
-    return updatedReturn;
+  // Completing a return puts the returned item back in stock, once:
+  // restockedAt keeps a reopened return from restocking twice. The store
+  // order is marked returned when its last item comes back
+  async updateReturnStatus(id: number, status: ReturnStatus): Promise<Return | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(returns).where(eq(returns.id, id)).for("update");
+      if (!current) {
+        return undefined;
+      }
+      const restock = status === "completed" && !current.restockedAt;
+      const [updatedReturn] = await tx.update(returns)
+        .set({ status, updatedAt: new Date(), ...(restock ? { restockedAt: new Date() } : {}) })
+        .where(eq(returns.id, id))
+        .returning();
+
+      let restocked: OrderItem | undefined;
+      if (restock) {
+        [restocked] = await tx.select().from(orderItems).where(eq(orderItems.id, current.orderItemId));
+        await moveStock(tx, restocked.variantId, restocked.quantity, { type: "return", orderId: restocked.orderId });
+
+        const [storeOrder] = await tx.select().from(storeOrders)
+          .where(eq(storeOrders.id, restocked.storeOrderId))
+          .for("update");
+        const [unreturned] = await tx.select({ id: orderItems.id }).from(orderItems)
+          .leftJoin(returns, and(eq(returns.orderItemId, orderItems.id), eq(returns.status, "completed")))
+          .where(and(eq(orderItems.storeOrderId, storeOrder.id), isNull(returns.id)))
+          .limit(1);
+        if (!unreturned && canTransition("system", storeOrder.status, "returned")) {
+          await transitionStoreOrder(tx, storeOrder, { status: "returned", actor: "system", changedBy: null });
+        }
+      }
+      return { returnItem: updatedReturn, restocked };
+    });
+
+    if (updated?.restocked) {
+      await this.syncProductSummary(updated.restocked.productId);
+    }
+    return updated?.returnItem;
+  }
+
+  // Refunds
+  // Oldest first, so finance works through them in order
+  async getRefunds(status?: string): Promise<Refund[]> {
+    return await db.select().from(refunds)
+      .where(status ? eq(refunds.status, status) : undefined)
+      .orderBy(asc(refunds.createdAt));
+  }
+
+  // Reviews
+  async getReview(id: number): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+
+  async getProductReviews(productId: number, sort: ReviewSort, viewerId?: number): Promise<ReviewWithAuthor[]> {
+    const orderBy = {
+      recent: [desc(reviews.createdAt)],
+      helpful: [desc(reviews.helpfulCount), desc(reviews.createdAt)],
+      highest: [desc(reviews.rating), desc(reviews.createdAt)],
+      lowest: [asc(reviews.rating), desc(reviews.createdAt)],
+    }[sort];
+
+    return await db.select({ ...getTableColumns(reviews), customerName: users.fullName })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.customerId, users.id))
+      .where(and(eq(reviews.productId, productId), visibleReviewTo(viewerId)))
+      .orderBy(...orderBy);
+  }
+
+  async getStoreReviews(storeId: number, viewerId?: number): Promise<ReviewWithAuthor[]> {
+    return await db.select({ ...getTableColumns(reviews), customerName: users.fullName })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.customerId, users.id))
+      .where(and(eq(reviews.storeId, storeId), visibleReviewTo(viewerId)))
+      .orderBy(desc(reviews.createdAt));
+  }
+
+  async getCustomerProductReview(customerId: number, productId: number): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews)
+      .where(and(eq(reviews.customerId, customerId), eq(reviews.productId, productId)));
+    return review;
+  }
+
+  // The customer's most recent delivered purchase of the product, if any
+  async getDeliveredOrderItem(customerId: number, productId: number): Promise<OrderItem | undefined> {
+    const [row] = await db.select({ item: orderItems }).from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(storeOrders, eq(orderItems.storeOrderId, storeOrders.id))
+      .where(and(
+        eq(orders.customerId, customerId),
+        eq(storeOrders.status, "delivered"),
+        eq(orderItems.productId, productId)
+      ))
+      .orderBy(desc(orders.createdAt))
+      .limit(1);
+    return row?.item;
+  }
+
+  async createReview(review: InsertReview): Promise<Review> {
+    const [newReview] = await db.insert(reviews).values(review).returning();
+    await this.recomputeReviewAggregates(newReview.productId, newReview.storeId);
+    return newReview;
+  }
+
+  async updateReview(id: number, updates: Partial<InsertReview>): Promise<Review | undefined> {
+    const [updatedReview] = await db.update(reviews)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(reviews.id, id))
+      .returning();
+    if (updatedReview) {
+      await this.recomputeReviewAggregates(updatedReview.productId, updatedReview.storeId);
+    }
+    return updatedReview;
+  }
+
+  async deleteReview(id: number): Promise<boolean> {
+    await db.delete(reviewVotes).where(eq(reviewVotes.reviewId, id));
+    await db.delete(reviewReports).where(eq(reviewReports.reviewId, id));
+    const [deletedReview] = await db.delete(reviews).where(eq(reviews.id, id)).returning();
+    if (!deletedReview) {
+      return false;
+    }
+    await this.recomputeReviewAggregates(deletedReview.productId, deletedReview.storeId);
+    return true;
+  }
+
+  async setSellerReply(id: number, reply: string | null): Promise<Review | undefined> {
+    const [updatedReview] = await db.update(reviews)
+      .set({ sellerReply: reply, sellerRepliedAt: reply ? new Date() : null })
+      .where(eq(reviews.id, id))
+      .returning();
+    return updatedReview;
+  }
+
+  async addReviewVote(reviewId: number, userId: number): Promise<Review | undefined> {
+    await db.insert(reviewVotes).values({ reviewId, userId }).onConflictDoNothing();
+    return await this.refreshHelpfulCount(reviewId);
+  }
+
+  async removeReviewVote(reviewId: number, userId: number): Promise<Review | undefined> {
+    await db.delete(reviewVotes)
+      .where(and(eq(reviewVotes.reviewId, reviewId), eq(reviewVotes.userId, userId)));
+    return await this.refreshHelpfulCount(reviewId);
+  }
+
+  private async refreshHelpfulCount(reviewId: number): Promise<Review | undefined> {
+    const [updatedReview] = await db.update(reviews)
+      .set({
+        helpfulCount: sql`(select count(*) from ${reviewVotes} where ${reviewVotes.reviewId} = ${reviewId})`,
+      })
+      .where(eq(reviews.id, reviewId))
+      .returning();
+    return updatedReview;
+  }
+
+  async getVotedReviewIds(userId: number, reviewIds: number[]): Promise<number[]> {
+    if (reviewIds.length === 0) {
+      return [];
+    }
+    const votes = await db.select({ reviewId: reviewVotes.reviewId }).from(reviewVotes)
+      .where(and(eq(reviewVotes.userId, userId), inArray(reviewVotes.reviewId, reviewIds)));
+    return votes.map((vote) => vote.reviewId);
+  }
+
+  // Keeps products.rating/totalReviews and stores.rating/totalReviews in step
+  // with the published reviews
+  async recomputeReviewAggregates(productId: number, storeId: number): Promise<void> {
+    const stats = (where: ReturnType<typeof eq>) => db
+      .select({ average: sql<string | null>`avg(${reviews.rating})`, total: count() })
+      .from(reviews)
+      .where(and(where, eq(reviews.status, "published")));
+
+    const [productStats] = await stats(eq(reviews.productId, productId));
+    await db.update(products).set({
+      rating: Number(productStats.average ?? 0).toFixed(2),
+      totalReviews: productStats.total,
+    }).where(eq(products.id, productId));
+
+    const [storeStats] = await stats(eq(reviews.storeId, storeId));
+    await db.update(stores).set({
+      rating: Number(storeStats.average ?? 0).toFixed(2),
+      totalReviews: storeStats.total,
+    }).where(eq(stores.id, storeId));
+  }
+
+  // Review moderation
+  async createReviewReport(reviewId: number, reporterId: number, reason: string, details?: string): Promise<ReviewReport | undefined> {
+    const [report] = await db.insert(reviewReports)
+      .values({ reviewId, reporterId, reason, details })
+      .onConflictDoNothing()
+      .returning();
+    return report;
+  }
+
+  async getModerationQueue(filter: ModerationQueueFilter): Promise<ModeratedReview[]> {
+    const openReportReviewIds = db.select({ id: reviewReports.reviewId }).from(reviewReports)
+      .where(eq(reviewReports.status, "open"));
+    const where = filter === "reported"
+      ? inArray(reviews.id, openReportReviewIds)
+      : eq(reviews.status, filter);
+
+    const queue = await db.select({
+      ...getTableColumns(reviews),
+      customerName: users.fullName,
+      productName: products.name,
+    })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.customerId, users.id))
+      .innerJoin(products, eq(reviews.productId, products.id))
+      .where(where)
+      .orderBy(desc(reviews.createdAt))
+      .limit(200);
+
+    const reports = queue.length === 0 ? [] : await db.select().from(reviewReports)
+      .where(and(
+        eq(reviewReports.status, "open"),
+        inArray(reviewReports.reviewId, queue.map((review) => review.id))
+      ))
+      .orderBy(desc(reviewReports.createdAt));
+
+    return queue.map((review) => ({
+      ...review,
+      openReports: reports
+        .filter((report) => report.reviewId === review.id)
+        .map(({ reason, details, createdAt }) => ({ reason, details, createdAt })),
+    }));
+  }
+
+  // A moderator decision settles every open report on the review
+  async setReviewStatus(id: number, status: ReviewStatus, reason: string | null): Promise<Review | undefined> {
+    const [updatedReview] = await db.update(reviews)
+      .set({ status, moderationReason: reason, moderatedAt: new Date() })
+      .where(eq(reviews.id, id))
+      .returning();
+    if (!updatedReview) {
+      return undefined;
+    }
+
+    await db.update(reviewReports)
+      .set({ status: "resolved" })
+      .where(and(eq(reviewReports.reviewId, id), eq(reviewReports.status, "open")));
+    await this.recomputeReviewAggregates(updatedReview.productId, updatedReview.storeId);
+    return updatedReview;
   }
 
   // Distance calculation between stores and user location
@@ -511,8 +2274,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getStoresWithDistance(userLat: number, userLon: number): Promise<(Store & { distance: number })[]> {
-    const allStores = await this.getAllStores();
-    return allStores.map(store => {
+    const visibleStores = await this.getVisibleStores();
+    return visibleStores.map(store => {
       const storeLat = parseFloat(store.latitude || "0");
       const storeLon = parseFloat(store.longitude || "0");
       const distance = this.calculateDistance(userLat, userLon, storeLat, storeLon);
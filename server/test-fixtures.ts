@@ -0,0 +1,100 @@
+import { before, after, mock } from "node:test";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { registerRoutes } from "./routes";
+import { storage, DatabaseStorage } from "./storage";
+
+// Shared by the route tests: a small fixed world of users, a store and one
+// product, storage answered by fakes instead of the database, and the app
+// listening on a free port
+
+export type UserActor = "customer" | "otherCustomer" | "storeOwner" | "otherStoreOwner";
+
+export const userIds: Record<UserActor, number> = {
+  storeOwner: 10,
+  customer: 20,
+  otherStoreOwner: 30,
+  otherCustomer: 40,
+};
+
+export const now = new Date();
+
+export const users = [
+  { id: 10, role: "store_owner", fullName: "Store Owner", email: "owner@example.com" },
+  { id: 20, role: "customer", fullName: "Customer", email: "customer@example.com" },
+  { id: 30, role: "store_owner", fullName: "Other Owner", email: "other-owner@example.com" },
+  { id: 40, role: "customer", fullName: "Other Customer", email: "other@example.com" },
+].map((user) => ({
+  ...user,
+  password: "$2a$10$abcdefghijklmnopqrstuv",
+  phone: null,
+  address: null,
+  status: "active",
+  statusReason: null,
+  passwordResetRequired: false,
+  emailVerified: false,
+  phoneVerified: false,
+  failedLoginAttempts: 0,
+  lockedUntil: null,
+  createdAt: now,
+}));
+
+export const store = {
+  id: 1, ownerId: 10, name: "Corner Store", description: null, address: "Main Road", phone: null,
+  latitude: null, longitude: null, logo: null, coverImage: null, isActive: true, isFeatured: false,
+  status: "approved", statusReason: null, deliveryFee: "0.00", cancellationWindow: "confirmed",
+  rating: "0", totalReviews: 0, createdAt: now,
+};
+
+export const product = {
+  id: 1, storeId: 1, categoryId: null, name: "Rice", description: null, price: "10.00", originalPrice: null,
+  stock: 5, images: [], isActive: true, rating: "0", totalReviews: 0, isOnOffer: false, offerPercentage: 0,
+  offerStartsAt: null, offerEndsAt: null, flashSaleQuantity: null, flashSaleSold: 0,
+  flashSaleLimitPerCustomer: null, lowStockThreshold: 5, attributes: {}, createdAt: now,
+};
+
+export const variant = {
+  id: 1, productId: 1, sku: "RICE-1", optionValues: {}, price: "10.00", originalPrice: null, stock: 5,
+  images: [], position: 0, isActive: true, createdAt: now,
+};
+
+export type FakeStorage = Record<string, (...args: any[]) => unknown>;
+
+// Replaces every storage method with its fake. Any other call would go to
+// the database; it fails the request and its name is added to the returned
+// set, so a test can report it
+export function stubStorage(fakes: FakeStorage): Set<string> {
+  const unexpectedCalls = new Set<string>();
+  const methods = Object.getOwnPropertyNames(DatabaseStorage.prototype).filter((name) => name !== "constructor");
+  for (const name of methods) {
+    const fake = fakes[name] ?? (async () => {
+      unexpectedCalls.add(name);
+      throw new Error(`Unexpected storage call: ${name}`);
+    });
+    mock.method(storage, name as keyof DatabaseStorage, fake as never);
+  }
+  return unexpectedCalls;
+}
+
+// Starts the app before the file's tests and stops it after them. The
+// returned object has the base URL once the server is listening
+export function useTestServer(): { baseUrl: string } {
+  const testServer = { baseUrl: "" };
+  let server: Server;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    testServer.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    mock.restoreAll();
+  });
+
+  return testServer;
+}
@@ -0,0 +1,193 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import express, { type Request, Response, NextFunction, RequestHandler } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import { imageRenditions, UPLOADS_PATH, type ImageRendition, type ImageRenditionUrls } from "@shared/images";
+
+// Where uploaded files live; an object storage bucket would implement this
+export interface FileStorage {
+  save(key: string, data: Buffer, contentType: string): Promise<string>; // returns the public URL
+  delete(key: string): Promise<void>;
+  keyFromUrl(url: string): string | null; // null for URLs this storage didn't issue
+}
+
+// Keeps files under a local directory that the server itself serves
+export class LocalDiskStorage implements FileStorage {
+  private staticHandler?: RequestHandler;
+
+  constructor(private readonly directory: string, private readonly publicPath: string) {}
+
+  async save(key: string, data: Buffer): Promise<string> {
+    const filePath = this.filePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return `${this.publicPath}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  keyFromUrl(url: string): string | null {
+    return url.startsWith(`${this.publicPath}/`) ? url.slice(this.publicPath.length + 1) : null;
+  }
+
+  middleware(): RequestHandler {
+    // File names are random and never rewritten, so browsers may cache them for good
+    this.staticHandler ??= express.static(this.directory, { immutable: true, maxAge: "365d", index: false });
+    return this.staticHandler;
+  }
+
+  private filePath(key: string): string {
+    const resolved = path.resolve(this.directory, key);
+    if (!resolved.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error(`Invalid file key "${key}"`);
+    }
+    return resolved;
+  }
+}
+
+function createStorageFromEnv(): FileStorage {
+  switch (process.env.FILE_STORAGE) {
+    case "local":
+    case undefined:
+    case "":
+      return new LocalDiskStorage(process.env.UPLOAD_DIR || "uploads", UPLOADS_PATH);
+    default:
+      throw new Error(`Unknown FILE_STORAGE "${process.env.FILE_STORAGE}"`);
+  }
+}
+
+let fileStorage: FileStorage = createStorageFromEnv();
+
+export function setFileStorage(storage: FileStorage) {
+  fileStorage = storage;
+}
+
+// Serves local uploads; a no-op once files live elsewhere
+export function serveUploads(req: Request, res: Response, next: NextFunction) {
+  if (fileStorage instanceof LocalDiskStorage) {
+    return fileStorage.middleware()(req, res, next);
+  }
+  next();
+}
+
+// Upload validation
+export const allowedImageTypes = ["image/jpeg", "image/png", "image/webp"];
+const maxImageBytes = parseInt(process.env.UPLOAD_MAX_FILE_SIZE || "") || 5 * 1024 * 1024;
+const maxImagesPerRequest = 10;
+
+export class UploadError extends Error {}
+
+const imageMulter = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: maxImageBytes, files: maxImagesPerRequest },
+  fileFilter: (_req, file, callback) => {
+    if (allowedImageTypes.includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(new UploadError("Only JPEG, PNG and WebP images can be uploaded"));
+    }
+  },
+}).array("images", maxImagesPerRequest);
+
+// Spreadsheets for bulk product imports
+const maxCatalogBytes = 10 * 1024 * 1024;
+
+const catalogMulter = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: maxCatalogBytes, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    if (/\.(csv|xlsx)$/i.test(file.originalname)) {
+      callback(null, true);
+    } else {
+      callback(new UploadError("Upload a .csv or .xlsx file"));
+    }
+  },
+}).single("file");
+
+function uploadErrorMessage(error: unknown, maxBytes: number, expected: string): string {
+  if (error instanceof multer.MulterError) {
+    switch (error.code) {
+      case "LIMIT_FILE_SIZE":
+        return `Files must be ${Math.floor(maxBytes / (1024 * 1024))}MB or smaller`;
+      case "LIMIT_FILE_COUNT":
+      case "LIMIT_UNEXPECTED_FILE":
+        return expected;
+    }
+    return error.message;
+  }
+  return error instanceof UploadError ? error.message : "Invalid upload";
+}
+
+// Parses multipart "images" files into req.files, answering 400 for anything
+// of the wrong type or size
+export function imageUpload(req: Request, res: Response, next: NextFunction) {
+  imageMulter(req, res, (error: unknown) => {
+    if (error) {
+      const expected = `Upload at most ${maxImagesPerRequest} images at a time in the "images" field`;
+      return res.status(400).json({ error: uploadErrorMessage(error, maxImageBytes, expected) });
+    }
+    next();
+  });
+}
+
+// Parses a single multipart "file" spreadsheet into req.file
+export function catalogUpload(req: Request, res: Response, next: NextFunction) {
+  catalogMulter(req, res, (error: unknown) => {
+    if (error) {
+      const expected = 'Upload one spreadsheet in the "file" field';
+      return res.status(400).json({ error: uploadErrorMessage(error, maxCatalogBytes, expected) });
+    }
+    next();
+  });
+}
+
+// Resizing
+const renditionNames = Object.keys(imageRenditions) as ImageRendition[];
+
+// Decodes the upload (so a renamed non-image fails here), strips metadata and
+// writes every rendition as WebP
+export async function saveImage(folder: string, data: Buffer): Promise<ImageRenditionUrls> {
+  const image = sharp(data, { limitInputPixels: 40_000_000 }).rotate();
+  let resized: Buffer[];
+  try {
+    resized = await Promise.all(renditionNames.map((rendition) => {
+      const size = imageRenditions[rendition];
+      return image.clone()
+        .resize({ width: size, height: size, fit: "inside", withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+    }));
+  } catch (error) {
+    throw new UploadError("The file is not a readable image");
+  }
+
+  const name = crypto.randomBytes(16).toString("hex");
+  const urls = {} as ImageRenditionUrls;
+  for (let i = 0; i < renditionNames.length; i++) {
+    const rendition = renditionNames[i];
+    urls[rendition] = await fileStorage.save(`${folder}/${name}-${rendition}.webp`, resized[i], "image/webp");
+  }
+  return urls;
+}
+
+// Removes every rendition of uploaded images; other URLs are ignored
+export async function deleteImages(urls: string[]): Promise<void> {
+  for (const url of urls) {
+    const key = fileStorage.keyFromUrl(url);
+    const match = key?.match(/^(.+)-(thumbnail|medium|large)\.webp$/);
+    if (!match) {
+      continue;
+    }
+    for (const rendition of renditionNames) {
+      try {
+        await fileStorage.delete(`${match[1]}-${rendition}.webp`);
+      } catch (error) {
+        console.error(`Failed to delete upload ${match[1]}-${rendition}.webp:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { sendMail } from "./mail";
+import { sendSms } from "./sms";
+
+const CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const RESEND_INTERVAL_MS = 60 * 1000; // 1 minute between codes
+const MAX_CODES_PER_HOUR = 5;
+const MAX_ATTEMPTS = 5;
+
+export type VerificationPurpose = "password_reset" | "email_verification" | "phone_login";
+
+export type IssueCodeResult =
+  | { issued: true; code: string; expiresAt: Date }
+  | { issued: false; retryAfterSeconds: number };
+
+function hashCode(code: string): string {
+  return crypto.createHash("sha256").update(code).digest("hex");
+}
+
+function generateCode(): string {
+  return crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+// Issues a new six digit code unless the identifier has asked for one too
+// recently or too often in the last hour.
+export async function issueVerificationCode(
+  identifier: string,
+  purpose: VerificationPurpose,
+): Promise<IssueCodeResult> {
+  const now = Date.now();
+
+  const latest = await storage.getLatestVerificationCode(identifier, purpose);
+  if (latest && now - latest.createdAt.getTime() < RESEND_INTERVAL_MS) {
+    return {
+      issued: false,
+      retryAfterSeconds: Math.ceil((latest.createdAt.getTime() + RESEND_INTERVAL_MS - now) / 1000),
+    };
+  }
+
+  const issuedLastHour = await storage.countVerificationCodesSince(
+    identifier, purpose, new Date(now - 60 * 60 * 1000),
+  );
+  if (issuedLastHour >= MAX_CODES_PER_HOUR) {
+    return { issued: false, retryAfterSeconds: 60 * 60 };
+  }
+
+  const code = generateCode();
+  const expiresAt = new Date(now + CODE_TTL_MS);
+  await storage.createVerificationCode({ identifier, purpose, codeHash: hashCode(code), expiresAt });
+  return { issued: true, code, expiresAt };
+}
+
+// Checks a code against the most recent unexpired one and consumes it on a
+// match. Each code allows a limited number of wrong guesses.
+export async function consumeVerificationCode(
+  identifier: string,
+  purpose: VerificationPurpose,
+  code: string,
+): Promise<boolean> {
+  const active = await storage.getActiveVerificationCode(identifier, purpose);
+  if (!active || active.attempts >= MAX_ATTEMPTS) {
+    return false;
+  }
+
+  const expected = Buffer.from(active.codeHash, "hex");
+  const actual = Buffer.from(hashCode(code), "hex");
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    await storage.incrementVerificationAttempts(active.id);
+    return false;
+  }
+
+  return await storage.consumeVerificationCode(active.id);
+}
+
+const emailTemplates: Record<Exclude<VerificationPurpose, "phone_login">, { subject: string; intro: string }> = {
+  password_reset: {
+    subject: "Reset your Siraha Bazaar password",
+    intro: "Use this code to reset your password:",
+  },
+  email_verification: {
+    subject: "Verify your Siraha Bazaar email address",
+    intro: "Use this code to verify your email address:",
+  },
+};
+
+export async function sendVerificationEmail(
+  email: string,
+  purpose: Exclude<VerificationPurpose, "phone_login">,
+  code: string,
+) {
+  const template = emailTemplates[purpose];
+  await sendMail({
+    to: email,
+    subject: template.subject,
+    text: `${template.intro}\n\n${code}\n\nThe code expires in ${CODE_TTL_MS / 60000} minutes. If you didn't request it, you can ignore this email.`,
+  });
+}
+
+export async function sendLoginSms(phone: string, code: string) {
+  await sendSms({
+    to: phone,
+    text: `${code} is your Siraha Bazaar login code. It expires in ${CODE_TTL_MS / 60000} minutes.`,
+  });
+}
@@ -0,0 +1,26 @@
+// Sizes uploaded images are resized to. Uploads are stored once per
+// rendition as "<name>-<rendition>.webp"; records keep the large URL and
+// pages swap the suffix for the size they display.
+
+export const imageRenditions = {
+  thumbnail: 160,
+  medium: 600,
+  large: 1200,
+} as const;
+
+export type ImageRendition = keyof typeof imageRenditions;
+
+export type ImageRenditionUrls = Record<ImageRendition, string>;
+
+export const UPLOADS_PATH = "/uploads";
+
+const renditionSuffix = /-(thumbnail|medium|large)\.webp$/;
+
+export function isUploadedImage(url: string): boolean {
+  return url.startsWith(`${UPLOADS_PATH}/`) && renditionSuffix.test(url);
+}
+
+// The URL of another size of an uploaded image; other URLs come back unchanged
+export function imageUrl(url: string, rendition: ImageRendition): string {
+  return isUploadedImage(url) ? url.replace(renditionSuffix, `-${rendition}.webp`) : url;
+}
@@ -0,0 +1,41 @@
+import type { Product } from "./schema";
+
+// Offer rules shared by the server, which charges the effective price, and
+// the client, which shows it. Dates may arrive as ISO strings from JSON.
+
+type OfferFields = Pick<Product,
+  "offerPercentage" | "isFastSell" | "flashSaleQuantity" | "flashSaleSold"
+> & {
+  offerStartsAt: Date | string | null;
+  offerEndsAt: Date | string | null;
+};
+
+const time = (value: Date | string | null) => (value === null ? null : new Date(value).getTime());
+
+export function isFlashSale(product: OfferFields): boolean {
+  return !!product.isFastSell && (product.offerPercentage ?? 0) > 0;
+}
+
+// Flash sales also end once their capped quantity has sold
+export function isOfferActive(product: OfferFields, now: Date = new Date()): boolean {
+  const startsAt = time(product.offerStartsAt);
+  const endsAt = time(product.offerEndsAt);
+  return (product.offerPercentage ?? 0) > 0
+    && (startsAt === null || startsAt <= now.getTime())
+    && (endsAt === null || endsAt > now.getTime())
+    && !(isFlashSale(product) && product.flashSaleQuantity !== null && product.flashSaleSold >= product.flashSaleQuantity);
+}
+
+// The offer price of a product or variant price, rounded to paisa
+export function offerPrice(price: string | number, product: OfferFields, now: Date = new Date()): number {
+  const amount = Number(price);
+  if (!isOfferActive(product, now)) {
+    return amount;
+  }
+  return Math.round(amount * (100 - (product.offerPercentage ?? 0))) / 100;
+}
+
+// Flash sale units still available, or null when the sale has no cap
+export function flashSaleRemaining(product: OfferFields): number | null {
+  return product.flashSaleQuantity === null ? null : Math.max(product.flashSaleQuantity - product.flashSaleSold, 0);
+}
@@ -0,0 +1,78 @@
+import type { StoreOrderStatus } from "./schema";
+
+// Who is changing a store order's status. "system" covers changes the
+// server makes itself, such as marking an order returned once every item
+// has come back
+export type OrderActor = "store" | "admin" | "customer" | "system";
+
+type Transitions = Partial<Record<StoreOrderStatus, StoreOrderStatus[]>>;
+
+const storeTransitions: Transitions = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["packed", "cancelled"],
+  packed: ["out_for_delivery", "cancelled"],
+  out_for_delivery: ["delivered", "failed_delivery"],
+  failed_delivery: ["out_for_delivery", "cancelled"],
+};
+
+// The status changes each actor may make. Cancelled and returned orders
+// are final. Customers are further limited by the store's cancellation
+// window, see canCustomerCancel
+export const orderTransitions: Record<OrderActor, Transitions> = {
+  store: storeTransitions,
+  admin: { ...storeTransitions, delivered: ["returned"] },
+  customer: { pending: ["cancelled"], confirmed: ["cancelled"] },
+  system: { delivered: ["returned"] },
+};
+
+export function canTransition(actor: OrderActor, from: string, to: string): boolean {
+  return (orderTransitions[actor][from as StoreOrderStatus] ?? []).includes(to as StoreOrderStatus);
+}
+
+// The statuses an actor can move a store order to from where it is now
+export function nextStatuses(actor: OrderActor, from: string): StoreOrderStatus[] {
+  return orderTransitions[actor][from as StoreOrderStatus] ?? [];
+}
+
+export const orderStatusLabels: Record<StoreOrderStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  packed: "Packed",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  failed_delivery: "Delivery failed",
+  returned: "Returned",
+};
+
+export function orderStatusLabel(status: string): string {
+  return orderStatusLabels[status as StoreOrderStatus] ?? status;
+}
+
+// How far along each status is, for summarising several store orders.
+// A failed delivery still has to be resolved, so it ranks before delivered
+const progress: StoreOrderStatus[] = [
+  "pending", "confirmed", "packed", "out_for_delivery", "failed_delivery", "delivered", "returned",
+];
+
+// An order reads as its least advanced store order that is still going,
+// and as cancelled only once every store order is
+export function parentOrderStatus(statuses: string[]): StoreOrderStatus {
+  const active = statuses.filter((status) => status !== "cancelled") as StoreOrderStatus[];
+  if (active.length === 0) {
+    return "cancelled";
+  }
+  return active.reduce((least, status) => progress.indexOf(status) < progress.indexOf(least) ? status : least);
+}
+
+// Whether a customer may still cancel a store order, given how long its
+// store allows cancellations
+export function canCustomerCancel(status: string, window: string): boolean {
+  return canTransition("customer", status, "cancelled") &&
+    progress.indexOf(status as StoreOrderStatus) <= progress.indexOf(window as StoreOrderStatus);
+}
+
+// Orders paid before delivery are refunded when cancelled
+export function isPrepaid(paymentMethod: string): boolean {
+  return paymentMethod !== "cod";
+}
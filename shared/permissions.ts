@@ -0,0 +1,40 @@
+// Admin permission catalog and the roles that bundle them.
+// Shared so the admin panel can hide what the server would reject.
+
+export const adminPermissions = [
+  "manage_admins",
+  "manage_users",
+  "manage_categories",
+  "manage_products",
+  "moderate_stores",
+  "moderate_reviews",
+  "manage_orders",
+  "issue_refunds",
+  "view_analytics",
+  "manage_settings",
+] as const;
+
+export type AdminPermission = typeof adminPermissions[number];
+
+export const adminRolePermissions = {
+  super_admin: [...adminPermissions],
+  moderator: ["manage_categories", "manage_products", "moderate_stores", "moderate_reviews"],
+  support: ["manage_users", "manage_orders"],
+  finance: ["view_analytics", "manage_orders", "issue_refunds"],
+} satisfies Record<string, readonly AdminPermission[]>;
+
+export type AdminRole = keyof typeof adminRolePermissions;
+
+export const adminRoles = Object.keys(adminRolePermissions) as AdminRole[];
+
+export function isAdminRole(role: string): role is AdminRole {
+  return Object.prototype.hasOwnProperty.call(adminRolePermissions, role);
+}
+
+export function getAdminPermissions(role: string): AdminPermission[] {
+  return isAdminRole(role) ? [...adminRolePermissions[role]] : [];
+}
+
+export function adminHasPermission(role: string, permission: AdminPermission): boolean {
+  return getAdminPermissions(role).includes(permission);
+}
@@ -1,15 +1,29 @@
-import { pgTable, text, serial, integer, decimal, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, decimal, boolean, timestamp, jsonb, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isUploadedImage } from "./images";
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
-  email: text("email").notNull().unique(),
-  password: text("password").notNull(),
+  email: text("email").unique(), // null for accounts created by phone sign-in
+  password: text("password"), // null until a phone-only account sets one
   fullName: text("full_name").notNull(),
   phone: text("phone"),
   address: text("address"),
   role: text("role").notNull().default("customer"), // customer, store_owner
+  status: text("status").notNull().default("active"), // active, suspended, banned
+  statusReason: text("status_reason"),
+  passwordResetRequired: boolean("password_reset_required").default(false),
+  emailVerified: boolean("email_verified").default(false),
+  phoneVerified: boolean("phone_verified").default(false),
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -29,6 +43,22 @@ export const stores = pgTable("stores", {
   totalReviews: integer("total_reviews").default(0),
   featured: boolean("featured").default(false),
   isActive: boolean("is_active").default(true),
+  status: text("status").notNull().default("pending_review"), // pending_review, approved, rejected, suspended
+  statusReason: text("status_reason"),
+  reviewedAt: timestamp("reviewed_at"),
+  deliveryFee: decimal("delivery_fee", { precision: 10, scale: 2 }).notNull().default("0.00"), // charged once per order from this store
+  cancellationWindow: text("cancellation_window").notNull().default("confirmed"), // last status customers can cancel in: pending or confirmed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// KYC documents submitted by store owners for verification
+export const storeDocuments = pgTable("store_documents", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  type: text("type").notNull(), // pan_vat, citizenship
+  documentNumber: text("document_number"),
+  documentUrl: text("document_url").notNull(),
+  status: text("status").notNull().default("pending"), // pending, verified, rejected
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -36,6 +66,23 @@ export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
   slug: text("slug").notNull().unique(),
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id), // null for top-level categories
+  image: text("image"),
+  position: integer("position").notNull().default(0), // order among siblings
+});
+
+// Details products in a category fill in, e.g. Weight for groceries or Size
+// for clothing. Subcategories inherit their ancestors' attributes
+export const categoryAttributes = pgTable("category_attributes", {
+  id: serial("id").primaryKey(),
+  categoryId: integer("category_id").references(() => categories.id).notNull(),
+  key: text("key").notNull(), // stored in products.attributes
+  label: text("label").notNull(),
+  type: text("type").notNull().default("text"), // text, number, select
+  unit: text("unit"), // e.g. kg, ml
+  options: text("options").array().notNull().default([]), // choices for select attributes
+  required: boolean("required").notNull().default(false),
+  position: integer("position").notNull().default(0),
 });
 
 export const products = pgTable("products", {
@@ -51,40 +98,138 @@ export const products = pgTable("products", {
   rating: decimal("rating", { precision: 3, scale: 2 }).default("0.00"),
   totalReviews: integer("total_reviews").default(0),
   isActive: boolean("is_active").default(true),
-  isFastSell: boolean("is_fast_sell").default(false), // Fast sell product
-  isOnOffer: boolean("is_on_offer").default(false), // Special offer
-  offerPercentage: integer("offer_percentage").default(0), // Discount percentage
-  offerEndDate: text("offer_end_date"), // When offer expires (stored as string)
+  isFastSell: boolean("is_fast_sell").default(false), // Fast sell product; its offer runs as a flash sale
+  isOnOffer: boolean("is_on_offer").default(false), // Offer currently running; kept up to date by the offer scheduler
+  offerPercentage: integer("offer_percentage").default(0), // Discount percentage, 0 for no offer
+  offerStartsAt: timestamp("offer_starts_at"), // null starts the offer immediately
+  offerEndsAt: timestamp("offer_ends_at"), // null runs the offer until it is removed
+  flashSaleQuantity: integer("flash_sale_quantity"), // units sold at the flash sale price, null for no cap
+  flashSaleSold: integer("flash_sale_sold").notNull().default(0),
+  flashSaleLimitPerCustomer: integer("flash_sale_limit_per_customer"), // null for no limit
+  lowStockThreshold: integer("low_stock_threshold").notNull().default(5), // the owner is notified when a variant's stock falls to this
+  attributes: jsonb("attributes").$type<Record<string, string>>().notNull().default({}), // category attribute key -> value
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Option types a product varies by, e.g. Size with values S, M, L
+export const productOptions = pgTable("product_options", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  name: text("name").notNull(),
+  values: text("values").array().notNull().default([]),
+  position: integer("position").notNull().default(0),
+});
+
+// Purchasable SKUs; every product has at least one. products.price and
+// products.stock summarise the active variants for listings
+export const productVariants = pgTable("product_variants", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  sku: text("sku").notNull().unique(),
+  optionValues: jsonb("option_values").$type<Record<string, string>>().notNull().default({}), // option name -> value
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  originalPrice: decimal("original_price", { precision: 10, scale: 2 }),
+  stock: integer("stock").notNull().default(0),
+  images: text("images").array().default([]),
+  position: integer("position").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true), // variants still referenced by orders are deactivated, not deleted
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Search document per product, rebuilt by storage whenever the product, its
+// category or its store is renamed
+export const productSearch = pgTable("product_search", {
+  productId: integer("product_id").primaryKey().references(() => products.id),
+  document: tsvector("document").notNull(), // weighted: name A, category B, store C, description D
+  content: text("content").notNull(), // name, category and store as plain text for trigram matching
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// What the customer placed at checkout. Each store in it fulfils its part
+// as a store order; status and totalAmount summarise those
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   customerId: integer("customer_id").references(() => users.id).notNull(),
-  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("pending"), // pending, processing, shipped, delivered, cancelled
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(), // store order totals, delivery fees included
+  status: text("status").notNull().default("pending"), // derived from the store orders, see parentOrderStatus
   shippingAddress: text("shipping_address").notNull(),
   paymentMethod: text("payment_method").notNull(),
   phone: text("phone").notNull(),
   customerName: text("customer_name").notNull(),
+  cancellationReason: text("cancellation_reason"), // set when the customer cancels
   latitude: decimal("latitude", { precision: 10, scale: 8 }), // Customer location latitude
   longitude: decimal("longitude", { precision: 11, scale: 8 }), // Customer location longitude
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// One store's share of an order, fulfilled and tracked independently
+export const storeOrders = pgTable("store_orders", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id).notNull(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  status: text("status").notNull().default("pending"), // see storeOrderStatuses; changes follow orderTransitions
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  deliveryFee: decimal("delivery_fee", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  // When the store order last reached each stage, for fulfilment times
+  confirmedAt: timestamp("confirmed_at"),
+  packedAt: timestamp("packed_at"),
+  outForDeliveryAt: timestamp("out_for_delivery_at"),
+  deliveredAt: timestamp("delivered_at"),
+  failedDeliveryAt: timestamp("failed_delivery_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  returnedAt: timestamp("returned_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const orderItems = pgTable("order_items", {
   id: serial("id").primaryKey(),
   orderId: integer("order_id").references(() => orders.id).notNull(),
+  storeOrderId: integer("store_order_id").references(() => storeOrders.id).notNull(),
   productId: integer("product_id").references(() => products.id).notNull(),
+  variantId: integer("variant_id").references(() => productVariants.id).notNull(),
+  variantName: text("variant_name"), // e.g. "M / Red" at the time of ordering
   quantity: integer("quantity").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   storeId: integer("store_id").references(() => stores.id).notNull(),
 });
 
+// Stock ledger with one row per change to a variant's stock. quantity is
+// signed (sales and write-offs are negative) and stockAfter is the
+// variant's stock once the change was applied
+export const inventoryMovements = pgTable("inventory_movements", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  variantId: integer("variant_id").references(() => productVariants.id).notNull(),
+  type: text("type").notNull(), // sale, restock, adjustment, return, cancellation
+  quantity: integer("quantity").notNull(),
+  stockAfter: integer("stock_after").notNull(),
+  orderId: integer("order_id").references(() => orders.id),
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id), // null for automatic changes and admin edits
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Responses to requests sent with an Idempotency-Key header, so a retried
+// request gets the original response instead of running twice. Keys are
+// unique per user and endpoint
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  scope: text("scope").notNull(), // method and path, e.g. "POST /api/orders"
+  key: text("key").notNull(),
+  requestHash: text("request_hash").notNull(), // sha256 of the request body
+  responseStatus: integer("response_status"), // null while the first request is still running
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const cartItems = pgTable("cart_items", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
   productId: integer("product_id").references(() => products.id).notNull(),
+  variantId: integer("variant_id").references(() => productVariants.id).notNull(),
   quantity: integer("quantity").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -102,7 +247,43 @@ export const admins = pgTable("admins", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   fullName: text("full_name").notNull(),
-  role: text("role").notNull().default("admin"),
+  role: text("role").notNull().default("support"), // super_admin, moderator, support, finance
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Admin login sessions; only a hash of the bearer token is stored
+export const adminSessions = pgTable("admin_sessions", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").references(() => admins.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Signed-in devices; every user token carries the id of its session
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One-time codes sent by email or SMS; only a hash of the code is stored
+export const verificationCodes = pgTable("verification_codes", {
+  id: serial("id").primaryKey(),
+  identifier: text("identifier").notNull(), // email address or phone number
+  purpose: text("purpose").notNull(), // password_reset, email_verification, phone_login
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -135,7 +316,10 @@ export const notifications = pgTable("notifications", {
 export const orderTracking = pgTable("order_tracking", {
   id: serial("id").primaryKey(),
   orderId: integer("order_id").references(() => orders.id).notNull(),
+  storeOrderId: integer("store_order_id").references(() => storeOrders.id), // null for entries about the whole order
   status: text("status").notNull(),
+  previousStatus: text("previous_status"), // set on status changes; null for placement and delivery updates
+  changedBy: integer("changed_by").references(() => users.id), // null for automatic changes and admin edits
   description: text("description"),
   location: text("location"),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -161,15 +345,80 @@ export const returns = pgTable("returns", {
   status: text("status").notNull().default("requested"), // requested, approved, rejected, completed
   refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }),
   images: text("images").array().default([]),
+  restockedAt: timestamp("restocked_at"), // set once the returned item is back in stock
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Money owed back to a customer for a prepaid store order that was
+// cancelled. Refunds are created as initiated and settled by finance
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id).notNull(),
+  storeOrderId: integer("store_order_id").references(() => storeOrders.id).notNull(),
+  customerId: integer("customer_id").references(() => users.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  paymentMethod: text("payment_method").notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").notNull().default("initiated"), // initiated, completed, failed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Product reviews; each one is tied to the delivered order item that proves the purchase
+export const reviews = pgTable("reviews", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  customerId: integer("customer_id").references(() => users.id).notNull(),
+  orderItemId: integer("order_item_id").references(() => orderItems.id).notNull(),
+  rating: integer("rating").notNull(), // 1-5 stars
+  title: text("title"),
+  comment: text("comment"),
+  images: text("images").array().default([]),
+  helpfulCount: integer("helpful_count").notNull().default(0),
+  sellerReply: text("seller_reply"),
+  sellerRepliedAt: timestamp("seller_replied_at"),
+  status: text("status").notNull().default("published"), // published, held, hidden
+  moderationReason: text("moderation_reason"), // reason code for held or hidden reviews
+  moderatedAt: timestamp("moderated_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// "Helpful" votes; a user can vote once per review
+export const reviewVotes = pgTable("review_votes", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").references(() => reviews.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Customer reports of abusive reviews; a user can report a review once
+export const reviewReports = pgTable("review_reports", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").references(() => reviews.id).notNull(),
+  reporterId: integer("reporter_id").references(() => users.id).notNull(),
+  reason: text("reason").notNull(), // spam, offensive, fake, off_topic, personal_info, other
+  details: text("details"),
+  status: text("status").notNull().default("open"), // open, resolved
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  status: true,
+  statusReason: true,
+  passwordResetRequired: true,
+  emailVerified: true,
+  phoneVerified: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
   createdAt: true,
 }).extend({
+  email: z.string().email(),
+  password: z.string().min(6),
   role: z.enum(["customer", "store_owner"]).default("customer"),
 });
 
@@ -178,23 +427,136 @@ export const insertStoreSchema = createInsertSchema(stores).omit({
   createdAt: true,
   rating: true,
   totalReviews: true,
+  featured: true,
+  status: true,
+  statusReason: true,
+  reviewedAt: true,
+});
+
+export const insertStoreDocumentSchema = createInsertSchema(storeDocuments).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+}).extend({
+  type: z.enum(["pan_vat", "citizenship"]),
+  documentUrl: z.string().refine(isUploadedImage, "Upload a photo or scan of the document"),
 });
 
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
 });
 
+export const categoryAttributeTypes = ["text", "number", "select"] as const;
+
+export const categoryAttributesInputSchema = z.object({
+  attributes: z.array(z.object({
+    key: z.string().trim().regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and underscores"),
+    label: z.string().trim().min(1),
+    type: z.enum(categoryAttributeTypes),
+    unit: z.string().trim().max(20).nullish(),
+    options: z.array(z.string().trim().min(1)).default([]),
+    required: z.boolean().default(false),
+  })).max(20),
+}).superRefine((data, ctx) => {
+  const keys = new Set<string>();
+  data.attributes.forEach((attribute, index) => {
+    if (keys.has(attribute.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate attribute ${attribute.key}`, path: ["attributes", index, "key"] });
+    }
+    keys.add(attribute.key);
+    if (attribute.type === "select" && attribute.options.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${attribute.label} needs at least one choice`, path: ["attributes", index, "options"] });
+    }
+  });
+});
+
+// New sibling order and parents for the admin category tree
+export const reorderCategoriesSchema = z.object({
+  categories: z.array(z.object({
+    id: z.number().int(),
+    parentId: z.number().int().nullable(),
+    position: z.number().int().min(0),
+  })).min(1),
+});
+
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
   createdAt: true,
   rating: true,
   totalReviews: true,
+  isOnOffer: true,
+  flashSaleSold: true,
+}).extend({
+  attributes: z.record(z.string()).default({}),
+  offerPercentage: z.number().int().min(0).max(100).default(0),
+  offerStartsAt: z.coerce.date().nullable().optional(),
+  offerEndsAt: z.coerce.date().nullable().optional(),
+  flashSaleQuantity: z.number().int().min(1).nullable().optional(),
+  flashSaleLimitPerCustomer: z.number().int().min(1).nullable().optional(),
+  lowStockThreshold: z.number().int().min(0).optional(),
+});
+
+export const insertProductOptionSchema = createInsertSchema(productOptions).omit({
+  id: true,
+});
+
+export const insertProductVariantSchema = createInsertSchema(productVariants).omit({
+  id: true,
+  createdAt: true,
+});
+
+// The full option and variant set a shopkeeper saves for a product. Variants
+// sent without an id are created; existing variants left out are deactivated
+export const productVariantsInputSchema = z.object({
+  options: z.array(z.object({
+    name: z.string().trim().min(1),
+    values: z.array(z.string().trim().min(1)).min(1),
+  })).max(3),
+  variants: z.array(z.object({
+    id: z.number().int().optional(),
+    sku: z.string().trim().min(1),
+    optionValues: z.record(z.string()).default({}),
+    price: z.union([z.string(), z.number()]).transform(String),
+    originalPrice: z.union([z.string(), z.number()]).nullish().transform((val) =>
+      val === undefined || val === null || val === "" ? null : String(val)
+    ),
+    stock: z.number().int().min(0),
+    images: z.array(z.string()).default([]),
+  })).min(1),
+}).superRefine((data, ctx) => {
+  const skus = new Set<string>();
+  const combinations = new Set<string>();
+  data.variants.forEach((variant, index) => {
+    if (skus.has(variant.sku)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate SKU ${variant.sku}`, path: ["variants", index, "sku"] });
+    }
+    skus.add(variant.sku);
+
+    const combination = JSON.stringify(data.options.map((option) => variant.optionValues[option.name]));
+    if (combinations.has(combination)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Two variants have the same options", path: ["variants", index] });
+    }
+    combinations.add(combination);
+
+    for (const option of data.options) {
+      if (!option.values.includes(variant.optionValues[option.name])) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Variant ${variant.sku} needs a ${option.name} value`,
+          path: ["variants", index, "optionValues"],
+        });
+      }
+    }
+  });
 });
 
+export const paymentMethods = ["cod", "card", "upi"] as const;
+
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   createdAt: true,
 }).extend({
+  paymentMethod: z.enum(paymentMethods),
   latitude: z.union([z.string(), z.number()]).optional().transform((val) =>
     val !== undefined ? String(val) : undefined
   ),
@@ -203,10 +565,45 @@ export const insertOrderSchema = createInsertSchema(orders).omit({
   ),
 });
 
+export const insertStoreOrderSchema = createInsertSchema(storeOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
 });
 
+export const insertInventoryMovementSchema = createInsertSchema(inventoryMovements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const inventoryMovementTypes = ["sale", "restock", "adjustment", "return", "cancellation"] as const;
+
+// A manual stock change from the stock-adjustment screen. Adjustments
+// (damage, shrinkage, recounts) may go either way and need a reason
+export const stockAdjustmentSchema = z.object({
+  variantId: z.number().int(),
+  type: z.enum(["restock", "adjustment"]),
+  quantity: z.number().int().refine((value) => value !== 0, "Quantity cannot be zero"),
+  note: z.string().trim().max(500).optional(),
+}).refine((data) => data.type !== "restock" || data.quantity > 0, {
+  message: "A restock must add stock",
+  path: ["quantity"],
+}).refine((data) => data.type !== "adjustment" || !!data.note, {
+  message: "A reason is required for adjustments",
+  path: ["note"],
+});
+
+export const insertIdempotencyKeySchema = createInsertSchema(idempotencyKeys).omit({
+  id: true,
+  responseStatus: true,
+  responseBody: true,
+  createdAt: true,
+});
+
 export const insertCartItemSchema = createInsertSchema(cartItems).omit({
   id: true,
   createdAt: true,
@@ -219,6 +616,28 @@ export const insertWishlistItemSchema = createInsertSchema(wishlistItems).omit({
 
 export const insertAdminSchema = createInsertSchema(admins).omit({
   id: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  createdAt: true,
+});
+
+export const insertAdminSessionSchema = createInsertSchema(adminSessions).omit({
+  id: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const insertUserSessionSchema = createInsertSchema(userSessions).omit({
+  id: true,
+  lastSeenAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const insertVerificationCodeSchema = createInsertSchema(verificationCodes).omit({
+  id: true,
+  attempts: true,
+  consumedAt: true,
   createdAt: true,
 });
 
@@ -244,29 +663,166 @@ export const insertReturnPolicySchema = createInsertSchema(returnPolicies).omit(
 
 export const insertReturnSchema = createInsertSchema(returns).omit({
   id: true,
+  status: true,
+  restockedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  status: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertReviewSchema = createInsertSchema(reviews).omit({
+  id: true,
+  helpfulCount: true,
+  sellerReply: true,
+  sellerRepliedAt: true,
+  moderatedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// What a customer submits when writing or editing a review
+export const reviewInputSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  title: z.string().trim().max(120).optional(),
+  comment: z.string().trim().max(2000).optional(),
+  images: z.array(z.string().url()).max(5).default([]),
+});
+
+export const sellerReplySchema = z.object({
+  reply: z.string().trim().min(1).max(1000),
+});
+
+export const reviewStatuses = ["published", "held", "hidden"] as const;
+
+export const reviewReasonCodes = ["spam", "offensive", "fake", "off_topic", "personal_info", "other"] as const;
+
+export const reportReviewSchema = z.object({
+  reason: z.enum(reviewReasonCodes),
+  details: z.string().trim().max(500).optional(),
+});
+
+export const moderateReviewSchema = z.object({
+  status: z.enum(["published", "hidden"]),
+  reason: z.enum(reviewReasonCodes).optional(),
+}).refine((data) => data.status === "published" || !!data.reason, {
+  message: "A reason is required when hiding a review",
+  path: ["reason"],
+});
+
+export const deleteReviewSchema = z.object({
+  reason: z.enum(reviewReasonCodes),
+});
+
+export const userStatuses = ["active", "suspended", "banned"] as const;
+
+export const updateUserStatusSchema = z.object({
+  status: z.enum(userStatuses),
+  reason: z.string().trim().optional(),
+}).refine((data) => data.status === "active" || !!data.reason, {
+  message: "A reason is required when suspending or banning a user",
+  path: ["reason"],
+});
+
+export const returnStatuses = ["requested", "approved", "rejected", "completed"] as const;
+
+export const updateReturnStatusSchema = z.object({
+  status: z.enum(returnStatuses),
+});
+
+// Fulfilment statuses of a store order. The first five are the normal
+// progression; which changes are allowed is in shared/orders.ts
+export const storeOrderStatuses = [
+  "pending", "confirmed", "packed", "out_for_delivery", "delivered", "cancelled", "failed_delivery", "returned",
+] as const;
+
+export const updateStoreOrderStatusSchema = z.object({
+  status: z.enum(storeOrderStatuses),
+  note: z.string().trim().max(500).optional(),
+});
+
+// The last status in which a store lets customers cancel
+export const cancellationWindows = ["pending", "confirmed"] as const;
+
+// Store-level order settings the owner edits from the dashboard
+export const storeSettingsSchema = z.object({
+  deliveryFee: z.union([z.string(), z.number()])
+    .transform((value) => Number(value))
+    .refine((value) => Number.isFinite(value) && value >= 0, "Delivery fee must be zero or more")
+    .transform((value) => value.toFixed(2))
+    .optional(),
+  cancellationWindow: z.enum(cancellationWindows).optional(),
+}).refine((settings) => settings.deliveryFee !== undefined || settings.cancellationWindow !== undefined, "Nothing to update");
+
+export const cancelOrderSchema = z.object({
+  reason: z.string().trim().min(3, "Please tell us why you are cancelling").max(500),
+});
+
+export const storeStatuses = ["pending_review", "approved", "rejected", "suspended"] as const;
+
+export const updateStoreStatusSchema = z.object({
+  status: z.enum(storeStatuses),
+  reason: z.string().trim().optional(),
+}).refine((data) => (data.status !== "rejected" && data.status !== "suspended") || !!data.reason, {
+  message: "A reason is required when rejecting or suspending a store",
+  path: ["reason"],
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserStatus = typeof userStatuses[number];
 export type Store = typeof stores.$inferSelect;
 export type InsertStore = z.infer<typeof insertStoreSchema>;
+export type StoreSettings = z.infer<typeof storeSettingsSchema>;
+export type CancellationWindow = typeof cancellationWindows[number];
+export type StoreStatus = typeof storeStatuses[number];
+export type StoreDocument = typeof storeDocuments.$inferSelect;
+export type InsertStoreDocument = z.infer<typeof insertStoreDocumentSchema>;
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type CategoryAttribute = typeof categoryAttributes.$inferSelect;
+export type CategoryAttributeType = typeof categoryAttributeTypes[number];
+export type CategoryAttributesInput = z.infer<typeof categoryAttributesInputSchema>;
+export type ReorderCategoriesInput = z.infer<typeof reorderCategoriesSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type ProductOption = typeof productOptions.$inferSelect;
+export type InsertProductOption = z.infer<typeof insertProductOptionSchema>;
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export type ProductVariantsInput = z.infer<typeof productVariantsInputSchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type PaymentMethod = typeof paymentMethods[number];
+export type StoreOrder = typeof storeOrders.$inferSelect;
+export type StoreOrderStatus = typeof storeOrderStatuses[number];
+export type InsertStoreOrder = z.infer<typeof insertStoreOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type InventoryMovement = typeof inventoryMovements.$inferSelect;
+export type InsertInventoryMovement = z.infer<typeof insertInventoryMovementSchema>;
+export type InventoryMovementType = typeof inventoryMovementTypes[number];
+export type StockAdjustment = z.infer<typeof stockAdjustmentSchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
 export type CartItem = typeof cartItems.$inferSelect;
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 export type WishlistItem = typeof wishlistItems.$inferSelect;
 export type InsertWishlistItem = z.infer<typeof insertWishlistItemSchema>;
 export type Admin = typeof admins.$inferSelect;
 export type InsertAdmin = z.infer<typeof insertAdminSchema>;
+export type AdminSession = typeof adminSessions.$inferSelect;
+export type InsertAdminSession = z.infer<typeof insertAdminSessionSchema>;
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+export type VerificationCode = typeof verificationCodes.$inferSelect;
+export type InsertVerificationCode = z.infer<typeof insertVerificationCodeSchema>;
 export type WebsiteVisit = typeof websiteVisits.$inferSelect;
 export type InsertWebsiteVisit = z.infer<typeof insertWebsiteVisitSchema>;
 export type Notification = typeof notifications.$inferSelect;
@@ -277,3 +833,13 @@ export type ReturnPolicy = typeof returnPolicies.$inferSelect;
 export type InsertReturnPolicy = z.infer<typeof insertReturnPolicySchema>;
 export type Return = typeof returns.$inferSelect;
 export type InsertReturn = z.infer<typeof insertReturnSchema>;
+export type ReturnStatus = typeof returnStatuses[number];
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type Review = typeof reviews.$inferSelect;
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type ReviewInput = z.infer<typeof reviewInputSchema>;
+export type ReviewVote = typeof reviewVotes.$inferSelect;
+export type ReviewStatus = typeof reviewStatuses[number];
+export type ReviewReasonCode = typeof reviewReasonCodes[number];
+export type ReviewReport = typeof reviewReports.$inferSelect;